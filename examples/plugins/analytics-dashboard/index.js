@@ -2,10 +2,15 @@
  * Analytics Dashboard Plugin
  * 
  * Provides real-time analytics and insights via a web dashboard.
- * Tracks usage patterns, costs, and performance metrics.
+ * Tracks usage patterns, costs, and performance metrics. With
+ * `bridgeSocket` set, events from other sessions relayed by
+ * `claudeware daemon` are included.
  */
 
 const http = require('http');
+const net = require('net');
+const os = require('os');
+const readline = require('readline');
 const fs = require('fs').promises;
 const path = require('path');
 
@@ -64,6 +69,8 @@ class AnalyticsDashboardPlugin {
     // State
     this.server = null;
     this.clients = new Set();
+    this.localSessions = new Set();
+    this.bridge = null;
     this.todayStart = this.getStartOfDay();
   }
 
@@ -96,9 +103,41 @@ class AnalyticsDashboardPlugin {
     
     // Reset daily stats at midnight
     this.scheduleDailyReset();
+    
+    if (context.config.bridgeSocket) {
+      await this.connectBridge(context.config.bridgeSocket);
+    }
   }
 
   async onEvent(event, context) {
+    // Remember our sessions so the bridge does not count them twice
+    if (event.metadata && event.metadata.sessionId) {
+      this.localSessions.add(event.metadata.sessionId);
+    }
+    await this.recordEvent(event);
+  }
+
+  async connectBridge(socketPath) {
+    socketPath = socketPath.replace(/^~/, os.homedir());
+    
+    const onEvent = (event) => {
+      if (!this.localSessions.has(event.metadata && event.metadata.sessionId)) {
+        this.recordEvent(event);
+      }
+    };
+    const onError = (error) => {
+      this.logger.warn('Event bridge error', { socketPath, error: error.message });
+    };
+    
+    try {
+      this.bridge = await subscribeToBridge(socketPath, ['query', 'response', 'error'], onEvent, onError);
+      this.logger.info('Including other sessions through event bridge', { socketPath });
+    } catch (error) {
+      this.logger.warn('Event bridge unavailable', { socketPath, error: error.message });
+    }
+  }
+
+  async recordEvent(event) {
     try {
       const now = Date.now();
       
@@ -151,7 +190,8 @@ class AnalyticsDashboardPlugin {
 
   async handleResponse(event) {
     const usage = event.data.usage;
-    if (!usage) return;
+    // Intermediate responses are repeated in the final result's totals
+    if (!usage || event.metadata.intermediate) return;
     
     // Update token counts
     this.stats.tokens.totalInput += usage.input_tokens || 0;
@@ -565,6 +605,10 @@ class AnalyticsDashboardPlugin {
   }
 
   async shutdown() {
+    if (this.bridge) {
+      this.bridge.destroy();
+    }
+    
     if (this.server) {
       await new Promise((resolve) => {
         this.server.close(resolve);
@@ -578,4 +622,36 @@ class AnalyticsDashboardPlugin {
   }
 }
 
+/**
+ * Subscribe to `claudeware daemon`. The bridge protocol is NDJSON: one
+ * subscribe line out, then one event per line back. Plugins load from their
+ * own directory and can't require claudeware, so this speaks it directly.
+ */
+function subscribeToBridge(socketPath, topics, onEvent, onError) {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(socketPath);
+    
+    socket.once('error', reject);
+    socket.once('connect', () => {
+      socket.off('error', reject);
+      socket.on('error', onError);
+      // The bridge never keeps the session alive
+      socket.unref();
+      
+      readline.createInterface({ input: socket, crlfDelay: Infinity }).on('line', (line) => {
+        let event;
+        try {
+          event = JSON.parse(line);
+        } catch (error) {
+          return;
+        }
+        onEvent(event);
+      });
+      
+      socket.write(JSON.stringify({ op: 'subscribe', topics }) + '\n');
+      resolve(socket);
+    });
+  });
+}
+
 module.exports = AnalyticsDashboardPlugin;
\ No newline at end of file
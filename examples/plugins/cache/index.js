@@ -66,22 +66,13 @@ class CachePlugin {
   }
 
   async onEvent(event, context) {
-    try {
-      if (event.type === 'query') {
-        await this.handleQuery(event, context);
-      } else if (event.type === 'response') {
-        await this.handleResponse(event, context);
-      }
-    } catch (error) {
-      this.logger.error({ error: error.message }, 'Error processing event');
-    }
+    // Lookups and saves happen in beforeQuery/afterResponse
   }
 
-  async handleQuery(event, context) {
-    const query = event.data.messages[0]?.content;
+  async beforeQuery(request, context) {
+    const query = request.prompt;
     if (!query) return;
     
-    const queryId = event.id;
     const hash = this.hashQuery(query);
     
     // Check exact match
@@ -92,81 +83,66 @@ class CachePlugin {
       cacheHit = this.findSimilarQuery(query);
     }
     
-    if (cacheHit) {
-      // Cache hit!
-      this.metrics.hits++;
-      this.updateAccessOrder(cacheHit.key);
-      cacheHit.entry.hits++;
-      
-      this.logger.debug('Cache hit', {
-        query: query.substring(0, 50) + '...',
-        hits: cacheHit.entry.hits,
-        age: Date.now() - cacheHit.entry.timestamp
-      });
-      
-      // Emit cached response
-      const cachedEvent = {
-        id: event.id + '-cached',
-        type: 'response',
-        timestamp: Date.now(),
-        data: cacheHit.entry.response,
-        metadata: {
-          ...event.metadata,
-          cached: true,
-          cacheKey: cacheHit.key,
-          originalTimestamp: cacheHit.entry.timestamp
-        }
-      };
-      
-      // Short-circuit the request
-      context.eventBus.emit('response', cachedEvent);
-      context.eventBus.emit('cache-hit', {
-        queryId,
-        query,
-        cacheKey: cacheHit.key,
-        savings: cacheHit.entry.response.usage
-      });
-      
-      // Share metrics
-      context.sharedState.set('cache:hits', this.metrics.hits);
-      context.sharedState.set('cache:hitRate', this.getHitRate());
-      
-    } else {
-      // Cache miss
+    if (!cacheHit) {
+      // Cache miss; remember the query so afterResponse can save the answer
       this.metrics.misses++;
-      this.pendingQueries.set(queryId, { hash, query });
+      this.pendingQueries.set(request.queryId, { hash, query });
       
       this.logger.debug('Cache miss', {
         query: query.substring(0, 50) + '...'
       });
       
       context.sharedState.set('cache:misses', this.metrics.misses);
+      return;
     }
+    
+    // Cache hit!
+    this.metrics.hits++;
+    this.updateAccessOrder(cacheHit.key);
+    cacheHit.entry.hits++;
+    
+    this.logger.debug('Cache hit', {
+      query: query.substring(0, 50) + '...',
+      hits: cacheHit.entry.hits,
+      age: Date.now() - cacheHit.entry.timestamp
+    });
+    
+    context.eventBus.emit('cache-hit', {
+      queryId: request.queryId,
+      query,
+      cacheKey: cacheHit.key,
+      savings: cacheHit.entry.response.usage
+    });
+    
+    // Share metrics
+    context.sharedState.set('cache:hits', this.metrics.hits);
+    context.sharedState.set('cache:hitRate', this.getHitRate());
+    
+    // Short-circuit the request
+    return { action: 'respond', response: cacheHit.entry.response };
   }
 
-  async handleResponse(event, context) {
-    const queryId = event.metadata.queryId;
-    const pending = this.pendingQueries.get(queryId);
-    
-    if (!pending || event.metadata.cached) {
-      return; // Not tracking this query or it's already cached
+  async afterResponse(request, response, context) {
+    const pending = this.pendingQueries.get(request.queryId);
+    if (!pending) {
+      return; // Not tracking this query
     }
     
+    this.pendingQueries.delete(request.queryId);
+    
     // Don't cache errors
-    if (event.data.error || !event.data.content) {
-      this.pendingQueries.delete(queryId);
+    if (response.error || !response.content) {
       return;
     }
     
     // Add to cache
     this.addToCache(pending.hash, {
-      response: event.data,
+      response,
       timestamp: Date.now(),
       hits: 0,
       query: pending.query
     });
     
-    this.pendingQueries.delete(queryId);
     this.metrics.saves++;
     
     this.logger.debug('Response cached', {
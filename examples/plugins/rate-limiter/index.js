@@ -2,9 +2,22 @@
  * Rate Limiter Plugin
  * 
  * Prevents hitting API rate limits by throttling requests.
- * Supports multiple time windows and queuing of excess requests.
+ * Supports multiple time windows. SDK queries (`createWrappedSDK`) over the
+ * limit are rejected in beforeQuery, before they reach Claude. Interceptors
+ * don't run for CLI sessions: the prompt goes straight to Claude, so CLI
+ * queries are counted from their `query` events and reported with a
+ * `rate-limited` event, but can't be stopped. With `bridgeSocket` set,
+ * queries from other sessions relayed by `claudeware daemon` count towards
+ * the same limits.
+ *
+ * Excess queries are not queued: a held query would have to wait inside
+ * beforeQuery, past the plugin timeout.
  */
 
+const net = require('net');
+const os = require('os');
+const readline = require('readline');
+
 class RateLimiterPlugin {
   constructor() {
     this.name = 'rate-limiter';
@@ -20,19 +33,18 @@ class RateLimiterPlugin {
     
     // Configuration
     this.strategy = 'sliding';
-    this.queueEnabled = true;
-    this.queueSize = 50;
     this.burstSize = 5;
     
     // State
-    this.queue = [];
-    this.processing = false;
     this.metrics = {
       allowed: 0,
       blocked: 0,
-      queued: 0,
-      dropped: 0
+      // CLI queries over the limit, which can only be reported
+      exceeded: 0,
+      remote: 0
     };
+    this.localSessions = new Set();
+    this.bridge = null;
   }
 
   async initialize(context) {
@@ -46,8 +58,6 @@ class RateLimiterPlugin {
     this.windows.day.limit = limits.perDay || this.windows.day.limit;
     
     this.strategy = context.config.strategy || this.strategy;
-    this.queueEnabled = context.config.queueEnabled !== false;
-    this.queueSize = context.config.queueSize || this.queueSize;
     this.burstSize = context.config.burstSize || this.burstSize;
     
     this.logger.info('Rate limiter initialized', {
@@ -56,40 +66,65 @@ class RateLimiterPlugin {
         perHour: this.windows.hour.limit,
         perDay: this.windows.day.limit
       },
-      strategy: this.strategy,
-      queueEnabled: this.queueEnabled
+      strategy: this.strategy
     });
     
-    // Set up queue processor
-    if (this.queueEnabled) {
-      this.startQueueProcessor();
-    }
-    
     // Share initial status
     this.updateSharedState(context);
+    
+    if (context.config.bridgeSocket) {
+      await this.connectBridge(context.config.bridgeSocket, context);
+    }
   }
 
   async onEvent(event, context) {
-    try {
-      if (event.type === 'query') {
-        await this.handleQuery(event, context);
-      }
-    } catch (error) {
-      this.logger.error({ error: error.message }, 'Error processing event');
+    // Remember our sessions so their events are not counted again when the
+    // bridge relays them
+    if (event.metadata && event.metadata.sessionId) {
+      this.localSessions.add(event.metadata.sessionId);
+    }
+    
+    // SDK queries were counted in beforeQuery
+    if (event.type === 'query' && event.metadata.source !== 'sdk') {
+      this.trackCliQuery(event, context);
     }
   }
 
-  async handleQuery(event, context) {
+  trackCliQuery(event, context) {
     const now = Date.now();
+    this.cleanWindows(now);
+    
+    if (this.isRequestAllowed(now)) {
+      this.metrics.allowed++;
+    } else {
+      const retryAfter = this.getRetryAfter();
+      this.metrics.exceeded++;
+      
+      this.logger.warn('CLI query over the rate limit', {
+        windows: this.getWindowStatus(),
+        retryAfter
+      });
+      
+      context.eventBus.emit('rate-limited', {
+        queryId: event.id,
+        retryAfter,
+        enforced: false
+      });
+    }
+    
+    this.trackRequest(now);
+    this.updateSharedState(context);
+  }
+
+  async beforeQuery(request, context) {
+    const now = Date.now();
+    this.localSessions.add(request.sessionId);
     
     // Clean old requests from windows
     this.cleanWindows(now);
     
-    // Check if request is allowed
-    const allowed = this.isRequestAllowed(now);
-    
-    if (allowed) {
-      // Track the request
+    if (this.isRequestAllowed(now)) {
+      // Track the request and let it through
       this.trackRequest(now);
       this.metrics.allowed++;
       
@@ -97,73 +132,31 @@ class RateLimiterPlugin {
         windows: this.getWindowStatus()
       });
       
-      // Let it through
-      this.updateSharedState(context);
-      
-    } else {
-      // Rate limited
-      this.metrics.blocked++;
-      
-      if (this.queueEnabled && this.queue.length < this.queueSize) {
-        // Queue the request
-        this.queue.push({
-          event,
-          timestamp: now,
-          context
-        });
-        this.metrics.queued++;
-        
-        this.logger.info('Request queued', {
-          queueSize: this.queue.length,
-          windows: this.getWindowStatus()
-        });
-        
-        // Emit rate limit event
-        context.eventBus.emit('rate-limited', {
-          queryId: event.id,
-          queued: true,
-          queuePosition: this.queue.length,
-          retryAfter: this.getRetryAfter()
-        });
-        
-      } else {
-        // Drop the request
-        this.metrics.dropped++;
-        
-        this.logger.warn('Request dropped - rate limit exceeded', {
-          queueFull: this.queueEnabled,
-          windows: this.getWindowStatus()
-        });
-        
-        // Emit rate limit event
-        context.eventBus.emit('rate-limited', {
-          queryId: event.id,
-          queued: false,
-          dropped: true,
-          retryAfter: this.getRetryAfter()
-        });
-        
-        // Emit error response
-        const errorEvent = {
-          id: event.id + '-error',
-          type: 'error',
-          timestamp: now,
-          data: {
-            error: 'Rate limit exceeded',
-            message: 'Too many requests. Please try again later.',
-            retryAfter: this.getRetryAfter()
-          },
-          metadata: {
-            ...event.metadata,
-            rateLimited: true
-          }
-        };
-        
-        context.eventBus.emit('error', errorEvent);
-      }
-      
       this.updateSharedState(context);
+      return;
     }
+    
+    // Rate limited
+    const retryAfter = this.getRetryAfter();
+    this.metrics.blocked++;
+    
+    this.logger.warn('Request rejected - rate limit exceeded', {
+      windows: this.getWindowStatus(),
+      retryAfter
+    });
+    
+    context.eventBus.emit('rate-limited', {
+      queryId: request.queryId,
+      retryAfter,
+      enforced: true
+    });
+    
+    this.updateSharedState(context);
+    
+    return {
+      action: 'reject',
+      reason: `Rate limit exceeded, retry in ${Math.ceil(retryAfter / 1000)}s`
+    };
   }
 
   isRequestAllowed(now) {
@@ -240,62 +233,30 @@ class RateLimiterPlugin {
     return earliestRetry === Infinity ? 0 : Math.max(0, earliestRetry - now);
   }
 
-  startQueueProcessor() {
-    // Process queue every second
-    this.queueTimer = setInterval(() => {
-      this.processQueue();
-    }, 1000);
-  }
-
-  async processQueue() {
-    if (this.processing || this.queue.length === 0) return;
-    
-    this.processing = true;
-    const now = Date.now();
+  async connectBridge(socketPath, context) {
+    socketPath = socketPath.replace(/^~/, os.homedir());
     
-    try {
-      // Clean windows
-      this.cleanWindows(now);
-      
-      // Process as many queued requests as allowed
-      const toProcess = [];
-      
-      while (this.queue.length > 0 && this.isRequestAllowed(now)) {
-        const item = this.queue.shift();
-        
-        // Skip if too old (> 5 minutes)
-        if (now - item.timestamp > 300000) {
-          this.logger.debug('Dropped stale queued request');
-          continue;
-        }
-        
-        toProcess.push(item);
-        this.trackRequest(now);
+    const onEvent = (event) => {
+      if (this.localSessions.has(event.metadata && event.metadata.sessionId)) {
+        return;
       }
       
-      // Re-emit the events
-      for (const item of toProcess) {
-        this.logger.debug('Processing queued request', {
-          age: now - item.timestamp,
-          queueRemaining: this.queue.length
-        });
-        
-        // Update event timestamp
-        item.event.timestamp = now;
-        item.event.metadata.queued = true;
-        item.event.metadata.queuedMs = now - item.timestamp;
-        
-        // Re-emit
-        item.context.eventBus.emit(item.event.type, item.event);
-        this.metrics.allowed++;
-      }
-      
-      if (toProcess.length > 0) {
-        this.updateSharedState(toProcess[0].context);
-      }
-      
-    } finally {
-      this.processing = false;
+      // Another session's query uses up the same quota
+      this.cleanWindows(Date.now());
+      this.trackRequest(event.timestamp);
+      this.metrics.remote++;
+      this.updateSharedState(context);
+    };
+    const onError = (error) => {
+      this.logger.warn('Event bridge error', { socketPath, error: error.message });
+    };
+    
+    try {
+      this.bridge = await subscribeToBridge(socketPath, ['query'], onEvent, onError);
+      this.logger.info('Sharing rate limits through event bridge', { socketPath });
+    } catch (error) {
+      // Without a daemon, limits apply to this session only
+      this.logger.warn('Event bridge unavailable', { socketPath, error: error.message });
     }
   }
 
@@ -303,7 +264,6 @@ class RateLimiterPlugin {
     const status = this.getWindowStatus();
     
     context.sharedState.set('rate-limiter:status', status);
-    context.sharedState.set('rate-limiter:queue', this.queue.length);
     context.sharedState.set('rate-limiter:metrics', { ...this.metrics });
     
     // Calculate most restrictive limit
@@ -316,32 +276,20 @@ class RateLimiterPlugin {
   }
 
   async shutdown() {
-    // Stop queue processor
-    if (this.queueTimer) {
-      clearInterval(this.queueTimer);
+    if (this.bridge) {
+      this.bridge.destroy();
     }
     
     // Log final metrics
     this.logger.info('Rate limiter shutting down', {
-      metrics: this.metrics,
-      queuedRequests: this.queue.length
+      metrics: this.metrics
     });
-    
-    // Process remaining queue items as dropped
-    if (this.queue.length > 0) {
-      this.logger.warn(`Dropping ${this.queue.length} queued requests on shutdown`);
-    }
   }
 
   // Public API for other plugins
   getRateLimitStatus() {
     return {
       windows: this.getWindowStatus(),
-      queue: {
-        size: this.queue.length,
-        maxSize: this.queueSize,
-        enabled: this.queueEnabled
-      },
       metrics: { ...this.metrics },
       retryAfter: this.getRetryAfter()
     };
@@ -352,15 +300,46 @@ class RateLimiterPlugin {
     Object.values(this.windows).forEach(window => {
       window.requests = [];
     });
-    this.queue = [];
     this.metrics = {
       allowed: 0,
       blocked: 0,
-      queued: 0,
-      dropped: 0
+      exceeded: 0,
+      remote: 0
     };
     this.logger.info('Rate limiter reset');
   }
 }
 
+/**
+ * Subscribe to `claudeware daemon`. The bridge protocol is NDJSON: one
+ * subscribe line out, then one event per line back. Plugins load from their
+ * own directory and can't require claudeware, so this speaks it directly.
+ */
+function subscribeToBridge(socketPath, topics, onEvent, onError) {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(socketPath);
+    
+    socket.once('error', reject);
+    socket.once('connect', () => {
+      socket.off('error', reject);
+      socket.on('error', onError);
+      // The bridge never keeps the session alive
+      socket.unref();
+      
+      readline.createInterface({ input: socket, crlfDelay: Infinity }).on('line', (line) => {
+        let event;
+        try {
+          event = JSON.parse(line);
+        } catch (error) {
+          return;
+        }
+        onEvent(event);
+      });
+      
+      socket.write(JSON.stringify({ op: 'subscribe', topics }) + '\n');
+      resolve(socket);
+    });
+  });
+}
+
 module.exports = RateLimiterPlugin;
\ No newline at end of file
@@ -48,7 +48,8 @@ class TokenMonitorPlugin {
 
   async onEvent(event, context) {
     try {
-      if (event.type === 'response' && event.data.usage) {
+      // Intermediate responses are repeated in the final result's totals
+      if (event.type === 'response' && event.data.usage && !event.metadata.intermediate) {
         await this.trackTokenUsage(event, context);
       }
     } catch (error) {
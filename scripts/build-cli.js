@@ -3,8 +3,9 @@
 const fs = require('fs');
 const path = require('path');
 
-// Copy JavaScript files that aren't compiled by TypeScript
-const filesToCopy = ['wrapper.js', 'sdk.js', 'index.js'];
+// Copy JavaScript files that aren't compiled by TypeScript. dist/index.js
+// comes from src/index.ts and must not be overwritten.
+const filesToCopy = ['sdk.js', 'plugins/plugin-worker.js'];
 filesToCopy.forEach(file => {
   const srcPath = path.join(__dirname, '../src', file);
   const distPath = path.join(__dirname, '../dist', file);
@@ -1,7 +1,7 @@
 import { query as sdkQuery, ClaudeCodeOptions, Message, TextBlock } from '@instantlyeasy/claude-code-sdk-ts';
 import { EventBus, EventMetrics } from '../plugins/event-bus';
 import { PluginLoader, PluginMetrics } from '../plugins/plugin-loader';
-import { PluginContext, QueryEvent, DataStore, QueryRecord, ResponseRecord } from '../types';
+import { PluginContext, QueryEvent, TypedQueryEvent, ResponsePayload, DataStore, QueryRecord, ResponseRecord } from '../types';
 import { SqliteAdapter } from '../database/sqlite-adapter';
 import { BatchQueue, BatchMetrics } from '../database/batch-queue';
 import pino from 'pino';
@@ -24,6 +24,9 @@ export class SDKWrapperAdapter {
     pluginDirectory?: string;
     databasePath?: string;
     enabledPlugins?: string[];
+    disabledPlugins?: string[];
+    // Plugin packages to load besides those in pluginDirectory
+    packages?: string[];
     logLevel?: 'debug' | 'info' | 'warn' | 'error';
   } = {}) {
     this.sessionId = uuidv4();
@@ -67,24 +70,10 @@ export class SDKWrapperAdapter {
     // Initialize plugin loader
     this.pluginLoader = new PluginLoader(pluginContext);
 
-    // Load plugins
+    // Start plugins in dependency order
     if (this.config.pluginDirectory) {
-      const plugins = await this.pluginLoader.loadPlugins(this.config.pluginDirectory);
-
-      // Filter enabled plugins if specified
-      const enabledPlugins = this.config.enabledPlugins
-        ? plugins.filter(p => this.config.enabledPlugins!.includes(p.name))
-        : plugins;
-
-      // Initialize each plugin
-      for (const plugin of enabledPlugins) {
-        try {
-          await this.pluginLoader.initializePlugin(plugin);
-          this.logger.info({ plugin: plugin.name }, 'Plugin initialized');
-        } catch (error) {
-          this.logger.error({ plugin: plugin.name, error }, 'Failed to initialize plugin');
-        }
-      }
+      const { started } = await this.pluginLoader.startPlugins(this.config.pluginDirectory, this.config);
+      this.logger.info({ plugins: started.map(p => p.name) }, `Started ${started.length} plugins`);
     }
 
     this.initialized = true;
@@ -106,15 +95,25 @@ export class SDKWrapperAdapter {
     const startTime = Date.now();
 
     try {
+      // Let interceptors rewrite, answer or reject the query first
+      const interception = await this.pluginLoader.runBeforeQuery({
+        queryId,
+        sessionId: this.sessionId,
+        prompt,
+        options: { ...options }
+      });
+      const request = interception.request;
+      const queryOptions = request.options as ClaudeCodeOptions;
+
       // Emit pre-query event
-      const queryEvent: QueryEvent = {
+      const queryEvent: TypedQueryEvent<'query'> = {
         id: queryId,
         type: 'query',
         timestamp: startTime,
         data: {
-          messages: [{ role: 'user', content: prompt }],
-          model: options?.model || 'opus',
-          options
+          messages: [{ role: 'user', content: request.prompt }],
+          model: queryOptions.model || 'opus',
+          options: queryOptions
         },
         metadata: {
           correlationId,
@@ -126,11 +125,39 @@ export class SDKWrapperAdapter {
 
       await this.pluginLoader.executePlugins(queryEvent);
 
-      // Execute original SDK query
+      if (interception.response) {
+        // Claude is not called; the interceptor's response stands in for it
+        for (const message of this.toMessages(interception.response)) {
+          yield message;
+        }
+
+        const interceptedEvent: TypedQueryEvent<'response'> = {
+          id: uuidv4(),
+          type: 'response',
+          timestamp: Date.now(),
+          data: {
+            ...interception.response,
+            queryId,
+            latencyMs: Date.now() - startTime
+          },
+          metadata: {
+            correlationId,
+            sessionId: this.sessionId,
+            timestamp: Date.now(),
+            source: 'sdk',
+            respondedBy: interception.respondedBy
+          }
+        };
+
+        await this.pluginLoader.executePlugins(interceptedEvent);
+        return;
+      }
+
+      // Execute the SDK query with the intercepted prompt and options
       let responseText = '';
       let tokenUsage: { input_tokens?: number; output_tokens?: number; cache_creation_input_tokens?: number; cache_read_input_tokens?: number; } | undefined;
 
-      for await (const message of sdkQuery(prompt, options)) {
+      for await (const message of sdkQuery(request.prompt, queryOptions)) {
         // Collect response content
         if (message.type === 'assistant') {
           const textContent = message.content
@@ -159,7 +186,9 @@ export class SDKWrapperAdapter {
             correlationId,
             sessionId: this.sessionId,
             timestamp: Date.now(),
-            source: 'sdk'
+            source: 'sdk',
+            // The completion event carries the query's totals
+            intermediate: true
           }
         };
 
@@ -169,17 +198,23 @@ export class SDKWrapperAdapter {
         yield message;
       }
 
+      // Messages are already yielded, so afterResponse changes reach the
+      // completion event only
+      const response = await this.pluginLoader.runAfterResponse(interception, {
+        id: uuidv4(),
+        model: queryOptions.model || 'opus',
+        usage: tokenUsage,
+        content: [{ type: 'text', text: responseText }],
+        stop_reason: 'end_turn'
+      });
+
       // Emit completion event with full context
-      const completionEvent: QueryEvent = {
+      const completionEvent: TypedQueryEvent<'response'> = {
         id: uuidv4(),
         type: 'response',
         timestamp: Date.now(),
         data: {
-          id: uuidv4(),
-          model: options?.model || 'opus',
-          usage: tokenUsage,
-          content: [{ type: 'text', text: responseText }],
-          stop_reason: 'end_turn',
+          ...response,
           queryId,
           latencyMs: Date.now() - startTime
         },
@@ -195,7 +230,7 @@ export class SDKWrapperAdapter {
 
     } catch (error) {
       // Emit error event
-      const errorEvent: QueryEvent = {
+      const errorEvent: TypedQueryEvent<'error'> = {
         id: uuidv4(),
         type: 'error',
         timestamp: Date.now(),
@@ -219,6 +254,23 @@ export class SDKWrapperAdapter {
     }
   }
 
+  /**
+   * Turn an interceptor's response into the messages the SDK would yield
+   */
+  private toMessages(response: ResponsePayload): Message[] {
+    const content = response.content || [];
+    const text = content
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('\n');
+
+    // The SDK's message types are not constructible from outside, hence the casts
+    return [
+      { type: 'assistant', content } as unknown as Message,
+      { type: 'result', content: text, usage: response.usage } as unknown as Message
+    ];
+  }
+
   /**
    * Create a wrapped version of the SDK query function
    */
@@ -7,11 +7,13 @@
  * Intercepts Claude Code execution with zero-latency passthrough.
  */
 
-/* eslint-disable @typescript-eslint/no-var-requires */
 /* eslint-disable no-console */
-const { ClaudeWrapper } = require('./wrapper');
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
+import { ClaudeWrapper, ExitStatus } from './wrapper';
+import { EventBridgeDaemon } from './plugins/event-bridge';
+import { parsePluginConfigOverride } from './plugins/plugin-config';
 import { WrapperConfig } from './types/config';
 
 async function main(): Promise<void> {
@@ -31,31 +33,38 @@ async function main(): Promise<void> {
       process.exit(0);
     }
 
+    if (args[0] === 'replay') {
+      await replay(args.slice(1));
+      return;
+    }
+
+    if (args[0] === 'daemon') {
+      await daemon(args.slice(1));
+      return;
+    }
+
     // Load configuration
     const config = loadConfig(args);
 
     // Create wrapper instance
     const wrapper = new ClaudeWrapper(config);
 
-    // Handle shutdown gracefully
-    process.on('SIGINT', async () => {
-      await wrapper.shutdown();
-      process.exit(0);
-    });
-
-    process.on('SIGTERM', async () => {
-      await wrapper.shutdown();
-      process.exit(0);
-    });
-
-    // Start the wrapper
+    // Start the wrapper. SIGINT/SIGTERM are forwarded to Claude, so the
+    // session ends when Claude does.
     await wrapper.start(
-      args.filter(arg => !arg.startsWith('--')),
+      getClaudeArgs(args),
       process.stdin,
       process.stdout,
       process.stderr
     );
 
+    const status = await wrapper.waitForExit();
+    if (status.error) {
+      console.error('Error:', `Failed to start Claude: ${status.error.message}`);
+    }
+
+    exitWithStatus(status);
+
   } catch (error) {
     console.error('Error:', (error as Error).message);
     if (process.env.CLAUDE_WRAPPER_LOG_LEVEL === 'debug') {
@@ -65,6 +74,79 @@ async function main(): Promise<void> {
   }
 }
 
+/**
+ * `claudeware replay <file>`: run a recorded session through the parser,
+ * event bus and plugins without spawning Claude
+ */
+async function replay(args: string[]): Promise<void> {
+  const [recordingPath] = getClaudeArgs(args).filter(arg => arg !== '--realtime');
+  if (!recordingPath) {
+    console.error('Usage: claudeware replay <file> [--realtime] [options]');
+    process.exit(2);
+  }
+
+  const wrapper = new ClaudeWrapper(loadConfig(args));
+  const startTime = Date.now();
+
+  await wrapper.replay(path.resolve(recordingPath), process.stdout, process.stderr, {
+    realtime: args.includes('--realtime')
+  });
+
+  console.error(`Replayed ${recordingPath} in ${Date.now() - startTime}ms`);
+  process.stdout.write('', () => process.exit(0));
+}
+
+/**
+ * `claudeware daemon`: fan out events between wrapped sessions started
+ * with --bridge until interrupted
+ */
+async function daemon(args: string[]): Promise<void> {
+  const socketIndex = args.indexOf('--socket');
+  const socketArg = socketIndex >= 0 ? args[socketIndex + 1] : DEFAULT_BRIDGE_SOCKET;
+  if (!socketArg || socketArg.startsWith('-')) {
+    console.error('Usage: claudeware daemon [--socket <path>]');
+    process.exit(2);
+  }
+  const socketPath = expandPath(socketArg);
+
+  fs.mkdirSync(path.dirname(socketPath), { recursive: true });
+  const bridge = new EventBridgeDaemon(socketPath);
+  await bridge.listen();
+  console.error(`Event bridge listening on ${socketPath}`);
+
+  const stop = async () => {
+    await bridge.close();
+    const stats = bridge.getStats();
+    console.error(`Event bridge stopped: ${stats.eventsReceived} events received, ${stats.eventsDelivered} delivered, ${stats.eventsDropped} dropped`);
+    process.exit(0);
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+}
+
+/**
+ * Exit the way Claude did: same exit code, or the same terminating signal
+ */
+function exitWithStatus(status: ExitStatus): void {
+  if (status.signal) {
+    const signal = status.signal;
+
+    // Drop handlers so the default action applies, then re-raise
+    process.removeAllListeners(signal);
+    process.kill(process.pid, signal);
+
+    // Node ignores some signals (e.g., SIGPIPE); fall back to the shell's
+    // 128 + signal number convention
+    setTimeout(() => process.exit(128 + (os.constants.signals[signal] ?? 0)), 100).unref();
+    return;
+  }
+
+  const code = status.code ?? 1;
+
+  // Let piped stdout drain before exiting
+  process.stdout.write('', () => process.exit(code));
+}
+
 function loadConfig(args: string[]): WrapperConfig {
   // Default configuration
   const config: WrapperConfig = {
@@ -72,15 +154,18 @@ function loadConfig(args: string[]): WrapperConfig {
     claudePath: process.env.CLAUDE_PATH || 'claude',
     wrapper: {
       timeout: 300000, // 5 minutes
+      idleTimeout: 0, // disabled
       bufferSize: 65536,
-      gracefulShutdownTimeout: 5000
+      gracefulShutdownTimeout: 5000,
+      pty: process.env.CLAUDE_WRAPPER_PTY === '1' || process.env.CLAUDE_WRAPPER_PTY === 'true'
     },
     plugins: {
       directory: process.env.CLAUDE_WRAPPER_PLUGINS_DIR || expandPath('~/.claude-code/plugins'),
       timeout: 5000,
       retryAttempts: 3,
       enabledPlugins: [],
-      disabledPlugins: []
+      disabledPlugins: [],
+      watch: process.env.CLAUDE_WRAPPER_WATCH_PLUGINS === '1' || process.env.CLAUDE_WRAPPER_WATCH_PLUGINS === 'true'
     },
     database: {
       type: 'sqlite' as const,
@@ -123,9 +208,44 @@ function loadConfig(args: string[]): WrapperConfig {
       case '--disable-plugins':
         config.plugins.disabledPlugins = args[++i].split(',');
         break;
+      case '--watch-plugins':
+        config.plugins.watch = true;
+        break;
       case '--log-level':
         config.monitoring.logLevel = args[++i] as 'debug' | 'info' | 'warn' | 'error';
         break;
+      case '--timeout':
+        config.wrapper.timeout = parseInt(args[++i], 10);
+        break;
+      case '--idle-timeout':
+        config.wrapper.idleTimeout = parseInt(args[++i], 10);
+        break;
+      case '--stream-format':
+        config.wrapper.streamFormat = args[++i] as 'json' | 'sse';
+        break;
+      case '--pty':
+        config.wrapper.pty = true;
+        break;
+      case '--record':
+        config.monitoring.recordPath = args[++i];
+        break;
+      case '--quarantine':
+        config.monitoring.quarantinePath = expandPath('~/.claude-code/quarantine.ndjson');
+        break;
+      case '--event-log':
+        config.database.eventLog = { ...config.database.eventLog, enabled: true };
+        break;
+      case '--trace':
+        config.monitoring.traceExport = args[++i];
+        break;
+      case '--bridge':
+        config.monitoring.bridgeSocket = expandPath(DEFAULT_BRIDGE_SOCKET);
+        break;
+      case '--plugin-config':
+        // Fail on a malformed override before anything starts
+        parsePluginConfigOverride(args[i + 1]);
+        config.plugins.overrides = [...(config.plugins.overrides ?? []), args[++i]];
+        break;
     }
   }
 
@@ -134,6 +254,7 @@ function loadConfig(args: string[]): WrapperConfig {
   if (fs.existsSync(configPath)) {
     try {
       const fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      collectPluginSettings(fileConfig);
       mergeConfig(config, fileConfig);
     } catch (error) {
       console.warn('Warning: Failed to load config file:', (error as Error).message);
@@ -150,6 +271,83 @@ function loadConfig(args: string[]): WrapperConfig {
   return config;
 }
 
+// Socket shared by `claudeware daemon` and --bridge
+const DEFAULT_BRIDGE_SOCKET = '~/.claude-code/events.sock';
+
+// Claudeware options that consume the following argument
+const WRAPPER_OPTIONS = new Set([
+  '--mode',
+  '--claude-path',
+  '--db-path',
+  '--plugins-dir',
+  '--enable-plugins',
+  '--disable-plugins',
+  '--log-level',
+  '--timeout',
+  '--idle-timeout',
+  '--stream-format',
+  '--record',
+  '--trace',
+  '--plugin-config'
+]);
+
+// Claudeware flags without a value
+const WRAPPER_FLAGS = new Set(['--pty', '--quarantine', '--event-log', '--bridge', '--watch-plugins']);
+
+/**
+ * Strip claudeware's own options; everything else is passed to Claude
+ */
+function getClaudeArgs(args: string[]): string[] {
+  const claudeArgs: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (WRAPPER_OPTIONS.has(args[i])) {
+      i++;
+      continue;
+    }
+    if (WRAPPER_FLAGS.has(args[i])) {
+      continue;
+    }
+    claudeArgs.push(args[i]);
+  }
+
+  return claudeArgs;
+}
+
+// Keys of WrapperConfig.plugins; any other object under `plugins` in
+// config.json holds the settings of the plugin it is named after
+const PLUGIN_CONFIG_KEYS = new Set([
+  'directory',
+  'timeout',
+  'retryAttempts',
+  'enabledPlugins',
+  'disabledPlugins',
+  'packages',
+  'watch',
+  'queue',
+  'settings',
+  'overrides'
+]);
+
+/**
+ * Move config.json `plugins.<name>` sections into `plugins.settings`
+ */
+function collectPluginSettings(fileConfig: Record<string, unknown>): void {
+  const plugins = fileConfig.plugins;
+  if (!isRecord(plugins)) return;
+
+  for (const [name, value] of Object.entries(plugins)) {
+    if (!PLUGIN_CONFIG_KEYS.has(name) && isRecord(value)) {
+      plugins.settings = { ...(isRecord(plugins.settings) ? plugins.settings : {}), [name]: value };
+      delete plugins[name];
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 function mergeConfig(target: unknown, source: unknown): void {
   if (typeof target !== 'object' || typeof source !== 'object' || target === null || source === null) {
     return;
@@ -181,6 +379,8 @@ function showHelp(): void {
 Claudeware - Query collection and analysis for Claude Code
 
 Usage: claudeware [options] [claude-args...]
+       claudeware replay <file> [--realtime] [options]
+       claudeware daemon [--socket <path>]
 
 Options:
   --help, -h              Show this help message
@@ -191,7 +391,27 @@ Options:
   --plugins-dir <path>   Plugins directory path
   --enable-plugins <list> Comma-separated list of plugins to enable
   --disable-plugins <list> Comma-separated list of plugins to disable
+  --watch-plugins        Reload plugins when their files change
   --log-level <level>    Log level (debug, info, warn, error)
+  --timeout <ms>         Stop Claude after this long (0 disables, default 300000)
+  --idle-timeout <ms>    Stop Claude after this long without output (0 disables)
+  --stream-format <fmt>  Output format to parse: json (default) or sse
+  --pty                  Run Claude in a pseudo-terminal (interactive sessions)
+  --quarantine           Save unparseable output to ~/.claude-code/quarantine.ndjson
+  --record <file>        Record Claude's output and input for replay
+  --event-log            Keep every event in the database for replay across sessions
+  --bridge               Share events with other sessions through claudeware daemon
+  --trace <file|url>     Export OTLP JSON spans to a file or an OTLP/HTTP collector
+  --plugin-config <plugin.key=value>
+                         Set a plugin setting (repeatable)
+
+Replay:
+  replay <file>          Feed a recording through the parser and plugins
+  --realtime             Keep the recorded timing between chunks
+
+Daemon:
+  daemon                 Relay events between sessions started with --bridge
+  --socket <path>        Socket to listen on (default ~/.claude-code/events.sock)
 
 Environment Variables:
   CLAUDE_PATH                   Path to Claude executable
@@ -199,6 +419,11 @@ Environment Variables:
   CLAUDE_WRAPPER_DB_PATH        Database file path
   CLAUDE_WRAPPER_LOG_LEVEL      Log level
   CLAUDE_WRAPPER_TEST_MODE      Enable test mode
+  CLAUDE_WRAPPER_PTY            Run Claude in a pseudo-terminal (1 or true)
+  CLAUDE_WRAPPER_WATCH_PLUGINS  Reload plugins when their files change (1 or true)
+  CLAUDE_WRAPPER_PLUGIN_<NAME>_<KEY>
+                                Set a plugin setting, e.g.
+                                CLAUDE_WRAPPER_PLUGIN_RATE_LIMITER_BURST_SIZE=10
 
 Examples:
   # Basic usage
@@ -207,12 +432,23 @@ Examples:
   # Enable specific plugins
   claudeware --enable-plugins query-collector,cache "Explain recursion"
   
+  # Configure a plugin for one run
+  claudeware --plugin-config rate-limiter.strategy=fixed "Explain recursion"
+
   # Custom database location
   claudeware --db-path ./my-queries.db "Create a Python function"
   
   # Debug mode
   CLAUDE_WRAPPER_LOG_LEVEL=debug claudeware "Debug this code"
 
+  # Record a session, then replay it against your plugins
+  claudeware --record session.ndjson -p "Explain recursion"
+  claudeware replay session.ndjson --db-path :memory:
+
+  # Share rate limits and analytics across terminals
+  claudeware daemon &
+  claudeware --bridge "Explain recursion"
+
 Documentation: https://github.com/instantlyeasy/claudeware
 `);
 }
@@ -0,0 +1,355 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  QueryEvent,
+  QueryEventMap,
+  QueryEventType,
+  TypedQueryEvent,
+  ContentBlock,
+  EventMetadata,
+  TokenUsage
+} from '../types/events';
+import { MessageAccumulator, MessageDelta, StreamEvent } from './message-accumulator';
+
+/**
+ * Options for the stream event normalizer
+ */
+export interface NormalizerOptions {
+  sessionId: string;
+  source?: string;
+  // Emit a `response.delta` event for every content_block_delta
+  emitDeltas?: boolean;
+}
+
+/**
+ * Identifiers shared by every event belonging to one query
+ */
+export interface QueryContext {
+  queryId: string;
+  correlationId: string;
+  startTime: number;
+}
+
+/**
+ * An assistant message, from stream-json or the Messages API
+ */
+interface AssistantMessage {
+  id?: string;
+  model?: string;
+  role?: string;
+  content?: unknown;
+  usage?: TokenUsage;
+  stop_reason?: string | null;
+}
+
+/**
+ * The fields of a stream-json message the normalizer reads; which are set
+ * depends on `type`
+ */
+interface StreamJsonMessage extends AssistantMessage {
+  type?: string;
+  subtype?: string;
+  session_id?: string;
+  // assistant and user messages wrap the message itself
+  message?: AssistantMessage;
+  // result
+  is_error?: boolean;
+  result?: string;
+  duration_ms?: number;
+  total_cost_usd?: number;
+  num_turns?: number;
+  // error
+  error?: { type?: string; message?: string };
+  // stream_event
+  event?: unknown;
+}
+
+/**
+ * StreamEventNormalizer turns Claude Code `--output-format stream-json`
+ * messages into typed QueryEvents
+ *
+ * Mapping:
+ * - system/init      → no event; records Claude's session id and model
+ * - assistant        → `response` marked `intermediate`, plus one
+ *   `tool_use` per tool_use block; the `result` that follows is the one
+ *   to persist and count
+ * - user tool_result → `tool_use` with status `completed`
+ * - result           → final `response`, or `error` when is_error is set
+ * - error            → `error`
+ * - message_start … message_stop → one consolidated `response` (plus
+ *   `tool_use` per tool block), and `response.delta` per content delta when
+ *   emitDeltas is set
+ * - stream_event     → `response.delta` only; Claude Code follows partial
+ *   messages with the complete `assistant` message
+ *
+ * Raw Messages API objects (`type: "message"`) are accepted as assistant
+ * messages so older captures still normalize.
+ */
+export class StreamEventNormalizer {
+  private current?: QueryContext;
+  private model?: string;
+  private claudeSessionId?: string;
+  private toolNames: Map<string, string> = new Map();
+  private accumulator = new MessageAccumulator();
+  private partialAccumulator = new MessageAccumulator();
+  private readonly source: string;
+
+  constructor(private options: NormalizerOptions) {
+    this.source = options.source || 'cli';
+  }
+
+  /**
+   * Start a new query; subsequent events carry its queryId and correlationId
+   */
+  beginQuery(queryId: string = uuidv4(), correlationId: string = uuidv4()): QueryContext {
+    this.current = { queryId, correlationId, startTime: Date.now() };
+    return this.current;
+  }
+
+  /**
+   * Get the wrapper session id stamped on every event
+   */
+  getSessionId(): string {
+    return this.options.sessionId;
+  }
+
+  /**
+   * Get the query currently in flight, if any
+   */
+  getCurrentQuery(): QueryContext | undefined {
+    return this.current;
+  }
+
+  /**
+   * Build an event about the session rather than a stream message
+   * (e.g., `parse-error`). It joins the query in flight but never starts one.
+   */
+  createSessionEvent<K extends QueryEventType>(type: K, data: QueryEventMap[K]): TypedQueryEvent<K> {
+    if (this.current) {
+      return this.createEvent(type, this.current, data);
+    }
+
+    const context = { queryId: '', correlationId: uuidv4(), startTime: Date.now() };
+    return this.createEvent(type, context, data, { queryId: undefined });
+  }
+
+  /**
+   * Normalize one parsed stream message into zero or more QueryEvents
+   *
+   * @param message - Object produced by JsonStreamParser
+   * @returns Events in emission order (empty for unrecognized messages)
+   */
+  normalize(value: unknown): QueryEvent[] {
+    if (!value || typeof value !== 'object') {
+      return [];
+    }
+
+    const message = value as StreamJsonMessage;
+
+    switch (message.type) {
+      case 'system':
+        return this.handleSystem(message);
+      case 'assistant':
+        return message.message ? this.handleAssistant(message.message, true) : [];
+      case 'message':
+        return message.role === 'user' ? [] : this.handleAssistant(message, false);
+      case 'user':
+        return message.message ? this.handleUser(message.message) : [];
+      case 'result':
+        return this.handleResult(message);
+      case 'error':
+        return this.handleError(message);
+      case 'stream_event':
+        return this.handlePartialMessage(message.event);
+      default:
+        return MessageAccumulator.isStreamEvent(value) ? this.handleStreamEvent(value) : [];
+    }
+  }
+
+  /**
+   * Clear all per-session state
+   */
+  reset(): void {
+    this.current = undefined;
+    this.model = undefined;
+    this.claudeSessionId = undefined;
+    this.toolNames.clear();
+    this.accumulator.reset();
+    this.partialAccumulator.reset();
+  }
+
+  private handleSystem(message: StreamJsonMessage): QueryEvent[] {
+    if (message.subtype === 'init') {
+      this.claudeSessionId = message.session_id;
+      this.model = message.model;
+      this.ensureQuery();
+    }
+    return [];
+  }
+
+  /**
+   * @param intermediate - A stream-json `result` will follow with the
+   *   query's totals, so this response isn't persisted or counted
+   */
+  private handleAssistant(message: AssistantMessage, intermediate: boolean): QueryEvent[] {
+    const context = this.ensureQuery();
+    const content: ContentBlock[] = Array.isArray(message.content) ? message.content : [];
+    const model = message.model || this.model;
+
+    const events: QueryEvent[] = [
+      this.createEvent('response', context, {
+        id: message.id,
+        model,
+        content,
+        usage: message.usage,
+        stop_reason: message.stop_reason
+      }, {
+        messageType: 'assistant',
+        latencyMs: Date.now() - context.startTime,
+        ...(intermediate ? { intermediate } : {})
+      })
+    ];
+
+    for (const block of content) {
+      if (block.type !== 'tool_use' || !block.id) continue;
+
+      if (block.name) {
+        this.toolNames.set(block.id, block.name);
+      }
+      events.push(this.createEvent('tool_use', context, {
+        toolUseId: block.id,
+        name: block.name,
+        input: block.input,
+        status: 'started'
+      }));
+    }
+
+    return events;
+  }
+
+  private handleUser(message: AssistantMessage): QueryEvent[] {
+    if (!Array.isArray(message.content)) {
+      return [];
+    }
+
+    const context = this.ensureQuery();
+    const events: QueryEvent[] = [];
+
+    for (const block of message.content as ContentBlock[]) {
+      if (block.type !== 'tool_result' || !block.tool_use_id) continue;
+
+      events.push(this.createEvent('tool_use', context, {
+        toolUseId: block.tool_use_id,
+        name: this.toolNames.get(block.tool_use_id),
+        result: block.content,
+        isError: block.is_error === true,
+        status: 'completed'
+      }));
+      this.toolNames.delete(block.tool_use_id);
+    }
+
+    return events;
+  }
+
+  private handleResult(message: StreamJsonMessage): QueryEvent[] {
+    const context = this.ensureQuery();
+    const metadata = {
+      messageType: 'result',
+      final: true,
+      latencyMs: typeof message.duration_ms === 'number'
+        ? message.duration_ms
+        : Date.now() - context.startTime
+    };
+
+    const event = message.is_error
+      ? this.createEvent('error', context, {
+        error: {
+          type: message.subtype || 'error',
+          message: message.result || message.subtype || 'Claude reported an error'
+        }
+      }, metadata)
+      : this.createEvent('response', context, {
+        model: this.model,
+        content: [{ type: 'text', text: message.result || '' }],
+        usage: message.usage,
+        stop_reason: 'end_turn',
+        durationMs: message.duration_ms,
+        totalCostUsd: message.total_cost_usd,
+        numTurns: message.num_turns
+      }, metadata);
+
+    // The result closes the query; the next message starts a new one
+    this.current = undefined;
+    this.toolNames.clear();
+
+    return [event];
+  }
+
+  private handleStreamEvent(event: StreamEvent): QueryEvent[] {
+    const { delta, message } = this.accumulator.push(event);
+    const events = delta ? this.createDeltaEvents(delta) : [];
+
+    if (message) {
+      events.push(...this.handleAssistant(message, false));
+    }
+
+    return events;
+  }
+
+  private handlePartialMessage(event: unknown): QueryEvent[] {
+    if (!MessageAccumulator.isStreamEvent(event)) {
+      return [];
+    }
+
+    const { delta } = this.partialAccumulator.push(event);
+    return delta ? this.createDeltaEvents(delta) : [];
+  }
+
+  private createDeltaEvents(delta: MessageDelta): QueryEvent[] {
+    if (!this.options.emitDeltas) {
+      return [];
+    }
+
+    return [this.createEvent('response.delta', this.ensureQuery(), { ...delta })];
+  }
+
+  private handleError(message: StreamJsonMessage): QueryEvent[] {
+    const context = this.ensureQuery();
+    const error = message.error || {};
+
+    return [
+      this.createEvent('error', context, {
+        error: {
+          type: error.type || 'error',
+          message: error.message || 'Unknown error'
+        }
+      })
+    ];
+  }
+
+  private ensureQuery(): QueryContext {
+    return this.current || this.beginQuery();
+  }
+
+  private createEvent<K extends QueryEventType>(
+    type: K,
+    context: QueryContext,
+    data: QueryEventMap[K],
+    extraMetadata: Partial<EventMetadata> = {}
+  ): TypedQueryEvent<K> {
+    const timestamp = Date.now();
+    const metadata: EventMetadata = {
+      correlationId: context.correlationId,
+      sessionId: this.options.sessionId,
+      timestamp,
+      source: this.source,
+      queryId: context.queryId,
+      ...extraMetadata
+    };
+
+    if (this.claudeSessionId) {
+      metadata.claudeSessionId = this.claudeSessionId;
+    }
+
+    return { id: uuidv4(), type, timestamp, data, metadata };
+  }
+}
@@ -1,12 +1,114 @@
+import { StringDecoder } from 'string_decoder';
+import { StreamConfig } from '../types/stream';
+import { SseDecoder, SseEvent } from './sse-decoder';
+
+/**
+ * Counters for everything the parser consumed
+ */
+export interface ParserStats {
+  messagesParsed: number;
+  bytesDiscarded: number;
+  // Values larger than maxMessageSize, dropped whole
+  oversizedMessages: number;
+  // Balanced values that JSON.parse rejected
+  invalidMessages: number;
+  // Partial values dropped after parseTimeout without new data
+  timedOutFragments: number;
+  // Partial values left unfinished when the stream ended
+  truncatedFragments: number;
+  // Resyncs at a line boundary after an invalid or stale value
+  recoveryAttempts: number;
+}
+
+/**
+ * One problem found while parsing, located by byte offset in the stream
+ *
+ * - `dropped`: bytes thrown away; `reason` says why
+ * - `timeout`: the stale head of a partial value dropped after parseTimeout
+ * - `recovery`: scanning restarted at the next line inside a rejected
+ *   fragment; `recovered` counts the messages salvaged from it
+ */
+export interface ParseDiagnostic {
+  kind: 'dropped' | 'timeout' | 'recovery';
+  reason?: 'noise' | 'invalid' | 'oversized' | 'truncated';
+  // Byte offset of the fragment from the start of the stream
+  offset: number;
+  // Fragment size in bytes
+  length: number;
+  // Raw text, when it was kept (oversized values are not)
+  fragment?: string;
+  recovered?: number;
+}
+
+/**
+ * A Server-Sent Event with its data decoded as JSON
+ */
+export interface ParsedSseEvent extends SseEvent {
+  // Parsed `data`; undefined for `[DONE]` and non-JSON data
+  payload?: any;
+  // True for the `[DONE]` end-of-stream sentinel
+  done: boolean;
+}
+
 /**
  * JSON Stream Parser for handling partial and malformed JSON data
- * Provides robust parsing with recovery strategies for streaming data
+ *
+ * An incremental scanner tracks nesting depth and string/escape state across
+ * chunks, so each top-level object or array is found in a single pass and
+ * parsed exactly once. Text between values (log lines, `data: ` prefixes) is
+ * skipped.
+ *
+ * Nothing is truncated: a value larger than `maxMessageSize` is dropped
+ * whole, and every dropped byte is counted in `getStats()`. A value that
+ * fails to parse, or stops receiving data for `parseTimeout`, is dropped up
+ * to its first newline and scanning resumes from there, so one stray brace
+ * costs a line rather than the rest of the stream. A value still open when
+ * the stream ends is dropped the same way by `end()`. Each drop and
+ * recovery is reported by `takeDiagnostics()`.
+ *
+ * With `format: 'sse'` the input is read as Server-Sent Events instead: each
+ * complete event's `data` is parsed as one JSON message, and `parseEvents()`
+ * exposes the event name, id and retry alongside the payload.
  */
 export class JsonStreamParser {
+  static readonly DEFAULT_MAX_MESSAGE_SIZE = 16 * 1024 * 1024; // 16MB
+  static readonly DEFAULT_PARSE_TIMEOUT = 1000;
+  // Undrained diagnostics kept; older ones are dropped
+  static readonly MAX_PENDING_DIAGNOSTICS = 100;
+
   private buffer: string = '';
-  private readonly maxBufferSize: number = 65536; // 64KB
+  private bufferBytes = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private oversized = false;
+  // Stream byte offset consumed so far, and where the buffered value began
+  private offset = 0;
+  private valueOffset = 0;
+  private diagnostics: ParseDiagnostic[] = [];
   private lastChunkTime: number = Date.now();
-  private readonly timeoutMs: number = 1000;
+  private decoder = new StringDecoder('utf8');
+  private sse?: SseDecoder;
+  private readonly maxMessageSize: number;
+  private readonly timeoutMs: number;
+  private stats: ParserStats = {
+    messagesParsed: 0,
+    bytesDiscarded: 0,
+    oversizedMessages: 0,
+    invalidMessages: 0,
+    timedOutFragments: 0,
+    truncatedFragments: 0,
+    recoveryAttempts: 0
+  };
+
+  constructor(config: Partial<StreamConfig> = {}) {
+    this.maxMessageSize = config.maxMessageSize ?? JsonStreamParser.DEFAULT_MAX_MESSAGE_SIZE;
+    this.timeoutMs = config.parseTimeout ?? JsonStreamParser.DEFAULT_PARSE_TIMEOUT;
+
+    if (config.format === 'sse') {
+      this.sse = this.createSseDecoder();
+    }
+  }
 
   /**
    * Parse a chunk of data that may contain zero or more JSON objects
@@ -16,54 +118,106 @@ export class JsonStreamParser {
    * @returns Array of parsed JSON objects (empty if none found)
    */
   parse(chunk: Buffer | string): any[] {
+    if (this.sse) {
+      return this.parseEvents(chunk)
+        .filter(event => event.payload !== undefined)
+        .map(event => event.payload);
+    }
+
     const results: any[] = [];
 
     try {
-      // Convert Buffer to string if needed
-      const dataStr = typeof chunk === 'string'
-        ? chunk
-        : chunk.toString('utf8');
-
-      // Handle empty input
-      if (!dataStr || dataStr.trim().length === 0) {
+      // Buffers may end inside a multi-byte character
+      const text = typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+      if (!text) {
         return results;
       }
 
-      // Check for timeout on incomplete buffer
+      // Drop a partial value that stopped receiving data
       const now = Date.now();
-      const timeDiff = now - this.lastChunkTime;
-      if (this.buffer.length > 0 && timeDiff >= this.timeoutMs) {
-        this.buffer = '';
+      if (this.depth > 0 && now - this.lastChunkTime >= this.timeoutMs) {
+        this.expireValue(results);
       }
+      this.lastChunkTime = now;
+
+      this.consume(text, results);
+    } catch {
+      // Never throw - return what was parsed so far
+    }
+
+    return results;
+  }
+
+  /**
+   * Parse a chunk of a Server-Sent Events stream (requires `format: 'sse'`)
+   *
+   * Events whose data is neither JSON nor `[DONE]` are still returned, with
+   * no payload, and their bytes are counted as discarded.
+   *
+   * @returns Events completed by this chunk, in order
+   */
+  parseEvents(chunk: Buffer | string): ParsedSseEvent[] {
+    if (!this.sse) {
+      throw new Error('parseEvents requires the sse stream format');
+    }
 
-      // Combine with existing buffer
-      const combined = this.buffer + dataStr;
+    const text = typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+    // Events are located by the chunk that completed them
+    const chunkOffset = this.offset;
+    this.offset += Buffer.byteLength(text);
 
-      // Update timestamp when adding to buffer
-      if (dataStr.trim()) {
-        this.lastChunkTime = Date.now();
+    return this.sse.decode(text).map(event => {
+      if (event.data === '[DONE]') {
+        return { ...event, done: true };
       }
 
-      // Enforce max buffer size
-      if (combined.length > this.maxBufferSize) {
-        this.buffer = combined.slice(-this.maxBufferSize);
-      } else {
-        this.buffer = combined;
+      try {
+        const payload = JSON.parse(event.data);
+        this.stats.messagesParsed++;
+        return { ...event, payload, done: false };
+      } catch {
+        this.stats.invalidMessages++;
+        this.drop('invalid', chunkOffset, event.data);
+        return { ...event, done: false };
       }
+    });
+  }
 
-      // Try different parsing strategies
-      const parsed = this.tryParsing(this.buffer);
+  /**
+   * Flush the end of the stream
+   *
+   * A value still open is dropped as `truncated`, salvaging complete lines
+   * from it; with `format: 'sse'`, an unterminated last line is dropped.
+   * The parser is then ready for a new stream.
+   *
+   * @returns Messages salvaged from the leftover buffer
+   */
+  end(): unknown[] {
+    const results: unknown[] = [];
 
-      if (parsed.results.length > 0) {
-        results.push(...parsed.results);
-        this.buffer = parsed.remainder;
-      }
+    try {
+      const text = this.decoder.end();
 
-      return results;
-    } catch (error) {
-      // Never throw - return empty array on any error
-      return results;
+      if (this.sse) {
+        if (text) {
+          results.push(...this.parse(text));
+        }
+        const leftover = this.sse.getBuffer();
+        if (leftover.trim()) {
+          this.stats.truncatedFragments++;
+          this.drop('truncated', this.offset - Buffer.byteLength(leftover), leftover);
+        }
+        this.sse.reset();
+      } else {
+        this.consume(text, results);
+        this.truncateValue(results);
+      }
+    } catch {
+      // Never throw - return what was salvaged
     }
+
+    this.decoder = new StringDecoder('utf8');
+    return results;
   }
 
   /**
@@ -71,6 +225,16 @@ export class JsonStreamParser {
    */
   reset(): void {
     this.buffer = '';
+    this.bufferBytes = 0;
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    this.oversized = false;
+    this.offset = 0;
+    this.valueOffset = 0;
+    this.diagnostics = [];
+    this.decoder = new StringDecoder('utf8');
+    this.sse?.reset();
     this.lastChunkTime = Date.now();
   }
 
@@ -79,137 +243,265 @@ export class JsonStreamParser {
    * @returns Current buffer content
    */
   getBuffer(): string {
-    return this.buffer;
+    return this.sse ? this.sse.getBuffer() : this.buffer;
   }
 
   /**
-   * Try multiple parsing strategies on the buffer
-   * @param data - Data to parse
-   * @returns Parsed results and remaining buffer
+   * Get parse and discard counters since construction
    */
-  private tryParsing(data: string): { results: any[]; remainder: string } {
-    const results: any[] = [];
-    let remainder = data;
+  getStats(): ParserStats {
+    return { ...this.stats };
+  }
 
-    // Strategy 1: Try to parse the complete buffer as JSON
-    const completeResult = this.tryParseComplete(remainder);
-    if (completeResult.parsed) {
-      results.push(...completeResult.results);
-      remainder = completeResult.remainder;
-    } else {
-      // Strategy 2: Try line-by-line parsing
-      const lineResult = this.tryParseLines(remainder);
-      results.push(...lineResult.results);
-      remainder = lineResult.remainder;
-    }
+  /**
+   * Get the diagnostics recorded since the last call, and clear them
+   */
+  takeDiagnostics(): ParseDiagnostic[] {
+    const diagnostics = this.diagnostics;
+    this.diagnostics = [];
+    return diagnostics;
+  }
 
-    return { results, remainder };
+  private createSseDecoder(): SseDecoder {
+    return new SseDecoder({
+      maxEventSize: this.maxMessageSize,
+      onDiscard: (size) => {
+        this.stats.oversizedMessages++;
+        this.stats.bytesDiscarded += size;
+        this.diagnose({ kind: 'dropped', reason: 'oversized', offset: this.offset, length: size });
+      }
+    });
   }
 
   /**
-   * Try to parse the complete buffer as a single JSON object
-   * @param data - Data to parse
-   * @returns Parse result
+   * Scan text for top-level values, buffering any trailing partial value
    */
-  private tryParseComplete(data: string): {
-    parsed: boolean;
-    results: any[];
-    remainder: string
-  } {
-    try {
-      // Trim whitespace
-      const trimmed = data.trim();
-      if (!trimmed) {
-        return { parsed: false, results: [], remainder: data };
+  private consume(text: string, results: any[]): void {
+    let position = 0;
+    while (position < text.length) {
+      if (this.depth === 0) {
+        const start = this.findValueStart(text, position);
+        this.discardNoise(text.slice(position, start === -1 ? text.length : start));
+        if (start === -1) break;
+        position = start;
+        this.valueOffset = this.offset;
       }
 
-      // Try to parse as complete JSON
-      const parsed = JSON.parse(trimmed);
-      return { parsed: true, results: [parsed], remainder: '' };
-    } catch {
-      return { parsed: false, results: [], remainder: data };
+      const end = this.scan(text, position);
+      if (end === -1) {
+        this.append(text.slice(position));
+        break;
+      }
+
+      this.append(text.slice(position, end));
+      this.completeValue(results);
+      position = end;
+    }
+  }
+
+  private findValueStart(text: string, from: number): number {
+    for (let i = from; i < text.length; i++) {
+      const char = text[i];
+      if (char === '{' || char === '[') {
+        return i;
+      }
     }
+    return -1;
   }
 
   /**
-   * Try to parse line by line, handling partial lines
-   * @param data - Data to parse
-   * @returns Parse result
+   * Advance the depth/string state machine over text[from..]
+   *
+   * @returns Index just past the character closing the top-level value,
+   *          or -1 when the chunk ends inside it
    */
-  private tryParseLines(data: string): { results: any[]; remainder: string } {
-    const results: any[] = [];
-    const lines = data.split('\n');
+  private scan(text: string, from: number): number {
+    for (let i = from; i < text.length; i++) {
+      const char = text[i];
 
-    // Process all complete lines
-    for (let i = 0; i < lines.length - 1; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
 
-      // Try to parse the line
-      const parsed = this.tryParseLine(line);
-      if (parsed) {
-        results.push(parsed);
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (this.depth === 0) {
+          return i + 1;
+        }
       }
     }
 
-    // Last line might be incomplete - keep it in buffer
-    const lastLine = lines[lines.length - 1];
+    return -1;
+  }
 
-    // Try to parse the last line if it looks complete
-    if (lastLine.trim()) {
-      const parsed = this.tryParseLine(lastLine);
-      if (parsed) {
-        results.push(parsed);
-        return { results, remainder: '' };
-      }
+  private append(piece: string): void {
+    const bytes = Buffer.byteLength(piece);
+    this.offset += bytes;
+
+    if (this.oversized) {
+      this.stats.bytesDiscarded += bytes;
+      return;
     }
 
-    return { results, remainder: lastLine };
+    this.buffer += piece;
+    this.bufferBytes += bytes;
+
+    // Drop the value whole rather than keep a truncated tail; the scanner
+    // keeps tracking depth so the next value is still found
+    if (this.bufferBytes > this.maxMessageSize) {
+      this.stats.bytesDiscarded += this.bufferBytes;
+      this.stats.oversizedMessages++;
+      this.buffer = '';
+      this.bufferBytes = 0;
+      this.oversized = true;
+    }
+  }
+
+  private completeValue(results: any[]): void {
+    const candidate = this.buffer;
+    const wasOversized = this.oversized;
+    this.resetValue();
+
+    if (wasOversized) {
+      this.diagnose({
+        kind: 'dropped',
+        reason: 'oversized',
+        offset: this.valueOffset,
+        length: this.offset - this.valueOffset
+      });
+      return;
+    }
+
+    try {
+      results.push(JSON.parse(candidate));
+      this.stats.messagesParsed++;
+    } catch {
+      this.stats.invalidMessages++;
+      this.recover(candidate, 'invalid', results);
+    }
   }
 
   /**
-   * Try to parse a single line, handling SSE format
-   * @param line - Line to parse
-   * @returns Parsed object or null
+   * Drop a partial value that timed out, salvaging complete lines from it
    */
-  private tryParseLine(line: string): any | null {
-    if (!line) return null;
+  private expireValue(results: any[]): void {
+    this.stats.timedOutFragments++;
 
-    try {
-      // Handle SSE format (data: {...})
-      if (line.startsWith('data: ')) {
-        line = line.substring(6).trim();
-      }
+    if (this.oversized) {
+      this.diagnose({ kind: 'timeout', offset: this.valueOffset, length: this.offset - this.valueOffset });
+      this.resetValue();
+      return;
+    }
 
-      // Try to parse as JSON
-      return JSON.parse(line);
-    } catch {
-      // Try recovery strategies
-      return this.tryRecovery(line);
+    // Whatever partial value recovery leaves behind is just as stale
+    while (this.depth > 0) {
+      const fragment = this.buffer;
+      this.resetValue();
+      this.recover(fragment, 'timeout', results);
     }
   }
 
   /**
-   * Try recovery strategies for malformed JSON
-   * @param data - Data to recover
-   * @returns Recovered object or null
+   * Drop a partial value the stream ended inside, salvaging complete lines
    */
-  private tryRecovery(data: string): any | null {
-    // Skip if it doesn't look like JSON
-    if (!data.includes('{') && !data.includes('[')) {
-      return null;
+  private truncateValue(results: unknown[]): void {
+    if (this.depth === 0) return;
+    this.stats.truncatedFragments++;
+
+    if (this.oversized) {
+      this.diagnose({
+        kind: 'dropped',
+        reason: 'truncated',
+        offset: this.valueOffset,
+        length: this.offset - this.valueOffset
+      });
+      this.resetValue();
+      return;
     }
 
-    // Try to find and parse JSON-like content
-    const jsonMatch = data.match(/(\{[^}]*\}|\[[^\]]*\])/);
-    if (jsonMatch) {
-      try {
-        return JSON.parse(jsonMatch[0]);
-      } catch {
-        // Recovery failed
-      }
+    while (this.depth > 0) {
+      const fragment = this.buffer;
+      this.resetValue();
+      this.recover(fragment, 'truncated', results);
+    }
+  }
+
+  /**
+   * Drop a rejected fragment up to its first newline, then rescan the rest
+   */
+  private recover(fragment: string, cause: 'invalid' | 'timeout' | 'truncated', results: any[]): void {
+    const start = this.valueOffset;
+    const newline = fragment.indexOf('\n');
+    const head = newline === -1 ? fragment : fragment.slice(0, newline + 1);
+
+    if (cause === 'timeout') {
+      this.stats.bytesDiscarded += Buffer.byteLength(head);
+      this.diagnose({ kind: 'timeout', offset: start, length: Buffer.byteLength(head), fragment: head });
+    } else {
+      this.drop(cause, start, head);
+    }
+
+    const rest = fragment.slice(head.length);
+    if (!rest.trim()) {
+      return;
     }
 
-    return null;
+    // The rest was already counted once; rewind so offsets stay accurate
+    this.stats.recoveryAttempts++;
+    const end = this.offset;
+    const recoveryOffset = start + Buffer.byteLength(head);
+    const before = results.length;
+    this.offset = recoveryOffset;
+    this.consume(rest, results);
+    this.offset = end;
+
+    this.diagnose({
+      kind: 'recovery',
+      offset: recoveryOffset,
+      length: end - recoveryOffset,
+      recovered: results.length - before
+    });
+  }
+
+  private resetValue(): void {
+    this.buffer = '';
+    this.bufferBytes = 0;
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    this.oversized = false;
+  }
+
+  private discardNoise(noise: string): void {
+    const trimmed = noise.trim();
+    if (trimmed) {
+      const leading = noise.length - noise.trimStart().length;
+      this.drop('noise', this.offset + Buffer.byteLength(noise.slice(0, leading)), trimmed);
+    }
+    this.offset += Buffer.byteLength(noise);
+  }
+
+  private drop(reason: 'noise' | 'invalid' | 'truncated', offset: number, fragment: string): void {
+    const length = Buffer.byteLength(fragment);
+    this.stats.bytesDiscarded += length;
+    this.diagnose({ kind: 'dropped', reason, offset, length, fragment });
+  }
+
+  private diagnose(diagnostic: ParseDiagnostic): void {
+    this.diagnostics.push(diagnostic);
+    if (this.diagnostics.length > JsonStreamParser.MAX_PENDING_DIAGNOSTICS) {
+      this.diagnostics.shift();
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,236 @@
+/**
+ * A content block being assembled from deltas
+ */
+export interface AccumulatedBlock {
+  type: string;
+  text?: string;
+  thinking?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * A Messages API message rebuilt from its stream events
+ */
+export interface AccumulatedMessage {
+  id?: string;
+  model?: string;
+  role: string;
+  content: AccumulatedBlock[];
+  usage?: Record<string, number>;
+  stop_reason?: string | null;
+  stop_sequence?: string | null;
+}
+
+/**
+ * One incremental piece of a content block
+ */
+export interface MessageDelta {
+  messageId?: string;
+  index: number;
+  type: string;
+  text?: string;
+  partialJson?: string;
+  thinking?: string;
+}
+
+/**
+ * A Messages API stream event, as far as the accumulator reads it
+ */
+export interface StreamEvent {
+  type: string;
+  index?: number;
+  // message_start
+  message?: Partial<AccumulatedMessage>;
+  // content_block_start
+  content_block?: AccumulatedBlock;
+  // content_block_delta and message_delta
+  delta?: StreamEventDelta;
+  // message_delta
+  usage?: Record<string, number>;
+}
+
+interface StreamEventDelta {
+  type?: string;
+  text?: string;
+  partial_json?: string;
+  thinking?: string;
+  stop_reason?: string | null;
+  stop_sequence?: string | null;
+}
+
+/**
+ * What a single stream event contributed
+ */
+export interface AccumulatorResult {
+  delta?: MessageDelta;
+  // Set on message_stop
+  message?: AccumulatedMessage;
+}
+
+const STREAM_EVENT_TYPES = new Set([
+  'message_start',
+  'content_block_start',
+  'content_block_delta',
+  'content_block_stop',
+  'message_delta',
+  'message_stop',
+  'ping'
+]);
+
+/**
+ * MessageAccumulator rebuilds complete messages from Messages API stream
+ * events (message_start, content_block_start/delta/stop, message_delta,
+ * message_stop)
+ *
+ * Text and thinking deltas are concatenated; `input_json_delta` fragments are
+ * joined and parsed when their block stops. message_delta supplies the final
+ * stop_reason and usage.
+ */
+export class MessageAccumulator {
+  private current?: AccumulatedMessage;
+  private partialJson: Map<number, string> = new Map();
+
+  /**
+   * Check whether a parsed message is a Messages API stream event
+   */
+  static isStreamEvent(message: unknown): message is StreamEvent {
+    return typeof message === 'object' && message !== null &&
+      STREAM_EVENT_TYPES.has(String((message as { type?: unknown }).type));
+  }
+
+  /**
+   * Apply one stream event
+   */
+  push(event: StreamEvent): AccumulatorResult {
+    const index = event.index ?? 0;
+
+    switch (event.type) {
+      case 'message_start':
+        this.start(event.message || {});
+        return {};
+      case 'content_block_start':
+        this.ensureMessage().content[index] = { ...(event.content_block || { type: 'text' }) };
+        return {};
+      case 'content_block_delta':
+        return { delta: this.applyDelta(index, event.delta || {}) };
+      case 'content_block_stop':
+        this.stopBlock(index);
+        return {};
+      case 'message_delta':
+        this.applyMessageDelta(event);
+        return {};
+      case 'message_stop':
+        return { message: this.finish() };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Get the message currently being assembled, if any
+   */
+  getCurrent(): AccumulatedMessage | undefined {
+    return this.current;
+  }
+
+  reset(): void {
+    this.current = undefined;
+    this.partialJson.clear();
+  }
+
+  private start(message: Partial<AccumulatedMessage>): void {
+    this.partialJson.clear();
+    this.current = {
+      id: message.id,
+      model: message.model,
+      role: message.role || 'assistant',
+      content: Array.isArray(message.content) ? [...message.content] : [],
+      usage: message.usage ? { ...message.usage } : undefined,
+      stop_reason: message.stop_reason ?? null,
+      stop_sequence: message.stop_sequence ?? null
+    };
+  }
+
+  private ensureMessage(): AccumulatedMessage {
+    if (!this.current) {
+      this.start({});
+    }
+    return this.current!;
+  }
+
+  private applyDelta(index: number, delta: StreamEventDelta): MessageDelta {
+    const message = this.ensureMessage();
+    const block = message.content[index] || (message.content[index] = { type: 'text' });
+    const result: MessageDelta = { messageId: message.id, index, type: delta.type ?? '' };
+
+    switch (delta.type) {
+      case 'text_delta':
+        block.text = (block.text || '') + (delta.text || '');
+        result.text = delta.text || '';
+        break;
+      case 'input_json_delta':
+        this.partialJson.set(index, (this.partialJson.get(index) || '') + (delta.partial_json || ''));
+        result.partialJson = delta.partial_json || '';
+        break;
+      case 'thinking_delta':
+        block.thinking = (block.thinking || '') + (delta.thinking || '');
+        result.thinking = delta.thinking || '';
+        break;
+      default:
+        // Other delta types (e.g., signature_delta) carry no content
+        break;
+    }
+
+    return result;
+  }
+
+  private stopBlock(index: number): void {
+    const json = this.partialJson.get(index);
+    const block = this.current?.content[index];
+    if (json === undefined || !block) {
+      return;
+    }
+
+    this.partialJson.delete(index);
+    try {
+      block.input = json.trim() ? JSON.parse(json) : {};
+    } catch {
+      // Keep the raw fragments rather than lose the tool input
+      block.input = json;
+    }
+  }
+
+  private applyMessageDelta(event: StreamEvent): void {
+    const message = this.ensureMessage();
+    const delta = event.delta || {};
+
+    if (delta.stop_reason !== undefined) {
+      message.stop_reason = delta.stop_reason;
+    }
+    if (delta.stop_sequence !== undefined) {
+      message.stop_sequence = delta.stop_sequence;
+    }
+    if (event.usage) {
+      message.usage = { ...message.usage, ...event.usage };
+    }
+  }
+
+  private finish(): AccumulatedMessage | undefined {
+    const message = this.current;
+    if (!message) {
+      return undefined;
+    }
+
+    // Blocks that never saw content_block_stop still get their input
+    for (const index of [...this.partialJson.keys()]) {
+      this.stopBlock(index);
+    }
+    message.content = message.content.filter(block => block !== undefined);
+
+    this.reset();
+    return message;
+  }
+}
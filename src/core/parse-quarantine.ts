@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import { finished } from 'stream/promises';
+import { ParseDiagnostic } from './json-parser';
+
+/**
+ * One quarantined fragment, as written to the file
+ */
+export interface QuarantineEntry {
+  timestamp: number;
+  sessionId: string;
+  kind: ParseDiagnostic['kind'];
+  reason?: ParseDiagnostic['reason'];
+  offset: number;
+  length: number;
+  fragment: string;
+}
+
+/**
+ * ParseQuarantine appends raw output the parser could not use to an NDJSON
+ * file, one entry per dropped fragment, so a change in Claude's output
+ * format can be inspected after the fact
+ *
+ * Diagnostics without a fragment (oversized values, recovery reports) are
+ * skipped. The file is opened on the first write.
+ */
+export class ParseQuarantine {
+  private stream?: fs.WriteStream;
+  private entries = 0;
+
+  constructor(
+    private filePath: string,
+    private sessionId: string
+  ) {}
+
+  write(diagnostics: ParseDiagnostic[]): void {
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.fragment === undefined) {
+        continue;
+      }
+
+      const entry: QuarantineEntry = {
+        timestamp: Date.now(),
+        sessionId: this.sessionId,
+        kind: diagnostic.kind,
+        reason: diagnostic.reason,
+        offset: diagnostic.offset,
+        length: diagnostic.length,
+        fragment: diagnostic.fragment
+      };
+
+      this.open().write(JSON.stringify(entry) + '\n');
+      this.entries++;
+    }
+  }
+
+  /**
+   * Number of fragments written so far
+   */
+  getEntryCount(): number {
+    return this.entries;
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Flush and close the file
+   */
+  async close(): Promise<void> {
+    const stream = this.stream;
+    if (!stream) return;
+
+    this.stream = undefined;
+    stream.end();
+    await finished(stream).catch(() => {});
+  }
+
+  private open(): fs.WriteStream {
+    if (!this.stream) {
+      this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+      // Quarantine is best-effort; a full disk must not break the session
+      this.stream.on('error', () => {});
+    }
+    return this.stream;
+  }
+}
@@ -1,19 +1,119 @@
 import { ChildProcess, spawn } from 'child_process';
 import { EventEmitter } from 'events';
+import { constants as osConstants } from 'os';
+import { PassThrough, Readable, Writable } from 'stream';
 
 interface KillOptions {
   forceTimeout?: number;
 }
 
+/**
+ * Which watchdog limit expired
+ */
+export type WatchdogReason = 'wall-clock' | 'idle';
+
+export interface WatchdogOptions {
+  /** Overall session limit in ms (0 or unset disables) */
+  timeout?: number;
+  /** Limit on time without output in ms (0 or unset disables) */
+  idleTimeout?: number;
+  /** Timestamp of the last output byte; the watchdog start time until then */
+  getLastActivity?: () => number | undefined;
+  /** Delay between SIGINT, SIGTERM and SIGKILL */
+  escalationDelay?: number;
+  /** Called once, before the child is signalled */
+  onTimeout?: (reason: WatchdogReason, limit: number) => void;
+}
+
+/**
+ * Parent terminal streams used in PTY mode
+ */
+export interface TerminalInput extends Readable {
+  isTTY?: boolean;
+  setRawMode?(mode: boolean): unknown;
+}
+
+export interface TerminalOutput extends Writable {
+  columns?: number;
+  rows?: number;
+}
+
+export interface PtyOptions {
+  terminal?: {
+    input: TerminalInput;
+    output: TerminalOutput;
+  };
+  cols?: number;
+  rows?: number;
+}
+
+/**
+ * Handle to a child running inside a pseudo-terminal
+ *
+ * `stdout` carries everything the child writes to its terminal (stdout and
+ * stderr are merged by the PTY); writes to `stdin` are typed into it.
+ */
+export interface PtyHandle {
+  pid: number;
+  stdout: Readable;
+  stdin: Writable;
+  resize(cols: number, rows: number): void;
+}
+
+// Subset of the node-pty API used here; node-pty is an optional dependency
+interface PtyProcess {
+  pid: number;
+  onData(listener: (data: string) => void): void;
+  onExit(listener: (event: { exitCode: number; signal?: number }) => void): void;
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  kill(signal?: string): void;
+}
+
+interface PtyModule {
+  spawn(file: string, args: string[], options: {
+    name: string;
+    cols: number;
+    rows: number;
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+  }): PtyProcess;
+}
+
+function loadPtyModule(): PtyModule {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require('node-pty') as PtyModule;
+  } catch (error) {
+    throw new Error('PTY mode requires the optional dependency node-pty (npm install node-pty)');
+  }
+}
+
+function signalName(signal?: number): NodeJS.Signals | null {
+  if (!signal) {
+    return null;
+  }
+  const entry = Object.entries(osConstants.signals).find(([, value]) => value === signal);
+  return entry ? entry[0] as NodeJS.Signals : null;
+}
+
 type ExitCallback = (code: number | null, signal: NodeJS.Signals | null) => void;
 type ErrorCallback = (error: Error) => void;
 
 export class ProcessManager extends EventEmitter {
+  static readonly DEFAULT_ESCALATION_DELAY = 5000;
+
   private childProcess?: ChildProcess;
+  private ptyProcess?: PtyProcess;
+  private ptyRunning = false;
+  private rawModeInput?: TerminalInput;
+  private resizeTarget?: { output: TerminalOutput; listener: () => void };
   private signalHandlers: Map<string, (...args: any[]) => void> = new Map();
   private exitCallbacks: ExitCallback[] = [];
   private errorCallbacks: ErrorCallback[] = [];
   private forceKillTimer?: NodeJS.Timeout;
+  private watchdogTimers: NodeJS.Timeout[] = [];
+  private watchdogExpired = false;
 
   spawn(command: string, args: string[], env?: NodeJS.ProcessEnv): ChildProcess {
     try {
@@ -32,7 +132,69 @@ export class ProcessManager extends EventEmitter {
     }
   }
 
+  /**
+   * Spawn a child inside a pseudo-terminal for interactive sessions
+   *
+   * The child keeps TTY detection, colors and raw-mode key handling. The
+   * parent terminal is put into raw mode, and SIGWINCH/resize events are
+   * forwarded so the child tracks the window size.
+   */
+  spawnPty(command: string, args: string[], env?: NodeJS.ProcessEnv, options: PtyOptions = {}): PtyHandle {
+    const nodePty = loadPtyModule();
+    const terminal = options.terminal;
+    const mergedEnv = { ...process.env, ...env };
+
+    let pty: PtyProcess;
+    try {
+      pty = nodePty.spawn(command, args, {
+        name: mergedEnv.TERM || 'xterm-256color',
+        cols: options.cols || terminal?.output.columns || 80,
+        rows: options.rows || terminal?.output.rows || 24,
+        cwd: process.cwd(),
+        env: mergedEnv
+      });
+    } catch (error) {
+      throw new Error(`Failed to spawn process: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.ptyProcess = pty;
+    this.ptyRunning = true;
+
+    const output = new PassThrough();
+    const input = new Writable({
+      write(chunk: Buffer | string, _encoding, callback) {
+        pty.write(typeof chunk === 'string' ? chunk : chunk.toString('utf8'));
+        callback();
+      }
+    });
+
+    pty.onData(data => output.write(data));
+    pty.onExit(({ exitCode, signal }) => {
+      this.ptyRunning = false;
+      output.end();
+      this.restoreTerminal();
+      this.handleExit(exitCode, signalName(signal));
+      this.ptyProcess = undefined;
+    });
+
+    if (terminal) {
+      this.setupResizeForwarding(pty, terminal.output);
+      this.enableRawMode(terminal.input);
+    }
+
+    return {
+      pid: pty.pid,
+      stdout: output,
+      stdin: input,
+      resize: (cols: number, rows: number) => pty.resize(cols, rows)
+    };
+  }
+
   kill(signal: NodeJS.Signals = 'SIGTERM', options?: KillOptions): boolean {
+    if (this.ptyProcess) {
+      return this.killPty(signal, options);
+    }
+
     if (!this.childProcess) {
       return false;
     }
@@ -49,7 +211,9 @@ export class ProcessManager extends EventEmitter {
     // Setup force kill timeout if requested
     if (options?.forceTimeout && killed && signal !== 'SIGKILL') {
       this.forceKillTimer = setTimeout(() => {
-        if (this.childProcess && !this.childProcess.killed) {
+        // `killed` only means a signal was delivered; the reference is
+        // cleared once the child has actually exited
+        if (this.childProcess) {
           this.childProcess.kill('SIGKILL');
         }
       }, options.forceTimeout);
@@ -58,6 +222,58 @@ export class ProcessManager extends EventEmitter {
     return killed;
   }
 
+  /**
+   * Stop the child when it runs too long or goes quiet
+   *
+   * On expiry the child gets SIGINT (letting Claude wind down), then SIGTERM,
+   * then SIGKILL, each `escalationDelay` apart. The watchdog stops when the
+   * child exits.
+   */
+  startWatchdog(options: WatchdogOptions): void {
+    this.stopWatchdog();
+    this.watchdogExpired = false;
+
+    const startTime = Date.now();
+    const escalationDelay = options.escalationDelay ?? ProcessManager.DEFAULT_ESCALATION_DELAY;
+
+    const expire = (reason: WatchdogReason, limit: number) => {
+      if (this.watchdogExpired) return;
+      this.watchdogExpired = true;
+      this.stopWatchdog();
+
+      options.onTimeout?.(reason, limit);
+      this.escalate(escalationDelay);
+    };
+
+    if (options.timeout && options.timeout > 0) {
+      const limit = options.timeout;
+      this.watchdogTimers.push(setTimeout(() => expire('wall-clock', limit), limit));
+    }
+
+    if (options.idleTimeout && options.idleTimeout > 0) {
+      const limit = options.idleTimeout;
+
+      // Re-arm for the remaining idle time instead of polling
+      const checkIdle = () => {
+        const lastActivity = Math.max(startTime, options.getLastActivity?.() ?? startTime);
+        const remaining = lastActivity + limit - Date.now();
+
+        if (remaining <= 0) {
+          expire('idle', limit);
+        } else {
+          this.watchdogTimers.push(setTimeout(checkIdle, remaining));
+        }
+      };
+
+      this.watchdogTimers.push(setTimeout(checkIdle, limit));
+    }
+  }
+
+  stopWatchdog(): void {
+    this.watchdogTimers.forEach(timer => clearTimeout(timer));
+    this.watchdogTimers = [];
+  }
+
   onExit(callback: ExitCallback): void {
     this.exitCallbacks.push(callback);
   }
@@ -71,7 +287,9 @@ export class ProcessManager extends EventEmitter {
 
     signals.forEach(signal => {
       const handler = () => {
-        if (this.childProcess && !this.childProcess.killed) {
+        if (this.ptyProcess) {
+          this.killPty(signal);
+        } else if (this.childProcess && !this.childProcess.killed) {
           this.childProcess.kill(signal);
         }
       };
@@ -82,18 +300,21 @@ export class ProcessManager extends EventEmitter {
   }
 
   isRunning(): boolean {
+    if (this.ptyProcess) {
+      return this.ptyRunning;
+    }
     return this.childProcess !== undefined &&
            this.childProcess.killed === false &&
            this.childProcess.exitCode === null;
   }
 
   getPid(): number | undefined {
-    return this.childProcess?.pid;
+    return this.ptyProcess?.pid ?? this.childProcess?.pid;
   }
 
   async gracefulShutdown(timeout: number): Promise<{ code: number | null, signal: NodeJS.Signals | null }> {
     return new Promise((resolve, reject) => {
-      if (!this.childProcess) {
+      if (!this.childProcess && !this.ptyProcess) {
         resolve({ code: 0, signal: null });
         return;
       }
@@ -115,7 +336,7 @@ export class ProcessManager extends EventEmitter {
         }
       };
 
-      this.childProcess.once('exit', exitHandler);
+      this.once('exit', exitHandler);
 
       // Send SIGTERM
       this.kill('SIGTERM');
@@ -128,11 +349,18 @@ export class ProcessManager extends EventEmitter {
       clearTimeout(this.forceKillTimer);
       this.forceKillTimer = undefined;
     }
+    this.stopWatchdog();
 
     // Kill process if still running
     if (this.childProcess && !this.childProcess.killed) {
       this.childProcess.kill('SIGTERM');
     }
+    if (this.ptyProcess && this.ptyRunning) {
+      this.ptyProcess.kill('SIGTERM');
+    }
+
+    // Give the parent terminal back its normal mode
+    this.restoreTerminal();
 
     // Remove all event listeners from child process
     if (this.childProcess) {
@@ -147,6 +375,8 @@ export class ProcessManager extends EventEmitter {
 
     // Clear internal state
     this.childProcess = undefined;
+    this.ptyProcess = undefined;
+    this.ptyRunning = false;
     this.exitCallbacks = [];
     this.errorCallbacks = [];
   }
@@ -158,16 +388,7 @@ export class ProcessManager extends EventEmitter {
 
     // Handle process exit
     this.childProcess.on('exit', (code, signal) => {
-      // Clear force kill timer
-      if (this.forceKillTimer) {
-        clearTimeout(this.forceKillTimer);
-        this.forceKillTimer = undefined;
-      }
-
-      // Notify all exit callbacks
-      this.exitCallbacks.forEach(callback => {
-        callback(code, signal);
-      });
+      this.handleExit(code, signal);
 
       // Clean up process reference
       this.childProcess = undefined;
@@ -192,6 +413,90 @@ export class ProcessManager extends EventEmitter {
     }
   }
 
+  private handleExit(code: number | null, signal: NodeJS.Signals | null): void {
+    // Clear force kill timer
+    if (this.forceKillTimer) {
+      clearTimeout(this.forceKillTimer);
+      this.forceKillTimer = undefined;
+    }
+    this.stopWatchdog();
+
+    // Notify all exit callbacks
+    this.exitCallbacks.forEach(callback => {
+      callback(code, signal);
+    });
+
+    this.emit('exit', code, signal);
+  }
+
+  private escalate(delay: number): void {
+    this.kill('SIGINT');
+
+    // kill() escalates SIGTERM to SIGKILL after forceTimeout
+    this.watchdogTimers.push(setTimeout(() => {
+      if (this.childProcess || this.ptyRunning) {
+        this.kill('SIGTERM', { forceTimeout: delay });
+      }
+    }, delay));
+  }
+
+  private killPty(signal: NodeJS.Signals, options?: KillOptions): boolean {
+    if (!this.ptyProcess || !this.ptyRunning) {
+      return false;
+    }
+
+    if (this.forceKillTimer) {
+      clearTimeout(this.forceKillTimer);
+      this.forceKillTimer = undefined;
+    }
+
+    const pty = this.ptyProcess;
+    pty.kill(signal);
+
+    if (options?.forceTimeout && signal !== 'SIGKILL') {
+      this.forceKillTimer = setTimeout(() => {
+        if (this.ptyRunning) {
+          pty.kill('SIGKILL');
+        }
+      }, options.forceTimeout);
+    }
+
+    return true;
+  }
+
+  private setupResizeForwarding(pty: PtyProcess, output: TerminalOutput): void {
+    const resize = () => {
+      if (this.ptyRunning && output.columns && output.rows) {
+        pty.resize(output.columns, output.rows);
+      }
+    };
+
+    this.signalHandlers.set('SIGWINCH', resize);
+    process.on('SIGWINCH', resize);
+
+    output.on('resize', resize);
+    this.resizeTarget = { output, listener: resize };
+  }
+
+  private enableRawMode(input: TerminalInput): void {
+    if (input.isTTY && typeof input.setRawMode === 'function') {
+      input.setRawMode(true);
+      this.rawModeInput = input;
+    }
+  }
+
+  private restoreTerminal(): void {
+    if (this.rawModeInput?.setRawMode) {
+      this.rawModeInput.setRawMode(false);
+    }
+    this.rawModeInput = undefined;
+
+    if (this.resizeTarget) {
+      this.resizeTarget.output.removeListener('resize', this.resizeTarget.listener);
+      this.resizeTarget = undefined;
+    }
+  }
+
   private notifyError(error: Error): void {
     this.errorCallbacks.forEach(callback => {
       callback(error);
@@ -0,0 +1,274 @@
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { JsonStreamParser } from './json-parser';
+import { StreamEventNormalizer } from './event-normalizer';
+import { QueryEvent, TypedQueryEvent } from '../types/events';
+
+/**
+ * Claude CLI arguments relevant to prompt capture
+ */
+export interface ClaudeArgs {
+  prompt?: string;
+  printMode: boolean;
+  inputFormat: 'text' | 'stream-json';
+  // `--output-format`, when given
+  outputFormat?: string;
+  model?: string;
+}
+
+/**
+ * Where a captured prompt came from
+ */
+export type PromptOrigin = 'argv' | 'stdin';
+
+interface QueryEventSink {
+  emitEvent(event: QueryEvent): void;
+}
+
+// Claude CLI options that consume the following argument
+const OPTIONS_WITH_VALUE = new Set([
+  '--output-format',
+  '--input-format',
+  '--model',
+  '--fallback-model',
+  '--allowedTools',
+  '--allowed-tools',
+  '--disallowedTools',
+  '--disallowed-tools',
+  '--append-system-prompt',
+  '--system-prompt',
+  '--permission-mode',
+  '--permission-prompt-tool',
+  '--max-turns',
+  '--mcp-config',
+  '--add-dir',
+  '--resume',
+  '-r',
+  '--session-id',
+  '--settings'
+]);
+
+// Subcommands whose positional arguments are not prompts
+const SUBCOMMANDS = new Set(['config', 'mcp', 'update', 'doctor', 'install', 'migrate-installer', 'setup-token']);
+
+/**
+ * PromptCapture records what the user asked Claude in the wrapper path
+ *
+ * - The initial prompt comes from argv (`-p`/`--print` or a positional prompt)
+ * - With `--input-format stream-json`, each user message on stdin is a query
+ * - In print mode without a positional prompt, piped stdin text is the prompt
+ *
+ * Each captured prompt starts a new query on the normalizer, so the `query`
+ * event shares its id and correlationId with the responses that follow.
+ */
+// Listeners PromptCapture adds to an input stream: `data` or `end`
+type InputListener = ((chunk: Buffer | string) => void) | (() => void);
+
+export class PromptCapture {
+  static readonly DEFAULT_MAX_INPUT_SIZE = 1024 * 1024; // 1MB
+
+  private parser = new JsonStreamParser();
+  private tappedSources: Map<Readable, Array<[string, InputListener]>> = new Map();
+
+  constructor(
+    private eventBus: QueryEventSink,
+    private normalizer: StreamEventNormalizer,
+    private maxInputSize: number = PromptCapture.DEFAULT_MAX_INPUT_SIZE
+  ) {}
+
+  /**
+   * Extract prompt-related settings from Claude CLI arguments
+   */
+  static parseArgs(args: string[]): ClaudeArgs {
+    const result: ClaudeArgs = { printMode: false, inputFormat: 'text' };
+    const positional: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+
+      if (arg === '--') {
+        positional.push(...args.slice(i + 1));
+        break;
+      }
+
+      if (arg === '-p' || arg === '--print') {
+        result.printMode = true;
+        continue;
+      }
+
+      const [name, inlineValue] = arg.startsWith('--') && arg.includes('=')
+        ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+        : [arg, undefined];
+
+      if (OPTIONS_WITH_VALUE.has(name)) {
+        const value = inlineValue ?? args[++i];
+        if (name === '--model') {
+          result.model = value;
+        } else if (name === '--output-format') {
+          result.outputFormat = value;
+        } else if (name === '--input-format' && value === 'stream-json') {
+          result.inputFormat = 'stream-json';
+        }
+        continue;
+      }
+
+      if (arg.startsWith('-')) {
+        continue;
+      }
+
+      positional.push(arg);
+    }
+
+    if (positional.length > 0 && !SUBCOMMANDS.has(positional[0])) {
+      result.prompt = positional.join(' ');
+    }
+
+    return result;
+  }
+
+  /**
+   * Emit a query event for a prompt given on the command line
+   *
+   * @returns The emitted event, or null when argv carries no prompt
+   */
+  captureArgs(args: string[]): TypedQueryEvent<'query'> | null {
+    const parsed = PromptCapture.parseArgs(args);
+
+    if (!parsed.prompt || parsed.inputFormat === 'stream-json') {
+      return null;
+    }
+
+    return this.emitQuery(parsed.prompt, 'argv', parsed.model);
+  }
+
+  /**
+   * Tap user input for prompts without affecting passthrough to the child
+   *
+   * @param source - Input stream (e.g., process.stdin)
+   * @param args - Claude CLI arguments, used to pick the capture strategy
+   */
+  tapInput(source: Readable, args: string[]): void {
+    const parsed = PromptCapture.parseArgs(args);
+
+    if (parsed.inputFormat === 'stream-json') {
+      this.tapStreamJson(source, parsed.model);
+    } else if (parsed.printMode && !parsed.prompt) {
+      this.tapPipedText(source, parsed.model);
+    }
+  }
+
+  /**
+   * Remove input listeners and reset state
+   */
+  cleanup(): void {
+    this.tappedSources.forEach((listeners, source) => {
+      for (const [eventName, listener] of listeners) {
+        source.removeListener(eventName, listener);
+      }
+    });
+    this.tappedSources.clear();
+    this.parser.reset();
+  }
+
+  private tapStreamJson(source: Readable, model?: string): void {
+    const dataListener = (chunk: Buffer | string) => {
+      for (const message of this.parser.parse(chunk)) {
+        const prompt = this.extractUserText(message);
+        if (prompt) {
+          this.emitQuery(prompt, 'stdin', model);
+        }
+      }
+    };
+
+    this.addListener(source, 'data', dataListener);
+  }
+
+  private tapPipedText(source: Readable, model?: string): void {
+    let text = '';
+    let truncated = false;
+
+    const dataListener = (chunk: Buffer | string) => {
+      if (text.length >= this.maxInputSize) {
+        truncated = true;
+        return;
+      }
+      text += typeof chunk === 'string' ? chunk : chunk.toString('utf8');
+      if (text.length > this.maxInputSize) {
+        text = text.slice(0, this.maxInputSize);
+        truncated = true;
+      }
+    };
+
+    const endListener = () => {
+      const prompt = text.trim();
+      if (prompt) {
+        this.emitQuery(prompt, 'stdin', model, truncated);
+      }
+    };
+
+    this.addListener(source, 'data', dataListener);
+    this.addListener(source, 'end', endListener);
+  }
+
+  private addListener(source: Readable, eventName: string, listener: InputListener): void {
+    source.on(eventName, listener);
+
+    const listeners = this.tappedSources.get(source) || [];
+    listeners.push([eventName, listener]);
+    this.tappedSources.set(source, listeners);
+  }
+
+  private extractUserText(message: unknown): string | null {
+    const { type, message: inner } = (message ?? {}) as { type?: unknown; message?: { content?: unknown } };
+    if (type !== 'user' || !inner) {
+      return null;
+    }
+
+    const content = inner.content;
+    if (typeof content === 'string') {
+      return content;
+    }
+    if (Array.isArray(content)) {
+      const text = content
+        .filter((block): block is { text: string } =>
+          (block as { type?: unknown } | null)?.type === 'text' && typeof block.text === 'string')
+        .map(block => block.text)
+        .join('\n');
+      return text || null;
+    }
+
+    return null;
+  }
+
+  private emitQuery(
+    prompt: string,
+    origin: PromptOrigin,
+    model?: string,
+    truncated = false
+  ): TypedQueryEvent<'query'> {
+    const context = this.normalizer.beginQuery(uuidv4());
+    const timestamp = Date.now();
+
+    const event: TypedQueryEvent<'query'> = {
+      id: context.queryId,
+      type: 'query',
+      timestamp,
+      data: {
+        messages: [{ role: 'user', content: prompt }],
+        model,
+        origin,
+        ...(truncated ? { truncated } : {})
+      },
+      metadata: {
+        correlationId: context.correlationId,
+        sessionId: this.normalizer.getSessionId(),
+        timestamp,
+        source: 'cli',
+        queryId: context.queryId
+      }
+    };
+
+    this.eventBus.emitEvent(event);
+    return event;
+  }
+}
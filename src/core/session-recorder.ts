@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import { readFile } from 'fs/promises';
+import { Readable } from 'stream';
+import { finished } from 'stream/promises';
+
+export const RECORDING_VERSION = 1;
+
+/**
+ * Streams captured in a session recording
+ */
+export type RecordedChannel = 'stdout' | 'stderr' | 'stdin';
+
+/**
+ * First line of a recording: how the session was started
+ */
+export interface RecordingHeader {
+  s: 'session';
+  t: 0;
+  version: number;
+  sessionId: string;
+  startTime: number;
+  args: string[];
+  streamFormat?: 'json' | 'sse';
+  pty?: boolean;
+}
+
+/**
+ * One chunk, or the end of a channel, at `t` ms after the session started
+ */
+export interface RecordedChunk {
+  s: RecordedChannel;
+  t: number;
+  // Chunk text; base64 when the bytes are not valid UTF-8 on their own
+  d?: string;
+  e?: 'base64';
+  end?: true;
+}
+
+/**
+ * Last line of a recording: how Claude exited
+ */
+export interface RecordedExit {
+  s: 'exit';
+  t: number;
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+/**
+ * A recording read back from disk
+ */
+export interface SessionRecording {
+  header: RecordingHeader;
+  chunks: RecordedChunk[];
+  exit?: RecordedExit;
+}
+
+/**
+ * SessionRecorder writes a wrapped Claude run as timestamped NDJSON
+ *
+ * Line 1 is a `session` header, then one line per chunk (or channel end) on
+ * stdout, stderr and stdin in arrival order, then an `exit` line. Chunks are
+ * kept exactly as received so replay reproduces the parser's input,
+ * including chunk boundaries.
+ */
+export class SessionRecorder {
+  private stream: fs.WriteStream;
+  private startTime: number;
+  private tapped: Array<[Readable, string, (...args: any[]) => void]> = [];
+
+  constructor(
+    private filePath: string,
+    header: Omit<RecordingHeader, 's' | 't' | 'version' | 'startTime'>
+  ) {
+    this.startTime = Date.now();
+    this.stream = fs.createWriteStream(filePath, { flags: 'w' });
+    // Recording is best-effort; a full disk must not break the session
+    this.stream.on('error', () => {});
+
+    this.writeLine({ s: 'session', t: 0, version: RECORDING_VERSION, startTime: this.startTime, ...header });
+  }
+
+  /**
+   * Record every chunk read from a stream without consuming it
+   */
+  tap(source: Readable, channel: RecordedChannel): void {
+    const dataListener = (chunk: Buffer | string) => this.recordChunk(channel, chunk);
+    const endListener = () => this.writeLine({ s: channel, t: this.elapsed(), end: true });
+
+    source.on('data', dataListener);
+    source.once('end', endListener);
+    this.tapped.push([source, 'data', dataListener], [source, 'end', endListener]);
+  }
+
+  recordChunk(channel: RecordedChannel, chunk: Buffer | string): void {
+    const record: RecordedChunk = { s: channel, t: this.elapsed() };
+
+    if (typeof chunk === 'string') {
+      record.d = chunk;
+    } else {
+      const text = chunk.toString('utf8');
+      if (Buffer.from(text).equals(chunk)) {
+        record.d = text;
+      } else {
+        record.d = chunk.toString('base64');
+        record.e = 'base64';
+      }
+    }
+
+    this.writeLine(record);
+  }
+
+  recordExit(code: number | null, signal: NodeJS.Signals | null): void {
+    this.writeLine({ s: 'exit', t: this.elapsed(), code, signal });
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Stop tapping and flush the file
+   */
+  async close(): Promise<void> {
+    for (const [source, eventName, listener] of this.tapped) {
+      source.removeListener(eventName, listener);
+    }
+    this.tapped = [];
+
+    if (!this.stream.writableEnded) {
+      this.stream.end();
+      await finished(this.stream).catch(() => {});
+    }
+  }
+
+  private elapsed(): number {
+    return Date.now() - this.startTime;
+  }
+
+  private writeLine(record: RecordingHeader | RecordedChunk | RecordedExit): void {
+    if (!this.stream.writableEnded) {
+      this.stream.write(JSON.stringify(record) + '\n');
+    }
+  }
+}
+
+/**
+ * Read a recording written by SessionRecorder
+ *
+ * @throws If the file has no session header or a line is not JSON
+ */
+export async function readSessionRecording(filePath: string): Promise<SessionRecording> {
+  const lines = (await readFile(filePath, 'utf8')).split('\n').filter(line => line.trim());
+  const records = lines.map((line, index) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid recording ${filePath}: line ${index + 1} is not JSON`);
+    }
+  });
+
+  const header = records[0];
+  if (!header || header.s !== 'session') {
+    throw new Error(`Invalid recording ${filePath}: missing session header`);
+  }
+  if (header.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${header.version} in ${filePath}`);
+  }
+
+  return {
+    header,
+    chunks: records.filter(record => record.s === 'stdout' || record.s === 'stderr' || record.s === 'stdin'),
+    exit: records.find(record => record.s === 'exit')
+  };
+}
+
+/**
+ * Decode a recorded chunk to the bytes originally read
+ */
+export function decodeRecordedChunk(chunk: RecordedChunk): Buffer {
+  return Buffer.from(chunk.d ?? '', chunk.e === 'base64' ? 'base64' : 'utf8');
+}
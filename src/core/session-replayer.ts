@@ -0,0 +1,82 @@
+import { Readable } from 'stream';
+import { RecordedChannel, SessionRecording, decodeRecordedChunk } from './session-recorder';
+
+/**
+ * Options for replaying a recording
+ */
+export interface ReplayOptions {
+  // Reproduce the recorded gaps between chunks (default: as fast as possible)
+  realtime?: boolean;
+  // Multiplies recorded gaps in realtime mode (e.g., 0.5 replays at 2x)
+  timeScale?: number;
+}
+
+/**
+ * SessionReplayer feeds a recording back as readable streams
+ *
+ * Each channel is a Readable that yields the recorded chunks with their
+ * original boundaries. Chunks are delivered one at a time in recorded order
+ * across all channels, so stdin and stdout interleave as they did live.
+ */
+export class SessionReplayer {
+  private channels: Record<RecordedChannel, Readable> = {
+    stdout: new Readable({ read() {} }),
+    stderr: new Readable({ read() {} }),
+    stdin: new Readable({ read() {} })
+  };
+
+  constructor(
+    private recording: SessionRecording,
+    private options: ReplayOptions = {}
+  ) {}
+
+  channel(name: RecordedChannel): Readable {
+    return this.channels[name];
+  }
+
+  /**
+   * Push every recorded chunk, then end all channels
+   *
+   * @returns Number of chunks replayed
+   */
+  async run(): Promise<number> {
+    const timeScale = this.options.timeScale ?? 1;
+    const ended = new Set<RecordedChannel>();
+    let clock = 0;
+    let count = 0;
+
+    for (const chunk of this.recording.chunks) {
+      if (this.options.realtime && chunk.t > clock) {
+        await delay((chunk.t - clock) * timeScale);
+        clock = chunk.t;
+      } else {
+        // Let listeners handle each chunk before the next one arrives
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      if (ended.has(chunk.s)) {
+        continue;
+      }
+
+      if (chunk.end) {
+        ended.add(chunk.s);
+        this.channels[chunk.s].push(null);
+      } else {
+        this.channels[chunk.s].push(decodeRecordedChunk(chunk));
+        count++;
+      }
+    }
+
+    for (const [name, stream] of Object.entries(this.channels)) {
+      if (!ended.has(name as RecordedChannel)) {
+        stream.push(null);
+      }
+    }
+
+    return count;
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
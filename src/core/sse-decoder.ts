@@ -0,0 +1,224 @@
+/**
+ * One dispatched Server-Sent Event
+ */
+export interface SseEvent {
+  // Event type; 'message' when no `event:` field was given
+  event: string;
+  // `data:` lines joined with '\n'
+  data: string;
+  // Last event id seen on the stream, if any
+  id?: string;
+  // Reconnection time from the most recent valid `retry:` field
+  retry?: number;
+}
+
+export interface SseDecoderOptions {
+  // Largest event (line plus accumulated data) kept, in characters
+  maxEventSize?: number;
+  // Called with the size of every event dropped for exceeding maxEventSize
+  onDiscard?: (size: number) => void;
+}
+
+/**
+ * SseDecoder assembles Server-Sent Events from arbitrary text chunks
+ *
+ * Follows the WHATWG event-stream rules: lines end in CRLF, LF or CR;
+ * `:` starts a comment; `data` lines accumulate; `event`, `id` and `retry`
+ * set fields; a blank line dispatches the event. Events without data are not
+ * dispatched. The last event id persists across events.
+ */
+export class SseDecoder {
+  private line = '';
+  private data: string[] = [];
+  private dataSize = 0;
+  private eventType = '';
+  private lastEventId?: string;
+  private retry?: number;
+  private pendingCR = false;
+  private started = false;
+  private oversized = false;
+  // The current line was dropped for size, so it is not a blank line
+  private lineSkipped = false;
+
+  constructor(private options: SseDecoderOptions = {}) {}
+
+  /**
+   * Feed a chunk of the stream
+   *
+   * @returns Events completed by this chunk, in order
+   */
+  decode(text: string): SseEvent[] {
+    const events: SseEvent[] = [];
+
+    // A UTF-8 BOM may only appear at the very start of the stream
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+      }
+    }
+
+    let position = 0;
+
+    // CRLF split across chunks: the LF belongs to the line already ended
+    if (this.pendingCR && text[0] === '\n') {
+      position = 1;
+    }
+    this.pendingCR = false;
+
+    while (position < text.length) {
+      const end = this.findLineEnd(text, position);
+      if (end === -1) {
+        this.appendLine(text.slice(position));
+        break;
+      }
+
+      this.appendLine(text.slice(position, end));
+      this.processLine(events);
+
+      if (text[end] === '\r') {
+        if (end + 1 === text.length) {
+          this.pendingCR = true;
+        } else if (text[end + 1] === '\n') {
+          position = end + 2;
+          continue;
+        }
+      }
+      position = end + 1;
+    }
+
+    return events;
+  }
+
+  /**
+   * Get the unterminated line currently buffered
+   */
+  getBuffer(): string {
+    return this.line;
+  }
+
+  /**
+   * Clear all stream state, including the last event id
+   */
+  reset(): void {
+    this.line = '';
+    this.lineSkipped = false;
+    this.resetEvent();
+    this.lastEventId = undefined;
+    this.retry = undefined;
+    this.pendingCR = false;
+    this.started = false;
+  }
+
+  private findLineEnd(text: string, from: number): number {
+    for (let i = from; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\n' || char === '\r') {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private appendLine(piece: string): void {
+    if (this.oversized) {
+      this.dataSize += piece.length;
+      this.lineSkipped = this.lineSkipped || piece.length > 0;
+      return;
+    }
+
+    this.line += piece;
+    this.checkSize();
+  }
+
+  private processLine(events: SseEvent[]): void {
+    const line = this.line;
+    this.line = '';
+
+    if (this.lineSkipped) {
+      this.lineSkipped = false;
+      return;
+    }
+
+    if (line === '') {
+      this.dispatch(events);
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'data':
+        this.data.push(value);
+        this.dataSize += value.length + 1;
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  private dispatch(events: SseEvent[]): void {
+    if (this.oversized) {
+      this.options.onDiscard?.(this.dataSize);
+    } else if (this.data.length > 0) {
+      const event: SseEvent = {
+        event: this.eventType || 'message',
+        data: this.data.join('\n')
+      };
+      if (this.lastEventId !== undefined) {
+        event.id = this.lastEventId;
+      }
+      if (this.retry !== undefined) {
+        event.retry = this.retry;
+      }
+      events.push(event);
+    }
+
+    this.resetEvent();
+  }
+
+  private checkSize(): void {
+    const maxEventSize = this.options.maxEventSize;
+    if (maxEventSize === undefined || this.dataSize + this.line.length <= maxEventSize) {
+      return;
+    }
+
+    // Drop the whole event; remaining lines are only counted until the
+    // blank line that ends it
+    this.dataSize += this.line.length;
+    this.line = '';
+    this.data = [];
+    this.oversized = true;
+    this.lineSkipped = true;
+  }
+
+  private resetEvent(): void {
+    this.data = [];
+    this.dataSize = 0;
+    this.eventType = '';
+    this.oversized = false;
+  }
+}
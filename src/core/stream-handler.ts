@@ -1,6 +1,9 @@
 import { Readable, Writable } from 'stream';
 import { EventEmitter } from 'events';
-import { JsonStreamParser } from './json-parser';
+import { StringDecoder } from 'string_decoder';
+import { JsonStreamParser, ParseDiagnostic } from './json-parser';
+import { StreamEventNormalizer } from './event-normalizer';
+import { QueryEvent } from '../types/events';
 
 /**
  * Stream metrics interface
@@ -13,6 +16,28 @@ export interface StreamMetrics {
   latency: number;
 }
 
+/**
+ * Options for a processing tap
+ */
+export interface ProcessingOptions {
+  // Remove ANSI escape sequences before parsing (PTY output)
+  stripAnsi?: boolean;
+  // Report text between JSON values as dropped output; only for sources
+  // that should be pure JSON, such as `--output-format stream-json`
+  reportNoise?: boolean;
+}
+
+// CSI, OSC and two-character escape sequences
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1B(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1B]*(?:\x07|\x1B\\)|[@-Z\\-_])/g;
+
+/**
+ * Remove ANSI escape sequences and carriage returns from terminal output
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '').replace(/\r/g, '');
+}
+
 /**
  * StreamHandler implements zero-latency passthrough with decoupled processing
  *
@@ -22,8 +47,14 @@ export interface StreamMetrics {
  * - Error isolation - processing errors don't affect passthrough
  * - Metrics tracking for monitoring
  * - Backpressure handling without affecting main stream
+ * - Optional normalization of parsed messages into typed QueryEvents
+ * - Parser diagnostics published as `parse-error` events; noise between
+ *   values only with `reportNoise`, and at most once per
+ *   NOISE_REPORT_INTERVAL
  */
 export class StreamHandler {
+  static readonly NOISE_REPORT_INTERVAL = 1000;
+
   private metrics: StreamMetrics = {
     bytesProcessed: 0,
     eventsEmitted: 0,
@@ -34,13 +65,20 @@ export class StreamHandler {
 
   private processingListeners: Map<Readable, (...args: any[]) => void> = new Map();
   private errorListeners: Map<Readable, (...args: any[]) => void> = new Map();
+  private endListeners: Map<Readable, () => void> = new Map();
   private passthroughStreams: Map<Readable, Writable> = new Map();
   private lastBackpressureCount = 0;
+  private lastActivity?: number;
+  private diagnosticListeners: Array<(diagnostics: ParseDiagnostic[]) => void> = [];
+  private lastNoiseReport = 0;
+  // Noise diagnostics held back by the interval since the last report
+  private suppressedNoise = 0;
   private readonly BACKPRESSURE_WARNING_THRESHOLD = 10;
 
   constructor(
     private eventBus: EventEmitter,
-    private parser: JsonStreamParser
+    private parser: JsonStreamParser,
+    private normalizer?: StreamEventNormalizer
   ) {}
 
   /**
@@ -64,30 +102,29 @@ export class StreamHandler {
    *
    * @param source - Readable stream to process
    * @param processor - Optional processor stream (for testing)
+   * @param options - Processing options (e.g., ANSI stripping for PTY output)
    */
-  setupProcessing(source: Readable, processor?: Writable): void {
+  setupProcessing(source: Readable, processor?: Writable, options: ProcessingOptions = {}): void {
+    // The parser decodes Buffers itself, keeping characters split across
+    // chunks intact; ANSI stripping needs text, so it decodes here instead
+    const decoder = options.stripAnsi ? new StringDecoder('utf8') : undefined;
+
     // Create data listener for processing
     const dataListener = (chunk: Buffer | string) => {
       const startTime = Date.now();
+      this.lastActivity = startTime;
 
       try {
         // Update metrics
         const chunkSize = Buffer.isBuffer(chunk) ? chunk.length : Buffer.byteLength(chunk);
         this.metrics.bytesProcessed += chunkSize;
 
-        // Convert chunk to string for parser (JsonStreamParser handles both, but test expects string)
-        const chunkStr = Buffer.isBuffer(chunk) ? chunk.toString('utf8') : chunk;
+        const input = decoder
+          ? stripAnsi(Buffer.isBuffer(chunk) ? decoder.write(chunk) : chunk)
+          : chunk;
 
         // Parse JSON chunks
-        const events = this.parser.parse(chunkStr);
-
-        // Emit parsed events (ensure events is iterable)
-        if (events && Array.isArray(events)) {
-          for (const event of events) {
-            this.eventBus.emit('data', event);
-            this.metrics.eventsEmitted++;
-          }
-        }
+        this.emitParsed(this.parser.parse(input), options);
 
         // Update latency metric
         const processingTime = Date.now() - startTime;
@@ -115,13 +152,121 @@ export class StreamHandler {
       this.eventBus.emit('error', error);
     };
 
+    // A value the output stopped inside is only found once it ends
+    const endListener = () => {
+      try {
+        const rest = decoder?.end();
+        if (rest) {
+          this.emitParsed(this.parser.parse(stripAnsi(rest)), options);
+        }
+        this.emitParsed(this.parser.end(), options);
+      } catch (error) {
+        this.metrics.parseErrors++;
+        this.eventBus.emit('error', error);
+      }
+    };
+
     // Add listeners
     source.on('data', dataListener);
     source.on('error', errorListener);
+    source.on('end', endListener);
 
     // Store for cleanup
     this.processingListeners.set(source, dataListener);
     this.errorListeners.set(source, errorListener);
+    this.endListeners.set(source, endListener);
+  }
+
+  /**
+   * Register a callback for parser diagnostics, with raw fragments
+   */
+  onDiagnostics(listener: (diagnostics: ParseDiagnostic[]) => void): void {
+    this.diagnosticListeners.push(listener);
+  }
+
+  /**
+   * Emit parsed messages, then report what the parser dropped
+   */
+  private emitParsed(events: unknown[], options: ProcessingOptions): void {
+    // Emit parsed events (ensure events is iterable)
+    if (events && Array.isArray(events)) {
+      for (const event of events) {
+        this.eventBus.emit('data', event);
+        this.metrics.eventsEmitted++;
+
+        if (this.normalizer) {
+          for (const queryEvent of this.normalizer.normalize(event)) {
+            this.publish(queryEvent);
+          }
+        }
+      }
+    }
+
+    this.reportDiagnostics(this.parser.takeDiagnostics(), options.reportNoise === true);
+  }
+
+  /**
+   * Count dropped output and publish a `parse-error` event
+   *
+   * The event carries offsets and sizes plus the parser's running counts;
+   * raw fragments only go to diagnostics listeners. Noise is left out
+   * unless `reportNoise`, and then reported at most once per
+   * NOISE_REPORT_INTERVAL; the event after a quiet spell carries
+   * `suppressedNoise`, the number held back.
+   */
+  private reportDiagnostics(all: ParseDiagnostic[], reportNoise: boolean): void {
+    const noise = all.filter(d => d.kind === 'dropped' && d.reason === 'noise');
+    let diagnostics = all;
+
+    if (noise.length > 0) {
+      const now = Date.now();
+      if (reportNoise && now - this.lastNoiseReport >= StreamHandler.NOISE_REPORT_INTERVAL) {
+        this.lastNoiseReport = now;
+      } else {
+        if (reportNoise) this.suppressedNoise += noise.length;
+        diagnostics = all.filter(d => !noise.includes(d));
+      }
+    }
+
+    if (diagnostics.length === 0) {
+      return;
+    }
+
+    this.metrics.parseErrors += diagnostics.filter(d => d.kind !== 'recovery').length;
+
+    for (const listener of this.diagnosticListeners) {
+      try {
+        listener(diagnostics);
+      } catch {
+        // A failing listener must not stop event processing
+      }
+    }
+
+    const data = {
+      diagnostics: diagnostics.map(({ fragment: _fragment, ...rest }) => rest),
+      counts: this.parser.getStats(),
+      ...(this.suppressedNoise > 0 ? { suppressedNoise: this.suppressedNoise } : {})
+    };
+    this.suppressedNoise = 0;
+
+    if (this.normalizer) {
+      this.publish(this.normalizer.createSessionEvent('parse-error', data));
+    } else {
+      this.eventBus.emit('parse-error', data);
+    }
+  }
+
+  /**
+   * Publish a normalized event, preferring EventBus.emitEvent when available
+   */
+  private publish(event: QueryEvent): void {
+    const bus = this.eventBus as EventEmitter & { emitEvent?: (event: QueryEvent) => void };
+
+    if (typeof bus.emitEvent === 'function') {
+      bus.emitEvent(event);
+    } else {
+      bus.emit(event.type, event);
+    }
   }
 
   /**
@@ -151,6 +296,15 @@ export class StreamHandler {
     return { ...this.metrics };
   }
 
+  /**
+   * Get the time the last chunk arrived on a processed stream
+   *
+   * @returns Epoch milliseconds, or undefined before the first chunk
+   */
+  getLastActivity(): number | undefined {
+    return this.lastActivity;
+  }
+
   /**
    * Clean up all stream connections and listeners
    */
@@ -169,6 +323,9 @@ export class StreamHandler {
     this.errorListeners.forEach((listener, source) => {
       source.removeListener('error', listener);
     });
+    this.endListeners.forEach((listener, source) => {
+      source.removeListener('end', listener);
+    });
 
     // Remove all other listeners
     this.processingListeners.forEach((_, source) => {
@@ -179,9 +336,13 @@ export class StreamHandler {
     this.passthroughStreams.clear();
     this.processingListeners.clear();
     this.errorListeners.clear();
+    this.endListeners.clear();
 
-    // Reset parser
+    // Reset parser and normalizer
     this.parser.reset();
+    this.normalizer?.reset();
+    this.lastNoiseReport = 0;
+    this.suppressedNoise = 0;
 
     // Reset metrics
     this.metrics = {
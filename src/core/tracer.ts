@@ -0,0 +1,163 @@
+import { appendFile } from 'fs/promises';
+import { Attributes, Span, Tracer as OtelTracer, trace, ROOT_CONTEXT } from '@opentelemetry/api';
+import { ExportResult, ExportResultCode } from '@opentelemetry/core';
+import { Resource } from '@opentelemetry/resources';
+import { BasicTracerProvider, BatchSpanProcessor, ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { JsonTraceSerializer } from '@opentelemetry/otlp-transformer';
+
+export interface SpanOptions {
+  // Omit to start a new trace
+  parent?: Span;
+  attributes?: Attributes;
+}
+
+export interface TracerOptions {
+  serviceName?: string;
+  serviceVersion?: string;
+  // Export once this many spans have finished (default 512)
+  batchSize?: number;
+  // Export failures; tracing never fails the session
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Tracer records spans with the OpenTelemetry SDK and exports them as OTLP
+ *
+ * Finished spans are buffered and exported in batches, and on flush().
+ * Spans can be bound to a key (e.g., a correlationId) so code that only
+ * sees an event can find the trace it belongs to.
+ */
+export class Tracer {
+  static readonly DEFAULT_BATCH_SIZE = 512;
+
+  private provider: BasicTracerProvider;
+  private tracer: OtelTracer;
+  private bound: Map<string, Span> = new Map();
+
+  constructor(exporter: SpanExporter, options: TracerOptions = {}) {
+    const batchSize = options.batchSize ?? Tracer.DEFAULT_BATCH_SIZE;
+
+    this.provider = new BasicTracerProvider({
+      resource: new Resource({
+        'service.name': options.serviceName ?? 'claudeware',
+        ...(options.serviceVersion && { 'service.version': options.serviceVersion })
+      })
+    });
+    this.provider.addSpanProcessor(new BatchSpanProcessor(
+      new ReportingExporter(exporter, options.onError),
+      { maxExportBatchSize: batchSize, maxQueueSize: Math.max(batchSize, 2048) }
+    ));
+    this.tracer = this.provider.getTracer('claudeware', options.serviceVersion);
+  }
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parentContext = options.parent ? trace.setSpan(ROOT_CONTEXT, options.parent) : ROOT_CONTEXT;
+    return this.tracer.startSpan(name, { attributes: options.attributes }, parentContext);
+  }
+
+  /**
+   * Make `span` the parent for work keyed by `key`
+   */
+  bind(key: string, span: Span): void {
+    this.bound.set(key, span);
+  }
+
+  spanFor(key: string | undefined): Span | undefined {
+    return key === undefined ? undefined : this.bound.get(key);
+  }
+
+  /**
+   * Export every finished span
+   */
+  async flush(): Promise<void> {
+    try {
+      await this.provider.forceFlush();
+    } catch {
+      // Already reported through onError
+    }
+  }
+
+  /**
+   * End spans still bound to a key, then export everything
+   */
+  async shutdown(): Promise<void> {
+    for (const span of this.bound.values()) {
+      span.end();
+    }
+    this.bound.clear();
+    await this.flush();
+    await this.provider.shutdown();
+  }
+}
+
+/**
+ * Reports failed exports to the tracer's onError
+ */
+class ReportingExporter implements SpanExporter {
+  constructor(
+    private exporter: SpanExporter,
+    private onError?: (error: Error) => void
+  ) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    this.exporter.export(spans, result => {
+      if (result.code === ExportResultCode.FAILED) {
+        this.onError?.(result.error ?? new Error('Trace export failed'));
+      }
+      resultCallback(result);
+    });
+  }
+
+  shutdown(): Promise<void> {
+    return this.exporter.shutdown();
+  }
+
+  forceFlush(): Promise<void> {
+    return this.exporter.forceFlush?.() ?? Promise.resolve();
+  }
+}
+
+/**
+ * Appends each export to a file as one line of OTLP/JSON
+ * (ExportTraceServiceRequest)
+ */
+export class OtlpFileExporter implements SpanExporter {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const line = Buffer.concat([Buffer.from(JsonTraceSerializer.serializeRequest(spans) ?? []), Buffer.from('\n')]);
+
+    this.writing = this.writing
+      .then(() => appendFile(this.filePath, line))
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        error => resultCallback({ code: ExportResultCode.FAILED, error })
+      );
+  }
+
+  async shutdown(): Promise<void> {
+    await this.writing;
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.writing;
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+}
+
+/**
+ * Pick an exporter for a trace target: http(s) URLs go to an OTLP/HTTP
+ * collector (e.g., http://localhost:4318/v1/traces), anything else is a
+ * file path
+ */
+export function createSpanExporter(target: string): SpanExporter {
+  return /^https?:\/\//.test(target)
+    ? new OTLPTraceExporter({ url: target, timeoutMillis: 5000 })
+    : new OtlpFileExporter(target);
+}
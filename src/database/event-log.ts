@@ -0,0 +1,237 @@
+import Database from 'better-sqlite3';
+import { QueryEvent, EventFilter } from '../types';
+
+export interface EventLogConfig {
+  path: string;
+  // Retention limits; events beyond either are pruned
+  maxEvents?: number;
+  maxAgeMs?: number;
+  walMode?: boolean;
+  // Failures of writes flushed after append() returned
+  onError?: (error: Error) => void;
+}
+
+interface EventLogRow {
+  id: string;
+  type: QueryEvent['type'];
+  topic: string;
+  session_id: string | null;
+  timestamp: number;
+  data: string | null;
+  metadata: string | null;
+}
+
+// A row as read back, with its place in emit order
+interface StoredEventLogRow extends EventLogRow {
+  seq: number;
+}
+
+/**
+ * SqliteEventLog keeps every emitted event in an `event_log` table so
+ * subscribers can replay history from earlier sessions
+ *
+ * It can share the SqliteAdapter database file or use its own. Appends are
+ * queued in emit order and written in one transaction per tick, or as soon
+ * as MAX_PENDING are queued; reads flush the queue first. Retention limits
+ * are applied on init and every PRUNE_INTERVAL appends.
+ */
+export class SqliteEventLog {
+  static readonly PRUNE_INTERVAL = 1000;
+  static readonly MAX_PENDING = 1000;
+
+  private db!: Database.Database;
+  private insertAll!: (rows: EventLogRow[]) => void;
+  private pending: EventLogRow[] = [];
+  private scheduledFlush?: NodeJS.Immediate;
+  private appendsSincePrune = 0;
+
+  constructor(private config: EventLogConfig) {}
+
+  async init(): Promise<void> {
+    try {
+      this.db = new Database(this.config.path);
+
+      if (this.config.walMode !== false) {
+        this.db.pragma('journal_mode = WAL');
+      }
+
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS event_log (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          topic TEXT NOT NULL,
+          session_id TEXT,
+          timestamp INTEGER NOT NULL,
+          data TEXT,
+          metadata TEXT
+        )
+      `);
+      this.db.exec('CREATE INDEX IF NOT EXISTS idx_event_log_id ON event_log(id)');
+      this.db.exec('CREATE INDEX IF NOT EXISTS idx_event_log_timestamp ON event_log(timestamp)');
+      this.db.exec('CREATE INDEX IF NOT EXISTS idx_event_log_session ON event_log(session_id)');
+
+      const insert = this.db.prepare(`
+        INSERT INTO event_log (id, type, topic, session_id, timestamp, data, metadata)
+        VALUES (@id, @type, @topic, @session_id, @timestamp, @data, @metadata)
+      `);
+      this.insertAll = this.db.transaction((rows: EventLogRow[]) => {
+        for (const row of rows) {
+          insert.run(row);
+        }
+      });
+
+      this.prune();
+    } catch (error) {
+      throw new Error(`Failed to initialize event log: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Queue an event under its routing topic
+   *
+   * The event is serialized now, so later changes to it aren't logged.
+   *
+   * @throws If the event can't be serialized, or a flush forced by
+   *   MAX_PENDING fails
+   */
+  append(event: QueryEvent, topic: string = event.type): void {
+    this.pending.push({
+      id: event.id,
+      type: event.type,
+      topic,
+      session_id: event.metadata?.sessionId ?? null,
+      timestamp: event.timestamp,
+      data: event.data === undefined ? null : JSON.stringify(event.data),
+      metadata: event.metadata ? JSON.stringify(event.metadata) : null
+    });
+
+    if (this.pending.length >= SqliteEventLog.MAX_PENDING) {
+      this.flush();
+    } else if (!this.scheduledFlush) {
+      this.scheduledFlush = setImmediate(() => {
+        try {
+          this.flush();
+        } catch (error) {
+          this.config.onError?.(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+    }
+  }
+
+  /**
+   * Write queued events in one transaction
+   *
+   * @throws If the write fails; the queued events are lost
+   */
+  flush(): void {
+    if (this.scheduledFlush) {
+      clearImmediate(this.scheduledFlush);
+      this.scheduledFlush = undefined;
+    }
+    if (this.pending.length === 0) return;
+
+    const rows = this.pending;
+    this.pending = [];
+    this.insertAll(rows);
+
+    this.appendsSincePrune += rows.length;
+    if (this.appendsSincePrune >= SqliteEventLog.PRUNE_INTERVAL) {
+      this.prune();
+    }
+  }
+
+  /**
+   * Read logged events in emit order
+   *
+   * `type` matches the event type or topic exactly; patterns are left to
+   * the caller.
+   */
+  query(filter: EventFilter = {}): QueryEvent[] {
+    this.flush();
+
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (filter.type) {
+      conditions.push('(type = @type OR topic = @type)');
+      params.type = filter.type;
+    }
+    if (filter.sessionId) {
+      conditions.push('session_id = @sessionId');
+      params.sessionId = filter.sessionId;
+    }
+    if (filter.since !== undefined) {
+      conditions.push('timestamp >= @since');
+      params.since = filter.since;
+    }
+    if (filter.until !== undefined) {
+      conditions.push('timestamp <= @until');
+      params.until = filter.until;
+    }
+    if (filter.afterEventId) {
+      conditions.push('seq > COALESCE((SELECT MAX(seq) FROM event_log WHERE id = @afterEventId), 0)');
+      params.afterEventId = filter.afterEventId;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT * FROM event_log ${where} ORDER BY seq ASC`).all(params) as StoredEventLogRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      type: row.type,
+      timestamp: row.timestamp,
+      data: row.data === null ? undefined : this.parseJSON(row.data),
+      metadata: row.metadata ? this.parseJSON(row.metadata) : undefined
+    }));
+  }
+
+  /**
+   * Delete events beyond the retention limits
+   *
+   * @returns Number of events deleted
+   */
+  prune(now: number = Date.now()): number {
+    this.flush();
+    let deleted = 0;
+
+    if (this.config.maxAgeMs !== undefined) {
+      deleted += this.db
+        .prepare('DELETE FROM event_log WHERE timestamp < ?')
+        .run(now - this.config.maxAgeMs).changes;
+    }
+
+    if (this.config.maxEvents !== undefined) {
+      deleted += this.db
+        .prepare('DELETE FROM event_log WHERE seq <= (SELECT MAX(seq) FROM event_log) - ?')
+        .run(this.config.maxEvents).changes;
+    }
+
+    this.appendsSincePrune = 0;
+    return deleted;
+  }
+
+  count(): number {
+    this.flush();
+    return (this.db.prepare('SELECT COUNT(*) AS count FROM event_log').get() as { count: number }).count;
+  }
+
+  async close(): Promise<void> {
+    try {
+      if (this.db) {
+        this.flush();
+        this.db.close();
+      }
+    } catch {
+      // Closing is best-effort during shutdown
+    }
+  }
+
+  private parseJSON(json: string): any {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -1 +1,2 @@
-export { SqliteAdapter } from './sqlite-adapter';
\ No newline at end of file
+export { SqliteAdapter } from './sqlite-adapter';
+export { SqliteEventLog, EventLogConfig } from './event-log';
\ No newline at end of file
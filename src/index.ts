@@ -4,8 +4,8 @@
  * Provides TypeScript exports for the Claudeware middleware system.
  */
 
-// Re-export existing JavaScript modules
-export { ClaudeWrapper } from './wrapper';
+// Wrapper and SDK entry points
+export { ClaudeWrapper, WrapperMetrics, ExitStatus } from './wrapper';
 export { createWrappedSDK, SDKWrapperAdapter } from './sdk';
 
 // Export plugin infrastructure - using the original Plugin interface from types/plugin.ts
@@ -21,26 +21,94 @@ export {
   QueryBuilder,
   QueryFactory,
   ContractManager,
-  PermissionValidator
+  PermissionValidator,
+  PermissionError
 } from './plugins/infrastructure';
 
 // Export event bus and plugin loader
-export { EventBus } from './plugins/event-bus';
-export { PluginLoader, PluginMetrics } from './plugins/plugin-loader';
+export { EventBus, TypedEventListener, TypedEventType, ListenerOptions, topicMatches } from './plugins/event-bus';
+export {
+  ListenerQueue,
+  ListenerQueueOptions,
+  ListenerQueueMetrics,
+  QueueOverflowPolicy
+} from './plugins/listener-queue';
+export {
+  EventBridgeDaemon,
+  EventBridgePublisher,
+  EventBridgeSubscriber,
+  BridgeSubscription,
+  BridgeDaemonStats
+} from './plugins/event-bridge';
+export {
+  PluginLoader,
+  PluginMetrics,
+  PluginSelection,
+  PluginStartup,
+  QueryInterception,
+  QueryRejectedError
+} from './plugins/plugin-loader';
+export {
+  PluginConfigError,
+  PluginConfigSources,
+  resolvePluginConfig,
+  pluginConfigEnvVar,
+  parsePluginConfigOverride
+} from './plugins/plugin-config';
+export {
+  CompatibilityProblem,
+  PluginCompatibilityError,
+  checkCompatibility,
+  formatCompatibilityReport
+} from './plugins/plugin-compatibility';
+export { IsolatedPlugin, IsolatedPluginOptions } from './plugins/isolated-plugin';
+export {
+  PLUGIN_KEYWORD,
+  PluginPackageJson,
+  isPluginPackage,
+  manifestFromPackage
+} from './plugins/package-plugins';
+export {
+  CAPABILITIES,
+  Capability,
+  grantedCapabilities,
+  scopeContext,
+  formatCapabilitySummary
+} from './plugins/plugin-capabilities';
 
 // Export types - explicit exports to avoid conflicts
 export {
   // Event types
   EventMetadata,
   QueryEvent,
+  QueryEventMap,
+  QueryEventType,
+  PluginEventType,
+  EventFilter,
+  QueryEventUnion,
+  TypedQueryEvent,
+  ValidQueryEvent,
+  QueryPayload,
+  QueryMessage,
+  ResponsePayload,
+  ResponseDeltaPayload,
+  ToolUsePayload,
+  ErrorPayload,
+  ParseErrorPayload,
+  ContentBlock,
+  TokenUsage,
   OptimizationSuggestion,
   // Plugin types from types/plugin.ts (the canonical source)
   Plugin,
   PluginContext,
   PluginManifest,
+  PluginConfigOption,
+  PluginResourceLimits,
   PluginFactory,
   PluginLoadResult,
   PluginError,
+  QueryRequest,
+  BeforeQueryResult,
   // Database types
   DataStore,
   QueryStats,
@@ -60,13 +128,44 @@ export {
 
 // Export specific database items from database module
 export {
-  SqliteAdapter
+  SqliteAdapter,
+  SqliteEventLog,
+  EventLogConfig
 } from './database';
 
 // Export core implementations
 export { StreamHandler } from './core/stream-handler';
-export { JsonStreamParser } from './core/json-parser';
-export { ProcessManager } from './core/process-manager';
+export { JsonStreamParser, ParserStats, ParsedSseEvent, ParseDiagnostic } from './core/json-parser';
+export { ParseQuarantine, QuarantineEntry } from './core/parse-quarantine';
+export {
+  SessionRecorder,
+  SessionRecording,
+  RecordingHeader,
+  RecordedChunk,
+  RecordedExit,
+  RecordedChannel,
+  readSessionRecording,
+  decodeRecordedChunk
+} from './core/session-recorder';
+export { SessionReplayer, ReplayOptions } from './core/session-replayer';
+export { SseDecoder, SseDecoderOptions, SseEvent } from './core/sse-decoder';
+export {
+  MessageAccumulator,
+  AccumulatedMessage,
+  AccumulatedBlock,
+  MessageDelta,
+  AccumulatorResult
+} from './core/message-accumulator';
+export { ProcessManager, WatchdogOptions, WatchdogReason } from './core/process-manager';
+export { StreamEventNormalizer, NormalizerOptions, QueryContext } from './core/event-normalizer';
+export { PromptCapture, ClaudeArgs, PromptOrigin } from './core/prompt-capture';
+export {
+  Tracer,
+  TracerOptions,
+  SpanOptions,
+  OtlpFileExporter,
+  createSpanExporter
+} from './core/tracer';
 
 // Re-export events types that are used across modules
 export { QueryRecord, ResponseRecord } from './types/events';
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { Plugin, PluginManifest, PluginContext } from '../../types';
 import {
   QueryEvent,
+  QueryEventUnion,
+  QueryPayload,
+  TypedQueryEvent,
   QueryRecord,
   ResponseRecord,
   OptimizationSuggestion
@@ -29,7 +32,7 @@ export class QueryCollectorPlugin implements Plugin {
     dependencies: [],
     priority: 50,
     timeout: 5000,
-    capabilities: ['query-analysis', 'optimization-suggestions']
+    capabilities: ['query-analysis', 'optimization-suggestions', 'db:write']
   };
 
   private cache: LRUCache<string, CategoryResult>;
@@ -68,16 +71,18 @@ export class QueryCollectorPlugin implements Plugin {
   }
 
   async onEvent(event: QueryEvent, context: PluginContext): Promise<void> {
+    const typed = event as QueryEventUnion;
+
     try {
-      switch (event.type) {
+      switch (typed.type) {
         case 'query':
-          await this.handleQueryEvent(event, context);
+          await this.handleQueryEvent(typed, context);
           break;
         case 'response':
-          await this.handleResponseEvent(event, context);
-          break;
         case 'error':
-          await this.handleErrorEvent(event, context);
+          if (!typed.metadata.intermediate) {
+            await this.handleResponseEvent(typed, context);
+          }
           break;
       }
     } catch (error) {
@@ -100,28 +105,10 @@ export class QueryCollectorPlugin implements Plugin {
     return this.initialized;
   }
 
-  private async handleQueryEvent(event: QueryEvent, context: PluginContext): Promise<void> {
+  private async handleQueryEvent(event: TypedQueryEvent<'query'>, context: PluginContext): Promise<void> {
     const { data, metadata } = event;
 
-    if (!data || !data.messages && !data.content) {
-      context.logger.error({ eventId: event.id }, 'Missing query data');
-      return;
-    }
-
-    // Extract query text
-    let query = '';
-    if (data.content) {
-      query = data.content;
-    } else if (data.messages && Array.isArray(data.messages)) {
-      // Find the last user message
-      for (let i = data.messages.length - 1; i >= 0; i--) {
-        if (data.messages[i].role === 'user') {
-          query = data.messages[i].content;
-          break;
-        }
-      }
-    }
-
+    const query = this.extractQueryText(data);
     if (!query) {
       context.logger.error({ eventId: event.id }, 'Could not extract query text');
       return;
@@ -162,37 +149,38 @@ export class QueryCollectorPlugin implements Plugin {
     }
   }
 
-  private async handleResponseEvent(event: QueryEvent, context: PluginContext): Promise<void> {
-    const { data, metadata } = event;
+  private async handleResponseEvent(
+    event: TypedQueryEvent<'response'> | TypedQueryEvent<'error'>,
+    context: PluginContext
+  ): Promise<void> {
+    const { metadata } = event;
     const queryId = metadata.queryId || '';
 
-    // Extract response text
     let responseText = '';
     let inputTokens = 0;
     let outputTokens = 0;
     let finishReason = '';
     let errorMessage = '';
-
-    if (data.error) {
-      errorMessage = `${data.error.type}: ${data.error.message}`;
-    } else {
-      // Extract response content
-      if (data.content && Array.isArray(data.content)) {
-        responseText = data.content
-          .filter((c: any) => c.type === 'text')
-          .map((c: any) => c.text)
-          .join('\n');
-      }
-
-      // Extract token usage
-      if (data.usage) {
-        inputTokens = data.usage.input_tokens || 0;
-        outputTokens = data.usage.output_tokens || 0;
-      }
-
+    let model = 'unknown';
+
+    if (event.data.error) {
+      errorMessage = `${event.data.error.type}: ${event.data.error.message}`;
+    } else if (event.type === 'response') {
+      const { data } = event;
+
+      responseText = (data.content ?? [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join('\n');
+      inputTokens = data.usage?.input_tokens || 0;
+      outputTokens = data.usage?.output_tokens || 0;
       finishReason = data.stop_reason || '';
     }
 
+    if (event.type === 'response' && event.data.model) {
+      model = event.data.model;
+    }
+
     // Create response record
     const responseRecord: ResponseRecord = {
       id: event.id,
@@ -200,7 +188,7 @@ export class QueryCollectorPlugin implements Plugin {
       sessionId: metadata.sessionId,
       timestamp: event.timestamp,
       response: responseText,
-      model: data.model || 'unknown',
+      model,
       inputTokens,
       outputTokens,
       latencyMs: metadata.latencyMs,
@@ -242,9 +230,22 @@ export class QueryCollectorPlugin implements Plugin {
     }
   }
 
-  private async handleErrorEvent(event: QueryEvent, context: PluginContext): Promise<void> {
-    // Error events are handled in handleResponseEvent
-    await this.handleResponseEvent(event, context);
+  /**
+   * The prompt text: the last user message, or `content` from emitters that
+   * send a bare prompt
+   */
+  private extractQueryText(data: QueryPayload & { content?: string }): string {
+    if (typeof data?.content === 'string') {
+      return data.content;
+    }
+
+    const messages = Array.isArray(data?.messages) ? data.messages : [];
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === 'user') {
+        return messages[i].content;
+      }
+    }
+    return '';
   }
 
   private categorizeQuery(query: string): CategoryResult {
@@ -0,0 +1,385 @@
+import * as net from 'net';
+import * as fs from 'fs/promises';
+import { EventEmitter } from 'events';
+import { createInterface } from 'readline';
+import { QueryEvent } from '../types';
+import { topicMatches } from './event-bus';
+
+/**
+ * Control line a subscriber sends to the daemon; sending another replaces
+ * the previous filter
+ */
+export interface BridgeSubscription {
+  op: 'subscribe';
+  // Types, topics or patterns as accepted by EventBus.on (default: all)
+  topics?: string[];
+  // Only events from these sessions (default: all)
+  sessionIds?: string[];
+}
+
+export interface BridgeDaemonStats {
+  connections: number;
+  subscribers: number;
+  eventsReceived: number;
+  eventsDelivered: number;
+  // Events not sent to a subscriber that stopped reading
+  eventsDropped: number;
+  invalidLines: number;
+}
+
+// How long close() waits for pending writes before dropping them
+const CLOSE_TIMEOUT = 1000;
+
+interface BridgeClient {
+  socket: net.Socket;
+  subscription?: BridgeSubscription;
+}
+
+/**
+ * EventBridgeDaemon fans out events between claudeware processes over a
+ * Unix domain socket
+ *
+ * The protocol is NDJSON in both directions. A line with `op: 'subscribe'`
+ * makes the connection a subscriber; any other line is a QueryEvent to
+ * publish. Each event goes to every other connection whose subscription
+ * matches it. Subscribers that fall more than MAX_PENDING_BYTES behind
+ * lose events rather than slow the publishers down.
+ */
+export class EventBridgeDaemon extends EventEmitter {
+  static readonly MAX_PENDING_BYTES = 1024 * 1024;
+
+  private server?: net.Server;
+  private clients: Set<BridgeClient> = new Set();
+  private stats: BridgeDaemonStats = {
+    connections: 0,
+    subscribers: 0,
+    eventsReceived: 0,
+    eventsDelivered: 0,
+    eventsDropped: 0,
+    invalidLines: 0
+  };
+
+  constructor(private socketPath: string) {
+    super();
+  }
+
+  /**
+   * Start listening, replacing a stale socket file left by a daemon that
+   * did not shut down cleanly
+   *
+   * @throws If another daemon is already listening on the socket
+   */
+  async listen(): Promise<void> {
+    if (await isListening(this.socketPath)) {
+      throw new Error(`A daemon is already listening on ${this.socketPath}`);
+    }
+    await fs.unlink(this.socketPath).catch(() => {});
+
+    const server = net.createServer(socket => this.accept(socket));
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  getStats(): BridgeDaemonStats {
+    return {
+      ...this.stats,
+      connections: this.clients.size,
+      subscribers: Array.from(this.clients).filter(client => client.subscription).length
+    };
+  }
+
+  getSocketPath(): string {
+    return this.socketPath;
+  }
+
+  /**
+   * Disconnect every client and remove the socket
+   */
+  async close(): Promise<void> {
+    for (const client of this.clients) {
+      client.socket.destroy();
+    }
+    this.clients.clear();
+
+    if (this.server) {
+      const server = this.server;
+      this.server = undefined;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  private accept(socket: net.Socket): void {
+    const client: BridgeClient = { socket };
+    this.clients.add(client);
+    this.emit('connection');
+
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      this.clients.delete(client);
+      this.emit('disconnect', client.subscription !== undefined);
+    });
+
+    const lines = createInterface({ input: socket, crlfDelay: Infinity });
+    lines.on('line', line => this.handleLine(client, line));
+  }
+
+  private handleLine(client: BridgeClient, line: string): void {
+    if (!line.trim()) return;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.stats.invalidLines++;
+      return;
+    }
+
+    if (isSubscription(message)) {
+      client.subscription = message;
+      this.emit('subscribe', message);
+      return;
+    }
+
+    if (!isEvent(message)) {
+      this.stats.invalidLines++;
+      return;
+    }
+
+    this.stats.eventsReceived++;
+    this.fanOut(client, message, line);
+  }
+
+  private fanOut(sender: BridgeClient, event: QueryEvent, line: string): void {
+    for (const client of this.clients) {
+      if (client === sender || !client.subscription || !subscriptionMatches(client.subscription, event)) {
+        continue;
+      }
+
+      if (client.socket.writableLength > EventBridgeDaemon.MAX_PENDING_BYTES) {
+        this.stats.eventsDropped++;
+        continue;
+      }
+
+      client.socket.write(line + '\n');
+      this.stats.eventsDelivered++;
+    }
+  }
+}
+
+/**
+ * EventBridgePublisher sends a process's events to the daemon
+ *
+ * Publishing is best-effort: while no daemon is reachable, events are
+ * dropped and a reconnect is attempted at most every RECONNECT_INTERVAL.
+ * Events are also dropped while more than MAX_PENDING_BYTES wait to be
+ * written, so a daemon that stops reading can't grow the process's memory.
+ * The socket never keeps the process alive.
+ */
+export class EventBridgePublisher {
+  static readonly RECONNECT_INTERVAL = 5000;
+  static readonly MAX_PENDING_BYTES = 1024 * 1024;
+
+  private socket?: net.Socket;
+  private lastAttempt = 0;
+  private published = 0;
+  private dropped = 0;
+
+  constructor(private socketPath: string) {}
+
+  publish(event: QueryEvent): void {
+    const socket = this.connect();
+    if (!socket || socket.writableLength > EventBridgePublisher.MAX_PENDING_BYTES) {
+      this.dropped++;
+      return;
+    }
+
+    let line: string;
+    try {
+      line = JSON.stringify(event);
+    } catch {
+      this.dropped++;
+      return;
+    }
+
+    socket.write(line + '\n');
+    this.published++;
+  }
+
+  getStats(): { published: number; dropped: number; connected: boolean } {
+    return {
+      published: this.published,
+      dropped: this.dropped,
+      connected: !!this.socket && !this.socket.connecting
+    };
+  }
+
+  /**
+   * Flush pending writes and disconnect, giving up on writes still pending
+   * after CLOSE_TIMEOUT ms
+   */
+  async close(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.socket = undefined;
+    await endSocket(socket);
+  }
+
+  private connect(): net.Socket | undefined {
+    if (this.socket) {
+      return this.socket;
+    }
+
+    const now = Date.now();
+    if (now - this.lastAttempt < EventBridgePublisher.RECONNECT_INTERVAL) {
+      return undefined;
+    }
+    this.lastAttempt = now;
+
+    const socket = net.createConnection(this.socketPath);
+    socket.unref();
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = undefined;
+      }
+    });
+
+    this.socket = socket;
+    return socket;
+  }
+}
+
+/**
+ * EventBridgeSubscriber receives other processes' events from the daemon
+ *
+ * Emits `event` for each QueryEvent and `close` when the daemon goes away.
+ */
+export class EventBridgeSubscriber extends EventEmitter {
+  private socket?: net.Socket;
+
+  constructor(
+    private socketPath: string,
+    private filter: Omit<BridgeSubscription, 'op'> = {}
+  ) {
+    super();
+  }
+
+  /**
+   * Connect and send the subscription
+   *
+   * @throws If no daemon is listening on the socket
+   */
+  async connect(): Promise<void> {
+    const socket = net.createConnection(this.socketPath);
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject);
+      socket.once('connect', () => {
+        socket.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.socket = socket;
+    socket.on('error', error => this.emit('error', error));
+    socket.on('close', () => this.emit('close'));
+
+    const lines = createInterface({ input: socket, crlfDelay: Infinity });
+    lines.on('line', line => {
+      try {
+        this.emit('event', JSON.parse(line));
+      } catch {
+        // The daemon only forwards lines that parsed; ignore anything else
+      }
+    });
+
+    this.subscribe(this.filter);
+  }
+
+  /**
+   * Replace the subscription filter
+   */
+  subscribe(filter: Omit<BridgeSubscription, 'op'>): void {
+    this.filter = filter;
+    this.socket?.write(JSON.stringify({ op: 'subscribe', ...filter }) + '\n');
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.socket = undefined;
+    await endSocket(socket);
+  }
+}
+
+/**
+ * End a socket once its writes flush, destroying it if that takes longer
+ * than CLOSE_TIMEOUT
+ */
+function endSocket(socket: net.Socket): Promise<void> {
+  if (socket.destroyed) return Promise.resolve();
+
+  return new Promise<void>(resolve => {
+    const timer = setTimeout(() => socket.destroy(), CLOSE_TIMEOUT);
+    socket.once('close', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    socket.end();
+  });
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isSubscription(message: unknown): message is BridgeSubscription {
+  if (typeof message !== 'object' || message === null) return false;
+
+  const { op, topics, sessionIds } = message as Record<string, unknown>;
+  return op === 'subscribe' &&
+    (topics === undefined || isStringArray(topics)) &&
+    (sessionIds === undefined || isStringArray(sessionIds));
+}
+
+/**
+ * Enough of a QueryEvent to route: subscriptions match on type and session
+ */
+function isEvent(message: unknown): message is QueryEvent {
+  if (typeof message !== 'object' || message === null) return false;
+
+  const { id, type, metadata } = message as Record<string, unknown>;
+  return typeof id === 'string' &&
+    typeof type === 'string' &&
+    (metadata === undefined || (typeof metadata === 'object' && metadata !== null));
+}
+
+function subscriptionMatches(subscription: BridgeSubscription, event: QueryEvent): boolean {
+  if (subscription.sessionIds?.length && !subscription.sessionIds.includes(event.metadata?.sessionId)) {
+    return false;
+  }
+  if (subscription.topics?.length && !subscription.topics.some(topic => topicMatches(topic, event))) {
+    return false;
+  }
+  return true;
+}
+
+function isListening(socketPath: string): Promise<boolean> {
+  return new Promise(resolve => {
+    const probe = net.createConnection(socketPath);
+    probe.once('connect', () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once('error', () => resolve(false));
+  });
+}
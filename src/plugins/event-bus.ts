@@ -1,18 +1,39 @@
 import { EventEmitter } from 'events';
-import { QueryEvent } from '../types';
+import { QueryEvent, QueryEventType, TypedQueryEvent, ValidQueryEvent, EventFilter } from '../types';
+import type { SqliteEventLog } from '../database/event-log';
+import type { EventBridgePublisher } from './event-bridge';
+import { ListenerQueue, ListenerQueueOptions, ListenerQueueMetrics } from './listener-queue';
 
 type EventListener = (event: QueryEvent) => void | Promise<void>;
 
+/**
+ * Listener for one event type, receiving that type's payload
+ */
+export type TypedEventListener<K extends QueryEventType> = (event: TypedQueryEvent<K>) => void | Promise<void>;
+
+/**
+ * Event types with typed listeners. `error` is left out: `on('error')`
+ * subscribes to listener failures on the native channel, so error
+ * QueryEvents reach only `'*'` listeners.
+ */
+export type TypedEventType = Exclude<QueryEventType, 'error'>;
+
 interface ListenerConfig {
   listener: EventListener;
   options?: ListenerOptions;
   once?: boolean;
+  queue?: ListenerQueue;
 }
 
-interface ListenerOptions {
+export interface ListenerOptions {
   filter?: (event: QueryEvent) => boolean;
-  replay?: boolean;
+  // true replays the in-memory buffer; a filter replays from the event log
+  // when one is attached (e.g., `{ since: lastWeek }`)
+  replay?: boolean | EventFilter;
   priority?: number;
+  // Deliver through a bounded queue so a slow listener neither blocks
+  // emitEventAsync nor piles up unawaited work (true: default options)
+  queue?: boolean | ListenerQueueOptions;
 }
 
 export interface EventMetrics {
@@ -20,6 +41,8 @@ export interface EventMetrics {
   eventCounts: Record<string, number>;
   listenerCounts: Record<string, number>;
   errorCount: number;
+  // Per queued listener, keyed by queue name
+  queues: Record<string, ListenerQueueMetrics>;
 }
 
 export class EventBus extends EventEmitter {
@@ -28,8 +51,12 @@ export class EventBus extends EventEmitter {
 
   private eventListeners: Map<string, Set<ListenerConfig>>;
   private wildcardListeners: Set<ListenerConfig>;
+  private patterns: Map<string, string[]> = new Map();
   private replayBuffer?: QueryEvent[];
   private replayBufferSize?: number;
+  private queues: Map<string, ListenerQueue> = new Map();
+  private eventLog?: SqliteEventLog;
+  private bridge?: EventBridgePublisher;
   private metrics: EventMetrics;
 
   constructor() {
@@ -41,16 +68,21 @@ export class EventBus extends EventEmitter {
       totalEvents: 0,
       eventCounts: {},
       listenerCounts: {},
-      errorCount: 0
+      errorCount: 0,
+      queues: {}
     };
   }
 
   /**
    * Emit a QueryEvent to all registered listeners
+   *
+   * `data` is checked against QueryEventMap for the event's type at compile
+   * time; events typed as the plain QueryEvent are not checked.
    */
-  emitEvent(event: QueryEvent): void {
+  emitEvent<E extends QueryEvent>(event: ValidQueryEvent<E>): void {
+    const topic = EventBus.topicOf(event);
     this.metrics.totalEvents++;
-    this.metrics.eventCounts[event.type] = (this.metrics.eventCounts[event.type] || 0) + 1;
+    this.countTopic(topic);
 
     // Store in replay buffer if enabled
     if (this.replayBuffer && this.replayBufferSize) {
@@ -60,12 +92,13 @@ export class EventBus extends EventEmitter {
         this.replayBuffer = this.replayBuffer.slice(-this.replayBufferSize);
       }
     }
+    this.logEvent(event, topic);
+    this.bridge?.publish(event);
 
-    // Emit to type-specific listeners
-    const typeListeners = this.eventListeners.get(event.type);
-    if (typeListeners) {
-      for (const config of typeListeners) {
-        this.invokeListener(config, event, event.type);
+    // Emit to topic and pattern listeners
+    for (const [key, listeners] of this.matchingListeners(event, topic)) {
+      for (const config of listeners) {
+        this.invokeListener(config, event, key);
       }
     }
 
@@ -78,9 +111,10 @@ export class EventBus extends EventEmitter {
   /**
    * Emit a QueryEvent asynchronously, waiting for all async listeners
    */
-  async emitEventAsync(event: QueryEvent): Promise<void> {
+  async emitEventAsync<E extends QueryEvent>(event: ValidQueryEvent<E>): Promise<void> {
+    const topic = EventBus.topicOf(event);
     this.metrics.totalEvents++;
-    this.metrics.eventCounts[event.type] = (this.metrics.eventCounts[event.type] || 0) + 1;
+    this.countTopic(topic);
 
     // Store in replay buffer if enabled
     if (this.replayBuffer && this.replayBufferSize) {
@@ -89,14 +123,15 @@ export class EventBus extends EventEmitter {
         this.replayBuffer = this.replayBuffer.slice(-this.replayBufferSize);
       }
     }
+    this.logEvent(event, topic);
+    this.bridge?.publish(event);
 
     const promises: Promise<void>[] = [];
 
-    // Emit to type-specific listeners
-    const typeListeners = this.eventListeners.get(event.type);
-    if (typeListeners) {
-      for (const config of typeListeners) {
-        promises.push(this.invokeListenerAsync(config, event, event.type));
+    // Emit to topic and pattern listeners
+    for (const [key, listeners] of this.matchingListeners(event, topic)) {
+      for (const config of listeners) {
+        promises.push(this.invokeListenerAsync(config, event, key));
       }
     }
 
@@ -109,8 +144,18 @@ export class EventBus extends EventEmitter {
   }
 
   /**
-   * Register a listener for a specific event type
+   * Register a listener for an event type, topic or topic pattern
+   *
+   * Topics are dotted (`tool_use.Bash`, `plugin.cache.hit`). In patterns `*`
+   * matches one segment and `**` any number of segments, so `tool_use.*`
+   * receives every tool and `plugin.**` every plugin event. A bare `'*'`
+   * receives everything.
+   *
+   * Known event types narrow the listener's event (`on<'response'>`); any
+   * other string, `'*'` and `'error'` use the untyped signature.
    */
+  on<K extends TypedEventType>(eventType: K, listener: TypedEventListener<K>, options?: ListenerOptions): this;
+  on(eventType: string, listener: EventListener | ((...args: any[]) => void), options?: ListenerOptions): this;
   on(eventType: string, listener: EventListener | ((...args: any[]) => void), options?: ListenerOptions): this {
     // For 'error' events, use native EventEmitter behavior
     if (eventType === 'error') {
@@ -120,24 +165,23 @@ export class EventBus extends EventEmitter {
 
     const config: ListenerConfig = { listener: listener as EventListener, options };
 
+    if (options?.queue) {
+      config.queue = this.createQueue(config, eventType, options.queue === true ? {} : options.queue);
+    }
+
     if (eventType === '*') {
       this.wildcardListeners.add(config);
     } else {
-      if (!this.eventListeners.has(eventType)) {
-        this.eventListeners.set(eventType, new Set());
-      }
-      this.eventListeners.get(eventType)!.add(config);
+      this.registerListener(eventType, config);
     }
 
     // Update metrics
     this.updateListenerCounts();
 
     // Replay events if requested
-    if (options?.replay && this.replayBuffer) {
-      for (const event of this.replayBuffer) {
-        if (eventType === '*' || event.type === eventType) {
-          this.invokeListener(config, event, eventType);
-        }
+    if (options?.replay) {
+      for (const event of this.replayEvents(eventType, options.replay)) {
+        this.invokeListener(config, event, eventType);
       }
     }
 
@@ -147,6 +191,8 @@ export class EventBus extends EventEmitter {
   /**
    * Register a one-time listener for a specific event type
    */
+  once<K extends TypedEventType>(eventType: K, listener: TypedEventListener<K>): this;
+  once(eventType: string, listener: EventListener | ((...args: any[]) => void)): this;
   once(eventType: string, listener: EventListener | ((...args: any[]) => void)): this {
     // For 'error' events, use native EventEmitter behavior
     if (eventType === 'error') {
@@ -159,10 +205,7 @@ export class EventBus extends EventEmitter {
     if (eventType === '*') {
       this.wildcardListeners.add(config);
     } else {
-      if (!this.eventListeners.has(eventType)) {
-        this.eventListeners.set(eventType, new Set());
-      }
-      this.eventListeners.get(eventType)!.add(config);
+      this.registerListener(eventType, config);
     }
 
     // Update metrics
@@ -174,6 +217,8 @@ export class EventBus extends EventEmitter {
   /**
    * Remove a specific listener
    */
+  off<K extends TypedEventType>(eventType: K, listener: TypedEventListener<K>): this;
+  off(eventType: string, listener: EventListener | ((...args: any[]) => void)): this;
   off(eventType: string, listener: EventListener | ((...args: any[]) => void)): this {
     // For 'error' events, use native EventEmitter behavior
     if (eventType === 'error') {
@@ -185,6 +230,7 @@ export class EventBus extends EventEmitter {
       for (const config of this.wildcardListeners) {
         if (config.listener === listener) {
           this.wildcardListeners.delete(config);
+          this.deleteQueue(config);
         }
       }
     } else {
@@ -193,6 +239,7 @@ export class EventBus extends EventEmitter {
         for (const config of typeListeners) {
           if (config.listener === listener) {
             typeListeners.delete(config);
+            this.deleteQueue(config);
           }
         }
       }
@@ -211,10 +258,15 @@ export class EventBus extends EventEmitter {
     if (eventType === undefined) {
       this.eventListeners.clear();
       this.wildcardListeners.clear();
+      this.patterns.clear();
+      this.queues.clear();
     } else if (eventType === '*') {
+      this.wildcardListeners.forEach(config => this.deleteQueue(config));
       this.wildcardListeners.clear();
     } else {
+      this.eventListeners.get(eventType)?.forEach(config => this.deleteQueue(config));
       this.eventListeners.delete(eventType);
+      this.patterns.delete(eventType);
     }
 
     // Update metrics
@@ -233,6 +285,15 @@ export class EventBus extends EventEmitter {
     return this.eventListeners.get(eventType)?.size || 0;
   }
 
+  /**
+   * Wait until every queued listener has handled the events queued so far
+   *
+   * Removed listeners are not waited for; drain first when shutting down.
+   */
+  async drain(): Promise<void> {
+    await Promise.all(Array.from(this.queues.values()).map(queue => queue.drain()));
+  }
+
   /**
    * Enable replay buffer with specified size
    */
@@ -244,15 +305,195 @@ export class EventBus extends EventEmitter {
   /**
    * Get recent events from the replay buffer
    */
-  getRecentEvents(): QueryEvent[] {
-    return this.replayBuffer ? [...this.replayBuffer] : [];
+  getRecentEvents(filter?: EventFilter): QueryEvent[] {
+    const events = this.replayBuffer ? [...this.replayBuffer] : [];
+    return filter ? this.applyFilter(events, filter) : events;
+  }
+
+  /**
+   * Log every emitted event to a durable store
+   */
+  attachEventLog(log: SqliteEventLog): void {
+    this.eventLog = log;
+  }
+
+  /**
+   * Publish every emitted event to other processes through the event
+   * bridge daemon
+   */
+  attachBridge(publisher: EventBridgePublisher): void {
+    this.bridge = publisher;
+  }
+
+  /**
+   * Get events from the attached event log, across sessions
+   *
+   * @returns Matching events in emit order; empty without an event log
+   */
+  getLoggedEvents(filter: EventFilter = {}): QueryEvent[] {
+    if (!this.eventLog) {
+      return [];
+    }
+
+    // The log matches exact types and topics; patterns are applied here
+    if (filter.type && isPattern(filter.type)) {
+      return this.applyFilter(this.eventLog.query({ ...filter, type: undefined }), { type: filter.type });
+    }
+    return this.eventLog.query(filter.type === '*' ? { ...filter, type: undefined } : filter);
+  }
+
+  /**
+   * Get the dotted topic an event is routed by
+   *
+   * This is the event type, except tool_use events add the tool name
+   * (`tool_use.Bash`).
+   */
+  static topicOf(event: QueryEvent): string {
+    if (event.type === 'tool_use' && typeof event.data?.name === 'string' && event.data.name) {
+      return `tool_use.${event.data.name}`;
+    }
+    return event.type;
   }
 
   /**
    * Get event metrics
+   *
+   * `eventCounts` is aggregated per topic prefix: a `plugin.cache.hit`
+   * event counts towards `plugin`, `plugin.cache` and `plugin.cache.hit`.
    */
   getMetrics(): EventMetrics {
-    return { ...this.metrics };
+    const queues: Record<string, ListenerQueueMetrics> = {};
+    for (const [name, queue] of this.queues) {
+      queues[name] = queue.getMetrics();
+    }
+    return { ...this.metrics, queues };
+  }
+
+  /**
+   * Listener sets whose key matches the event, exact keys first
+   */
+  private matchingListeners(event: QueryEvent, topic: string): Array<[string, Set<ListenerConfig>]> {
+    const typeListeners = this.eventListeners.get(event.type);
+
+    // Common case: a plain event type and no pattern subscriptions
+    if (topic === event.type && this.patterns.size === 0) {
+      return typeListeners ? [[event.type, typeListeners]] : [];
+    }
+
+    const matched: Array<[string, Set<ListenerConfig>]> = [];
+
+    if (typeListeners) {
+      matched.push([event.type, typeListeners]);
+    }
+
+    const topicListeners = topic !== event.type && this.eventListeners.get(topic);
+    if (topicListeners) {
+      matched.push([topic, topicListeners]);
+    }
+
+    for (const [key, pattern] of this.patterns) {
+      const listeners = this.eventListeners.get(key);
+      if (listeners && this.matchesPattern(pattern, event, topic)) {
+        matched.push([key, listeners]);
+      }
+    }
+
+    return matched;
+  }
+
+  /**
+   * Check a listener key against an event's type and topic
+   *
+   * Exact keys match the type or the topic, so `tool_use` listeners still
+   * receive `tool_use.Bash` events.
+   */
+  private matches(key: string, event: QueryEvent): boolean {
+    const topic = EventBus.topicOf(event);
+    const pattern = this.patterns.get(key);
+
+    return pattern
+      ? this.matchesPattern(pattern, event, topic)
+      : key === event.type || key === topic;
+  }
+
+  private matchesPattern(pattern: string[], event: QueryEvent, topic: string): boolean {
+    return matchSegments(pattern, topic.split('.')) ||
+      (topic !== event.type && matchSegments(pattern, event.type.split('.')));
+  }
+
+  private registerListener(eventType: string, config: ListenerConfig): void {
+    if (!this.eventListeners.has(eventType)) {
+      this.eventListeners.set(eventType, new Set());
+    }
+    this.eventListeners.get(eventType)!.add(config);
+
+    if (isPattern(eventType) && !this.patterns.has(eventType)) {
+      this.patterns.set(eventType, eventType.split('.'));
+    }
+  }
+
+  private replayEvents(eventType: string, replay: true | EventFilter): QueryEvent[] {
+    let events: QueryEvent[];
+
+    if (replay === true) {
+      events = this.getRecentEvents();
+    } else if (this.eventLog) {
+      events = this.getLoggedEvents(replay);
+    } else {
+      events = this.getRecentEvents(replay);
+    }
+
+    return eventType === '*' ? events : events.filter(event => this.matches(eventType, event));
+  }
+
+  private applyFilter(events: QueryEvent[], filter: EventFilter): QueryEvent[] {
+    let start = 0;
+
+    if (filter.afterEventId) {
+      for (let i = events.length - 1; i >= 0; i--) {
+        if (events[i].id === filter.afterEventId) {
+          start = i + 1;
+          break;
+        }
+      }
+    }
+
+    return events.slice(start).filter(event =>
+      (!filter.type || filter.type === '*' || this.matches(filter.type, event)) &&
+      (!filter.sessionId || event.metadata?.sessionId === filter.sessionId) &&
+      (filter.since === undefined || event.timestamp >= filter.since) &&
+      (filter.until === undefined || event.timestamp <= filter.until)
+    );
+  }
+
+  private logEvent(event: QueryEvent, topic: string): void {
+    if (!this.eventLog) return;
+
+    try {
+      this.eventLog.append(event, topic);
+    } catch (error) {
+      this.metrics.errorCount++;
+      super.emit('error', {
+        message: 'Event log error',
+        cause: error,
+        eventType: event.type,
+        event
+      });
+    }
+  }
+
+  private countTopic(topic: string): void {
+    if (!topic.includes('.')) {
+      this.metrics.eventCounts[topic] = (this.metrics.eventCounts[topic] || 0) + 1;
+      return;
+    }
+
+    const segments = topic.split('.');
+
+    for (let i = 1; i <= segments.length; i++) {
+      const prefix = segments.slice(0, i).join('.');
+      this.metrics.eventCounts[prefix] = (this.metrics.eventCounts[prefix] || 0) + 1;
+    }
   }
 
   /**
@@ -264,6 +505,11 @@ export class EventBus extends EventEmitter {
       return;
     }
 
+    if (config.queue) {
+      config.queue.push(event);
+      return;
+    }
+
     try {
       config.listener(event);
     } catch (error) {
@@ -301,6 +547,19 @@ export class EventBus extends EventEmitter {
       return;
     }
 
+    // Queued listeners only hold up the emitter while their queue is full
+    if (config.queue) {
+      await config.queue.pushAsync(event);
+      return;
+    }
+
+    await this.runListener(config, event, eventType);
+  }
+
+  /**
+   * Run a listener to completion, reporting failures on the error channel
+   */
+  private async runListener(config: ListenerConfig, event: QueryEvent, eventType: string): Promise<void> {
     try {
       await config.listener(event);
     } catch (error) {
@@ -329,6 +588,27 @@ export class EventBus extends EventEmitter {
     }
   }
 
+  private createQueue(config: ListenerConfig, eventType: string, options: ListenerQueueOptions): ListenerQueue {
+    let name = options.name ?? eventType;
+    for (let n = 2; this.queues.has(name); n++) {
+      name = `${options.name ?? eventType}#${n}`;
+    }
+
+    const queue = new ListenerQueue(event => this.runListener(config, event, eventType), options);
+    this.queues.set(name, queue);
+    return queue;
+  }
+
+  private deleteQueue(config: ListenerConfig): void {
+    if (!config.queue) return;
+
+    for (const [name, queue] of this.queues) {
+      if (queue === config.queue) {
+        this.queues.delete(name);
+      }
+    }
+  }
+
   /**
    * Update listener count metrics
    */
@@ -345,4 +625,48 @@ export class EventBus extends EventEmitter {
       this.metrics.listenerCounts['*'] = this.wildcardListeners.size;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Check an EventBus.on key (type, topic, pattern or `*`) against an event
+ * without registering a listener
+ */
+export function topicMatches(key: string, event: QueryEvent): boolean {
+  if (key === '*') {
+    return true;
+  }
+
+  const topic = EventBus.topicOf(event);
+  if (!isPattern(key)) {
+    return key === event.type || key === topic;
+  }
+
+  const pattern = key.split('.');
+  return matchSegments(pattern, topic.split('.')) ||
+    (topic !== event.type && matchSegments(pattern, event.type.split('.')));
+}
+
+function isPattern(key: string): boolean {
+  return key.split('.').some(segment => segment === '*' || segment === '**');
+}
+
+/**
+ * Match topic segments against pattern segments: `*` is exactly one
+ * segment, `**` zero or more
+ */
+function matchSegments(pattern: string[], topic: string[]): boolean {
+  if (pattern.length === 0) {
+    return topic.length === 0;
+  }
+
+  const [head, ...rest] = pattern;
+
+  if (head === '**') {
+    for (let i = 0; i <= topic.length; i++) {
+      if (matchSegments(rest, topic.slice(i))) return true;
+    }
+    return false;
+  }
+
+  return topic.length > 0 && (head === '*' || head === topic[0]) && matchSegments(rest, topic.slice(1));
+}
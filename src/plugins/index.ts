@@ -9,4 +9,11 @@ export * from './infrastructure';
 
 // Export plugin system components
 export * from './plugin-loader';
-export * from './event-bus';
\ No newline at end of file
+export * from './event-bus';
+export * from './listener-queue';
+export * from './event-bridge';
+export * from './plugin-config';
+export * from './plugin-compatibility';
+export * from './isolated-plugin';
+export * from './package-plugins';
+export * from './plugin-capabilities';
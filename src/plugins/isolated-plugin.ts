@@ -0,0 +1,283 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import {
+  Plugin,
+  PluginContext,
+  PluginManifest,
+  QueryRequest,
+  BeforeQueryResult
+} from '../types/plugin';
+import { QueryEvent, ResponsePayload } from '../types/events';
+import { grantedCapabilities } from './plugin-capabilities';
+
+type Hook = 'initialize' | 'onEvent' | 'beforeQuery' | 'afterResponse' | 'shutdown';
+
+interface SerializedError {
+  name: string;
+  message: string;
+}
+
+// Messages from the worker (see plugin-worker.js)
+type WorkerMessage =
+  | { type: 'loaded'; hooks?: Hook[]; error?: SerializedError }
+  | { type: 'result'; id: number; result?: unknown; error?: SerializedError }
+  | { type: 'context'; id?: number; target: 'dataStore' | 'eventBus' | 'logger' | 'sharedState'; method: string; args: unknown }
+  | { type: 'subscribe'; event: string };
+
+export interface IsolatedPluginOptions {
+  // Resolved path of the plugin module
+  modulePath: string;
+  manifest: PluginManifest;
+}
+
+/**
+ * IsolatedPlugin runs a plugin in a worker thread
+ *
+ * Hooks are sent to the worker and their results sent back; the plugin's
+ * context calls are run here against its capability-scoped context. The
+ * worker's heap is bounded by `manifest.resourceLimits`, its fs writes and
+ * network access by its capabilities, and terminate() stops a hung plugin
+ * without touching the main event loop. The worker starts in initialize(),
+ * so a plugin the loader skips never gets one.
+ */
+export class IsolatedPlugin implements Plugin {
+  static readonly WORKER_SCRIPT = path.join(__dirname, 'plugin-worker.js');
+  static readonly SHUTDOWN_TIMEOUT = 5000;
+
+  name: string;
+  version: string;
+  manifest: PluginManifest;
+
+  // Set once the worker reports the plugin has them
+  beforeQuery?: (request: QueryRequest, context: PluginContext) => Promise<BeforeQueryResult | void>;
+  afterResponse?: (request: QueryRequest, response: ResponsePayload, context: PluginContext) => Promise<ResponsePayload | void>;
+
+  private modulePath: string;
+  private worker?: Worker;
+  // The plugin's context on the main thread; the worker's calls run here
+  private context!: PluginContext;
+  private calls: Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }> = new Map();
+  private subscriptions: Array<{ event: string; listener: (...args: unknown[]) => void }> = [];
+  private nextId = 0;
+  // Set while there is no running worker; every call fails with it
+  private stopped?: Error;
+
+  constructor(options: IsolatedPluginOptions) {
+    this.manifest = options.manifest;
+    this.name = options.manifest.name;
+    this.version = options.manifest.version;
+    this.modulePath = options.modulePath;
+    this.stopped = new Error(`Plugin ${this.name} is not initialized`);
+  }
+
+  /**
+   * Start a worker, wait for the plugin module to load in it and run the
+   * plugin's initialize; a terminated plugin gets a fresh worker
+   */
+  async initialize(context: PluginContext): Promise<void> {
+    await this.terminate();
+    this.context = context;
+    this.stopped = undefined;
+
+    try {
+      await this.startWorker();
+      await this.call('initialize', []);
+    } catch (error) {
+      await this.terminate();
+      throw error;
+    }
+  }
+
+  onEvent(event: QueryEvent): Promise<void> {
+    return this.call('onEvent', [event]);
+  }
+
+  /**
+   * Let the plugin clean up, then stop the worker
+   */
+  async shutdown(): Promise<void> {
+    if (this.stopped) return;
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        this.call('shutdown', []),
+        new Promise(resolve => {
+          timer = setTimeout(resolve, this.manifest.timeout || IsolatedPlugin.SHUTDOWN_TIMEOUT);
+        })
+      ]);
+    } finally {
+      clearTimeout(timer);
+      await this.terminate();
+    }
+  }
+
+  /**
+   * Stop the worker now, e.g. after a timeout; pending and later calls fail
+   */
+  async terminate(): Promise<void> {
+    this.stop(new Error(`Plugin ${this.name} was terminated`));
+
+    const worker = this.worker;
+    this.worker = undefined;
+    await worker?.terminate();
+  }
+
+  isRunning(): boolean {
+    return !this.stopped;
+  }
+
+  // Resolves once the plugin module has loaded in the new worker
+  private startWorker(): Promise<void> {
+    const worker = new Worker(IsolatedPlugin.WORKER_SCRIPT, {
+      workerData: {
+        modulePath: this.modulePath,
+        name: this.name,
+        config: this.context.config,
+        capabilities: grantedCapabilities(this.manifest),
+        permissions: this.context.permissions && {
+          readMainDb: this.context.permissions.canReadMainDb(),
+          readPluginDbs: this.context.permissions.getReadablePlugins()
+        }
+      },
+      resourceLimits: this.manifest.resourceLimits
+    });
+    this.worker = worker;
+
+    return new Promise((resolve, reject) => {
+      // A worker that has since been terminated or replaced only fails the load
+      const fail = (error: Error): void => {
+        if (worker === this.worker) this.stop(error);
+        reject(error);
+      };
+
+      worker.on('message', (message: WorkerMessage) => {
+        if (worker !== this.worker) return;
+
+        if (message.type === 'loaded') {
+          if (message.error) {
+            reject(toError(message.error));
+          } else {
+            this.exposeHooks(message.hooks ?? []);
+            resolve();
+          }
+        } else {
+          this.handleMessage(message);
+        }
+      });
+
+      worker.on('error', error => fail(new Error(`Plugin ${this.name} worker failed: ${error.message}`)));
+      worker.on('exit', code => fail(new Error(`Plugin ${this.name} worker exited with code ${code}`)));
+    });
+  }
+
+  private exposeHooks(hooks: Hook[]): void {
+    if (hooks.includes('beforeQuery')) {
+      this.beforeQuery = request => this.call('beforeQuery', [request]);
+    }
+    if (hooks.includes('afterResponse')) {
+      this.afterResponse = (request, response) => this.call('afterResponse', [request, response]);
+    }
+  }
+
+  private call<T>(method: Hook, args: unknown[]): Promise<T> {
+    if (this.stopped) {
+      return Promise.reject(this.stopped);
+    }
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.calls.set(id, { resolve: value => resolve(value as T), reject });
+      this.worker!.postMessage({ type: 'call', id, method, args });
+    });
+  }
+
+  private handleMessage(message: WorkerMessage): void {
+    switch (message.type) {
+      case 'result': {
+        const call = this.calls.get(message.id);
+        this.calls.delete(message.id);
+        if (message.error) {
+          call?.reject(toError(message.error));
+        } else {
+          call?.resolve(message.result);
+        }
+        break;
+      }
+      case 'context':
+        void this.runContextCall(message);
+        break;
+      case 'subscribe': {
+        const listener = (...args: unknown[]) => this.post({ type: 'event', event: message.event, args });
+        this.context.eventBus.on(message.event, listener);
+        this.subscriptions.push({ event: message.event, listener });
+        break;
+      }
+    }
+  }
+
+  private async runContextCall(message: Extract<WorkerMessage, { type: 'context' }>): Promise<void> {
+    try {
+      let result: unknown;
+
+      if (message.target === 'logger') {
+        const { bindings, args } = message.args as { bindings?: Record<string, unknown>; args: unknown[] };
+        const logger = bindings ? this.context.logger.child(bindings) : this.context.logger;
+        const log = (logger as unknown as Record<string, unknown>)[message.method];
+        if (typeof log === 'function') {
+          log.apply(logger, args);
+        }
+      } else {
+        const target = this.context[message.target] as unknown as Record<string, unknown>;
+        const method = target[message.method];
+        if (typeof method !== 'function') {
+          throw new Error(`${message.target}.${message.method} is not a function`);
+        }
+        result = await method.apply(target, message.args as unknown[]);
+      }
+
+      if (message.id !== undefined && !this.post({ type: 'reply', id: message.id, result })) {
+        throw new Error(`Result of ${message.target}.${message.method} can't be sent to a worker`);
+      }
+    } catch (error) {
+      if (message.id !== undefined) {
+        const { name, message: text } = error instanceof Error ? error : new Error(String(error));
+        this.post({ type: 'reply', id: message.id, error: { name, message: text } });
+      }
+    }
+  }
+
+  /**
+   * Send to the worker unless it has stopped
+   *
+   * @returns false if the message can't be cloned
+   */
+  private post(message: unknown): boolean {
+    if (this.stopped) return true;
+    try {
+      this.worker!.postMessage(message);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private stop(reason: Error): void {
+    if (this.stopped) return;
+    this.stopped = reason;
+
+    for (const { event, listener } of this.subscriptions) {
+      this.context.eventBus.off(event, listener);
+    }
+    this.subscriptions = [];
+
+    for (const call of this.calls.values()) {
+      call.reject(reason);
+    }
+    this.calls.clear();
+  }
+}
+
+function toError({ name, message }: SerializedError): Error {
+  return Object.assign(new Error(message), { name });
+}
@@ -0,0 +1,160 @@
+import { QueryEvent } from '../types';
+
+/**
+ * What a full queue does with another event
+ *
+ * - `drop-oldest`: discard the longest-waiting event to make room
+ * - `drop-newest`: discard the incoming event
+ * - `block`: keep every event; `emitEventAsync` waits for room, while
+ *   `emitEvent`, which cannot wait, queues past the limit
+ */
+export type QueueOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'block';
+
+/**
+ * Options for a queued listener
+ */
+export interface ListenerQueueOptions {
+  // Events handled at once (default 1, which keeps emit order)
+  concurrency?: number;
+  // Events waiting before the overflow policy applies (default 1000)
+  maxSize?: number;
+  overflow?: QueueOverflowPolicy;
+  // Key in EventMetrics.queues (default: the event type the listener is on)
+  name?: string;
+}
+
+/**
+ * Metrics for one queued listener
+ */
+export interface ListenerQueueMetrics {
+  depth: number;
+  active: number;
+  processed: number;
+  dropped: number;
+  // How long the oldest waiting event has waited
+  lagMs: number;
+  // Longest any event waited before it was handled
+  maxLagMs: number;
+}
+
+interface QueuedEvent {
+  event: QueryEvent;
+  enqueuedAt: number;
+}
+
+/**
+ * ListenerQueue runs one listener's events with bounded concurrency
+ *
+ * Events wait in a FIFO of at most `maxSize`; when it is full the overflow
+ * policy decides what to drop. Handler rejections are ignored; EventBus
+ * reports listener errors itself.
+ */
+export class ListenerQueue {
+  static readonly DEFAULT_MAX_SIZE = 1000;
+
+  private pending: QueuedEvent[] = [];
+  private active = 0;
+  private processed = 0;
+  private dropped = 0;
+  private maxLagMs = 0;
+  private roomWaiters: Array<() => void> = [];
+  private idleWaiters: Array<() => void> = [];
+
+  private readonly options: Required<Omit<ListenerQueueOptions, 'name'>>;
+
+  constructor(
+    private handler: (event: QueryEvent) => Promise<void>,
+    options: ListenerQueueOptions = {}
+  ) {
+    this.options = {
+      concurrency: options.concurrency ?? 1,
+      maxSize: options.maxSize ?? ListenerQueue.DEFAULT_MAX_SIZE,
+      overflow: options.overflow ?? 'drop-oldest'
+    };
+
+    if (!Number.isInteger(this.options.concurrency) || this.options.concurrency < 1) {
+      throw new Error('Queue concurrency must be a positive integer');
+    }
+    if (!Number.isInteger(this.options.maxSize) || this.options.maxSize < 1) {
+      throw new Error('Queue size must be a positive integer');
+    }
+  }
+
+  /**
+   * Queue an event without waiting
+   *
+   * @returns false if the event was dropped
+   */
+  push(event: QueryEvent): boolean {
+    if (this.pending.length >= this.options.maxSize) {
+      if (this.options.overflow === 'drop-newest') {
+        this.dropped++;
+        return false;
+      }
+      if (this.options.overflow === 'drop-oldest') {
+        this.pending.shift();
+        this.dropped++;
+      }
+    }
+
+    this.pending.push({ event, enqueuedAt: Date.now() });
+    this.pump();
+    return true;
+  }
+
+  /**
+   * Queue an event, waiting for room first under the `block` policy
+   */
+  async pushAsync(event: QueryEvent): Promise<boolean> {
+    while (this.options.overflow === 'block' && this.pending.length >= this.options.maxSize) {
+      await new Promise<void>(resolve => this.roomWaiters.push(resolve));
+    }
+    return this.push(event);
+  }
+
+  /**
+   * Wait until every queued event has been handled
+   */
+  drain(): Promise<void> {
+    if (this.isIdle()) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  getMetrics(): ListenerQueueMetrics {
+    return {
+      depth: this.pending.length,
+      active: this.active,
+      processed: this.processed,
+      dropped: this.dropped,
+      lagMs: this.pending.length > 0 ? Date.now() - this.pending[0].enqueuedAt : 0,
+      maxLagMs: this.maxLagMs
+    };
+  }
+
+  private pump(): void {
+    while (this.active < this.options.concurrency && this.pending.length > 0) {
+      const { event, enqueuedAt } = this.pending.shift()!;
+      this.maxLagMs = Math.max(this.maxLagMs, Date.now() - enqueuedAt);
+      this.active++;
+      this.roomWaiters.shift()?.();
+
+      this.handler(event).catch(() => {}).finally(() => {
+        this.active--;
+        this.processed++;
+        this.pump();
+
+        if (this.isIdle()) {
+          const waiters = this.idleWaiters;
+          this.idleWaiters = [];
+          waiters.forEach(resolve => resolve());
+        }
+      });
+    }
+  }
+
+  private isIdle(): boolean {
+    return this.active === 0 && this.pending.length === 0;
+  }
+}
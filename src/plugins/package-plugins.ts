@@ -0,0 +1,115 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { PluginManifest } from '../types/plugin';
+import { IPluginConfig } from './infrastructure/interfaces/core/IPluginConfig';
+
+// npm keyword that marks a package as a claudeware plugin
+export const PLUGIN_KEYWORD = 'claudeware-plugin';
+
+/**
+ * The parts of a plugin package's package.json that claudeware reads
+ */
+export interface PluginPackageJson {
+  name: string;
+  version: string;
+  description?: string;
+  keywords?: string[];
+  engines?: Record<string, string>;
+  // Permissions, plus any manifest.json field other than name and version
+  claudeware?: Partial<NonNullable<IPluginConfig['claudeware']>> &
+    Partial<Omit<PluginManifest, 'name' | 'version'>>;
+}
+
+/**
+ * Whether a package declares itself a plugin, by keyword or by having a
+ * `claudeware` section
+ */
+export function isPluginPackage(pkg: Partial<PluginPackageJson>): boolean {
+  return pkg.keywords?.includes(PLUGIN_KEYWORD) === true || pkg.claudeware !== undefined;
+}
+
+/**
+ * Build a plugin manifest from package.json
+ *
+ * Name, version and description come from the package, a claudeware
+ * range from `engines.claudeware`, and everything else from the
+ * `claudeware` section, with manifest.json's defaults.
+ */
+export function manifestFromPackage(pkg: PluginPackageJson): PluginManifest {
+  if (!pkg.name || !pkg.version) {
+    throw new Error('Invalid package.json: missing name or version');
+  }
+
+  // `claudeware.version` is the plugin API version, not the plugin's
+  const fields = { ...pkg.claudeware };
+  delete fields.version;
+
+  return {
+    description: pkg.description,
+    dependencies: [],
+    priority: 50,
+    timeout: 5000,
+    capabilities: [],
+    ...(pkg.engines?.claudeware ? { engines: { claudeware: pkg.engines.claudeware } } : {}),
+    ...fields,
+    name: pkg.name,
+    version: pkg.version
+  };
+}
+
+export async function readPackageJson(directory: string): Promise<PluginPackageJson> {
+  const content = await fs.readFile(path.join(directory, 'package.json'), 'utf-8');
+  return JSON.parse(content);
+}
+
+/**
+ * Directories of the plugin packages installed in a node_modules
+ * directory, including scoped ones
+ */
+export async function findPackagePlugins(nodeModules: string): Promise<string[]> {
+  const found: string[] = [];
+
+  const visit = async (directory: string): Promise<void> => {
+    for (const entry of await fs.readdir(directory)) {
+      if (entry.startsWith('.')) continue;
+
+      const packageDir = path.join(directory, entry);
+      if (entry.startsWith('@')) {
+        await visit(packageDir);
+        continue;
+      }
+
+      try {
+        if (isPluginPackage(await readPackageJson(packageDir))) {
+          found.push(packageDir);
+        }
+      } catch {
+        // Not a package
+      }
+    }
+  };
+
+  await visit(nodeModules);
+  return found;
+}
+
+/**
+ * Find the directory of a package named in config
+ *
+ * @param specifier - A package name, looked up from `directory` and then
+ *   the working directory, or a path relative to `directory`
+ */
+export function resolvePluginPackage(specifier: string, directory: string): string {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return path.resolve(directory, specifier);
+  }
+
+  try {
+    const packageJson = require.resolve(`${specifier}/package.json`, {
+      paths: [directory, process.cwd()]
+    });
+    return path.dirname(packageJson);
+  } catch {
+    throw new Error(`Cannot find plugin package ${specifier}`);
+  }
+}
@@ -0,0 +1,150 @@
+import { EventEmitter } from 'events';
+import { isDeepStrictEqual } from 'util';
+import { BeforeQueryResult, Plugin, PluginContext, PluginManifest, QueryRequest } from '../types/plugin';
+import { PermissionError } from './infrastructure/interfaces/errors';
+
+/**
+ * Capabilities the loader enforces; other `manifest.capabilities` entries
+ * are descriptive only
+ */
+export const CAPABILITIES = ['db:read', 'db:write', 'events:emit', 'network', 'fs:write', 'query:modify'] as const;
+
+export type Capability = typeof CAPABILITIES[number];
+
+// Only a worker's own fs and net modules can be guarded
+const WORKER_ONLY: Capability[] = ['network', 'fs:write'];
+
+/**
+ * The enforced capabilities a manifest declares
+ */
+export function grantedCapabilities(manifest: PluginManifest): Capability[] {
+  return CAPABILITIES.filter(capability => (manifest.capabilities ?? []).includes(capability));
+}
+
+/**
+ * Throw PermissionError unless the plugin declared `capability`
+ *
+ * @param action - What the plugin tried, e.g. "call dataStore.saveQuery"
+ */
+export function requireCapability(manifest: PluginManifest, capability: Capability, action: string): void {
+  if (!grantedCapabilities(manifest).includes(capability)) {
+    throw new PermissionError(`Plugin ${manifest.name} needs the ${capability} capability to ${action}`);
+  }
+}
+
+// The capability a facade method needs; 'always' and 'never' need none
+type Access = Capability | 'always' | 'never';
+
+// What a plugin may call on the shared dataStore and eventBus; anything
+// else, including raw properties such as dataStore.db, isn't exposed
+const DATA_STORE_METHODS: Record<string, Access> = {
+  getQuery: 'db:read',
+  getResponse: 'db:read',
+  getSessionQueries: 'db:read',
+  getQueryStats: 'db:read',
+  saveQuery: 'db:write',
+  saveResponse: 'db:write',
+  saveOptimization: 'db:write',
+  batchSave: 'db:write',
+  // The wrapper owns the connection
+  init: 'never',
+  close: 'never'
+};
+
+const EVENT_BUS_METHODS: Record<string, Access> = {
+  on: 'always',
+  addListener: 'always',
+  once: 'always',
+  prependListener: 'always',
+  prependOnceListener: 'always',
+  off: 'always',
+  removeListener: 'always',
+  listenerCount: 'always',
+  emit: 'events:emit',
+  emitEvent: 'events:emit',
+  emitEventAsync: 'events:emit'
+};
+
+/**
+ * A view of `context` limited to the plugin's capabilities
+ *
+ * dataStore and eventBus are replaced by facades with only the methods in
+ * DATA_STORE_METHODS and EVENT_BUS_METHODS. Those needing a capability the
+ * plugin lacks, or none can grant, throw PermissionError when called. A
+ * plugin that declares `permissions` also needs `readMainDb` for db:read.
+ */
+export function scopeContext(context: PluginContext, manifest: PluginManifest): PluginContext {
+  return {
+    ...context,
+    dataStore: facade(context.dataStore, 'dataStore', DATA_STORE_METHODS, manifest),
+    // Only the listed EventEmitter methods are present
+    eventBus: facade(context.eventBus, 'eventBus', EVENT_BUS_METHODS, manifest) as unknown as EventEmitter
+  };
+}
+
+/**
+ * Whether a beforeQuery result changes or answers the query, which needs
+ * query:modify; rejecting a query doesn't
+ */
+export function changesQuery(result: BeforeQueryResult | void, request: QueryRequest): boolean {
+  if (!result) return false;
+  if (result.action === 'respond') return true;
+  if (result.action !== 'continue') return false;
+
+  return (result.prompt !== undefined && result.prompt !== request.prompt) ||
+    (result.options !== undefined && !isDeepStrictEqual(result.options, request.options));
+}
+
+/**
+ * One line per plugin listing what it can do, e.g.
+ *
+ *   Plugin capabilities:
+ *     token-monitor: db:read, events:emit
+ *     cache: events:emit, query:modify; network and fs:write unrestricted (main thread)
+ */
+export function formatCapabilitySummary(plugins: Plugin[]): string {
+  return [
+    'Plugin capabilities:',
+    ...plugins.map(plugin => {
+      const granted = grantedCapabilities(plugin.manifest);
+      const summary = `  ${plugin.name}: ${granted.length > 0 ? granted.join(', ') : 'none'}`;
+      const unguarded = WORKER_ONLY.filter(capability => !granted.includes(capability));
+
+      return plugin.manifest.isolation === 'worker' || unguarded.length === 0
+        ? summary
+        : `${summary}; ${unguarded.join(' and ')} unrestricted (main thread)`;
+    })
+  ].join('\n');
+}
+
+function facade<T extends object>(
+  target: T,
+  targetName: string,
+  methods: Record<string, Access>,
+  manifest: PluginManifest
+): T {
+  const granted = grantedCapabilities(manifest);
+  const scoped: Record<string, (...args: unknown[]) => unknown> = {};
+
+  for (const [method, access] of Object.entries(methods)) {
+    if (access === 'never') {
+      scoped[method] = () => {
+        throw new PermissionError(`Plugin ${manifest.name} may not call ${targetName}.${method}`);
+      };
+    } else if (access !== 'always' && !granted.includes(access)) {
+      scoped[method] = () => requireCapability(manifest, access, `call ${targetName}.${method}`);
+    } else if (access === 'db:read' && manifest.permissions && manifest.permissions.readMainDb !== true) {
+      scoped[method] = () => {
+        throw new PermissionError(`Plugin ${manifest.name} needs permissions.readMainDb to call ${targetName}.${method}`);
+      };
+    } else {
+      scoped[method] = (...args) => {
+        const result: unknown = (target as Record<string, (...args: unknown[]) => unknown>)[method](...args);
+        // Keep chained calls (e.g. eventBus.on(...).emit(...)) scoped
+        return result === target ? scoped : result;
+      };
+    }
+  }
+
+  return Object.freeze(scoped) as unknown as T;
+}
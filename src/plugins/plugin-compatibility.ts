@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as semver from 'semver';
+import { Plugin, PluginManifest } from '../types/plugin';
+
+/**
+ * One reason a plugin can't run with the plugins around it
+ */
+export interface CompatibilityProblem {
+  plugin: string;
+  problem: string;
+}
+
+/**
+ * Thrown when plugins' versions, engines or conflicts don't line up
+ */
+export class PluginCompatibilityError extends Error {
+  constructor(public problems: CompatibilityProblem[]) {
+    super(formatCompatibilityReport(problems));
+    this.name = 'PluginCompatibilityError';
+  }
+}
+
+// Prerelease versions (e.g. 0.1.0-beta.1) satisfy ranges they fall inside
+const RANGE_OPTIONS = { includePrerelease: true };
+
+let cachedVersion: string | undefined;
+
+/**
+ * The running claudeware version, from its package.json
+ */
+export function claudewareVersion(): string {
+  if (cachedVersion === undefined) {
+    const packagePath = path.join(__dirname, '../../package.json');
+    cachedVersion = JSON.parse(fs.readFileSync(packagePath, 'utf8')).version as string;
+  }
+  return cachedVersion;
+}
+
+/**
+ * A manifest's required dependencies as name -> range; the older list of
+ * names accepts any version
+ */
+export function dependencyRanges(manifest: PluginManifest): Record<string, string> {
+  const dependencies = manifest.dependencies ?? [];
+
+  if (Array.isArray(dependencies)) {
+    return Object.fromEntries(dependencies.map(name => [name, '*']));
+  }
+  return dependencies;
+}
+
+/**
+ * Check one plugin against the installed plugins and claudeware itself
+ *
+ * @param installed - Every plugin found, by name; versions of required and
+ *   optional dependencies are checked against these
+ * @param running - Plugins that will run alongside; conflicts are checked
+ *   against these (default: installed)
+ */
+export function checkCompatibility(
+  plugin: Plugin,
+  installed: Map<string, Plugin>,
+  running: Map<string, Plugin> = installed,
+  version: string = claudewareVersion()
+): CompatibilityProblem[] {
+  const manifest = plugin.manifest;
+  const problems: string[] = [];
+
+  const engine = manifest.engines?.claudeware;
+  if (engine && !satisfies(version, engine)) {
+    problems.push(`requires claudeware ${engine}, but this is ${version}`);
+  }
+
+  for (const [name, range] of Object.entries(dependencyRanges(manifest))) {
+    const dependency = installed.get(name);
+    if (!dependency) {
+      problems.push(`requires ${withRange(name, range)}, which is not installed`);
+    } else if (!satisfies(dependency.manifest.version, range)) {
+      problems.push(`requires ${withRange(name, range)}, but ${name} ${dependency.manifest.version} is installed`);
+    }
+  }
+
+  for (const [name, range] of Object.entries(manifest.optionalDependencies ?? {})) {
+    const dependency = installed.get(name);
+    if (dependency && !satisfies(dependency.manifest.version, range)) {
+      problems.push(`works with ${name} ${range}, but ${name} ${dependency.manifest.version} is installed`);
+    }
+  }
+
+  for (const [name, range] of Object.entries(manifest.conflicts ?? {})) {
+    const other = running.get(name);
+    if (other && other !== plugin && satisfies(other.manifest.version, range)) {
+      problems.push(`conflicts with ${withRange(name, range)}, and ${name} ${other.manifest.version} is enabled`);
+    }
+  }
+
+  return problems.map(problem => ({ plugin: manifest.name, problem }));
+}
+
+/**
+ * Names a plugin should start after: its required dependencies, then its
+ * optional ones
+ */
+export function dependencyNames(manifest: PluginManifest): string[] {
+  return [
+    ...Object.keys(dependencyRanges(manifest)),
+    ...Object.keys(manifest.optionalDependencies ?? {})
+  ];
+}
+
+/**
+ * One line per problem, grouped under a heading, e.g.
+ *
+ *   Plugin compatibility check failed:
+ *     reporter: requires cache ^2.0.0, but cache 1.4.0 is installed
+ */
+export function formatCompatibilityReport(problems: CompatibilityProblem[]): string {
+  return [
+    'Plugin compatibility check failed:',
+    ...problems.map(({ plugin, problem }) => `  ${plugin}: ${problem}`)
+  ].join('\n');
+}
+
+function withRange(name: string, range: string): string {
+  return range === '*' || range === '' ? name : `${name} ${range}`;
+}
+
+function satisfies(version: string | undefined, range: string): boolean {
+  if (range === '*' || range === '') return true;
+  return semver.valid(version ?? '') !== null && semver.satisfies(version!, range, RANGE_OPTIONS);
+}
@@ -0,0 +1,180 @@
+import { PluginConfigOption, PluginManifest } from '../types/plugin';
+
+/**
+ * Where plugin settings come from, lowest precedence first after the
+ * manifest defaults
+ */
+export interface PluginConfigSources {
+  // Settings keyed by plugin name, e.g. config.json `plugins.<name>`
+  settings?: Record<string, Record<string, unknown>>;
+  // Checked for CLAUDE_WRAPPER_PLUGIN_<NAME>_<KEY> (default process.env)
+  env?: NodeJS.ProcessEnv;
+  // `<plugin>.<key>=<value>` from --plugin-config
+  overrides?: string[];
+}
+
+/**
+ * Thrown when a plugin's settings don't match its manifest
+ */
+export class PluginConfigError extends Error {
+  constructor(public pluginName: string, reason: string) {
+    super(`Invalid config for plugin ${pluginName}: ${reason}`);
+    this.name = 'PluginConfigError';
+  }
+}
+
+/**
+ * Split a --plugin-config value into plugin, key and raw value
+ */
+export function parsePluginConfigOverride(override: string): { plugin: string; key: string; value: string } {
+  const match = /^([^.=]+)\.([^=]+)=(.*)$/s.exec(override);
+  if (!match) {
+    throw new Error(`Invalid --plugin-config '${override}': expected <plugin>.<key>=<value>`);
+  }
+  return { plugin: match[1], key: match[2], value: match[3] };
+}
+
+/**
+ * Environment variable that sets `key` for `pluginName`, e.g.
+ * rate-limiter's burstSize is CLAUDE_WRAPPER_PLUGIN_RATE_LIMITER_BURST_SIZE
+ */
+export function pluginConfigEnvVar(pluginName: string, key: string): string {
+  const toEnv = (value: string) => value
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .toUpperCase();
+
+  return `CLAUDE_WRAPPER_PLUGIN_${toEnv(pluginName)}_${toEnv(key)}`;
+}
+
+/**
+ * Resolve a plugin's config from its manifest and the user's sources
+ *
+ * Later sources win: manifest defaults, settings, environment, then
+ * overrides. Environment and override values are strings and are parsed
+ * by the declared type (JSON for objects and arrays). Every value is
+ * checked against its declared type and enum.
+ *
+ * @throws PluginConfigError on an unknown key or an invalid or missing value
+ */
+export function resolvePluginConfig(
+  manifest: PluginManifest,
+  sources: PluginConfigSources = {}
+): Record<string, unknown> {
+  const name = manifest.name;
+  const schema = manifest.config ?? {};
+  const env = sources.env ?? process.env;
+  const config: Record<string, unknown> = {};
+
+  const optionFor = (key: string, source: string): PluginConfigOption => {
+    if (!Object.prototype.hasOwnProperty.call(schema, key)) {
+      throw new PluginConfigError(name, `unknown setting '${key}' in ${source}`);
+    }
+    return schema[key];
+  };
+
+  const set = (key: string, value: unknown, source: string) => {
+    config[key] = checkValue(name, key, optionFor(key, source), value, source);
+  };
+
+  for (const [key, option] of Object.entries(schema)) {
+    if (option.default !== undefined) {
+      set(key, structuredClone(option.default), 'manifest default');
+    }
+  }
+
+  for (const [key, value] of Object.entries(sources.settings?.[name] ?? {})) {
+    set(key, value, `plugins.${name} settings`);
+  }
+
+  for (const key of Object.keys(schema)) {
+    const variable = pluginConfigEnvVar(name, key);
+    const raw = env[variable];
+    if (raw !== undefined) {
+      set(key, parseValue(name, key, schema[key], raw, variable), variable);
+    }
+  }
+
+  for (const override of sources.overrides ?? []) {
+    const { plugin, key, value } = parsePluginConfigOverride(override);
+    if (plugin === name) {
+      const source = '--plugin-config';
+      set(key, parseValue(name, key, optionFor(key, source), value, source), source);
+    }
+  }
+
+  for (const [key, option] of Object.entries(schema)) {
+    if (option.required && config[key] === undefined) {
+      throw new PluginConfigError(name, `missing required setting '${key}'`);
+    }
+  }
+
+  return config;
+}
+
+function parseValue(
+  pluginName: string,
+  key: string,
+  option: PluginConfigOption,
+  raw: string,
+  source: string
+): unknown {
+  switch (option.type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        throw new PluginConfigError(pluginName, `'${key}' must be a number, got ${JSON.stringify(raw)} (from ${source})`);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (raw === 'true' || raw === '1') return true;
+      if (raw === 'false' || raw === '0') return false;
+      return raw;
+    case 'object':
+    case 'array':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new PluginConfigError(pluginName, `'${key}' must be JSON (from ${source})`);
+      }
+    default:
+      return raw;
+  }
+}
+
+function checkValue(
+  pluginName: string,
+  key: string,
+  option: PluginConfigOption,
+  value: unknown,
+  source: string
+): unknown {
+  const valid = (() => {
+    switch (option.type) {
+      case 'number': return typeof value === 'number' && Number.isFinite(value);
+      case 'boolean': return typeof value === 'boolean';
+      case 'string': return typeof value === 'string';
+      case 'array': return Array.isArray(value);
+      case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+      default: return true;
+    }
+  })();
+
+  if (!valid) {
+    throw new PluginConfigError(
+      pluginName,
+      `'${key}' must be a ${option.type}, got ${JSON.stringify(value)} (from ${source})`
+    );
+  }
+
+  if (option.enum && !option.enum.includes(value)) {
+    throw new PluginConfigError(
+      pluginName,
+      `'${key}' must be one of ${option.enum.map(v => JSON.stringify(v)).join(', ')}, ` +
+      `got ${JSON.stringify(value)} (from ${source})`
+    );
+  }
+
+  return value;
+}
@@ -1,7 +1,36 @@
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { Plugin, PluginManifest, PluginContext } from '../types/plugin';
-import { QueryEvent } from '../types/events';
+import { FSWatcher, watch as watchDirectory } from 'fs';
+import { isDeepStrictEqual, types } from 'util';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { Plugin, PluginManifest, PluginContext, QueryRequest } from '../types/plugin';
+import { QueryEvent, ResponsePayload } from '../types/events';
+import type { Tracer } from '../core/tracer';
+import { PluginConfigError, PluginConfigSources, resolvePluginConfig } from './plugin-config';
+import { IsolatedPlugin } from './isolated-plugin';
+import {
+  findPackagePlugins,
+  isPluginPackage,
+  manifestFromPackage,
+  readPackageJson,
+  resolvePluginPackage
+} from './package-plugins';
+import { PermissionValidator } from './infrastructure/core/PermissionValidator';
+import {
+  changesQuery,
+  formatCapabilitySummary,
+  grantedCapabilities,
+  requireCapability,
+  scopeContext
+} from './plugin-capabilities';
+import {
+  CompatibilityProblem,
+  PluginCompatibilityError,
+  checkCompatibility,
+  dependencyNames,
+  dependencyRanges,
+  formatCompatibilityReport
+} from './plugin-compatibility';
 import { Logger } from 'pino';
 
 interface PluginState {
@@ -21,19 +50,94 @@ export interface PluginMetrics {
   lastError?: string;
 }
 
+/**
+ * Outcome of running the beforeQuery chain
+ */
+export interface QueryInterception {
+  // The request after every interceptor's changes
+  request: QueryRequest;
+  // Set when an interceptor answered the query itself
+  response?: ResponsePayload;
+  respondedBy?: string;
+  // Interceptors the query passed through, in order; afterResponse runs on
+  // these in reverse
+  chain: string[];
+}
+
+/**
+ * Which discovered plugins to start; an empty `enabledPlugins` allows all
+ */
+export interface PluginSelection {
+  enabledPlugins?: string[];
+  disabledPlugins?: string[];
+  // npm package names, or paths relative to the plugins directory, to load
+  // along with the directory's plugins
+  packages?: string[];
+}
+
+/**
+ * Outcome of startPlugins
+ */
+export interface PluginStartup {
+  // Initialized and registered, in start order
+  started: Plugin[];
+  skipped: Array<{ name: string; reason: string }>;
+}
+
+/**
+ * Thrown when a beforeQuery interceptor rejects a query
+ */
+export class QueryRejectedError extends Error {
+  constructor(
+    public pluginName: string,
+    public reason: string,
+    public eventId?: string
+  ) {
+    super(`Query rejected by ${pluginName}: ${reason}`);
+    this.name = 'QueryRejectedError';
+  }
+}
+
 export class PluginLoader {
   private plugins: Map<string, PluginState> = new Map();
   private executionMetrics: Map<string, PluginMetrics> = new Map();
+  // Each plugin's context, carrying its resolved config
+  private contexts: Map<string, PluginContext> = new Map();
+  // Directory each loaded plugin came from, by plugin name
+  private sources: Map<string, string> = new Map();
+  private selection: PluginSelection = {};
+  private watcher?: FSWatcher;
+  private reloadTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Reloads run one at a time, in the order changes were seen
+  private reloadQueue: Promise<unknown> = Promise.resolve();
+  // Plugins between shutdown and swap; they receive no events or queries
+  private reloading: Set<string> = new Set();
+  // Isolated plugins getting a fresh worker after a timeout; like reloading
+  private restarting: Map<string, Promise<void>> = new Map();
+  private readonly reloadDelay = 200;
   private readonly failureThreshold = 5;
   private readonly cooldownPeriod = 60000; // 1 minute
   private logger: Logger;
 
-  constructor(private context: PluginContext) {
+  constructor(
+    private context: PluginContext,
+    private tracer?: Tracer,
+    private configSources: PluginConfigSources = {}
+  ) {
     this.logger = context.logger.child({ component: 'PluginLoader' });
   }
 
-  async loadPlugins(directory: string): Promise<Plugin[]> {
+  /**
+   * Load the plugins in a directory's subdirectories, the plugin packages
+   * installed in its node_modules, and the packages named in `packages`
+   *
+   * A subdirectory or package without manifest.json is a plugin if its
+   * package.json has the `claudeware-plugin` keyword or a `claudeware`
+   * section.
+   */
+  async loadPlugins(directory: string, packages: string[] = []): Promise<Plugin[]> {
     const plugins: Plugin[] = [];
+    const packageDirs = new Map<string, string>();
 
     try {
       const files = await fs.readdir(directory);
@@ -43,6 +147,18 @@ export class PluginLoader {
         if (file.startsWith('.')) continue;
 
         const filePath = path.join(directory, file);
+
+        if (file === 'node_modules') {
+          try {
+            for (const packageDir of await findPackagePlugins(filePath)) {
+              packageDirs.set(packageDir, path.relative(filePath, packageDir));
+            }
+          } catch (error) {
+            this.logger.error({ error, directory: filePath }, 'Failed to read plugin packages');
+          }
+          continue;
+        }
+
         let stat;
 
         try {
@@ -73,6 +189,27 @@ export class PluginLoader {
         }
       }
 
+      for (const specifier of packages) {
+        try {
+          packageDirs.set(resolvePluginPackage(specifier, directory), specifier);
+        } catch (error) {
+          this.logger.error(
+            {
+              plugin: specifier,
+              error: error instanceof Error ? error.message : String(error)
+            },
+            'Failed to load plugin'
+          );
+        }
+      }
+
+      for (const [packageDir, label] of packageDirs) {
+        const plugin = await this.loadPlugin(packageDir, label);
+        if (plugin) {
+          plugins.push(plugin);
+        }
+      }
+
       // Sort plugins by priority
       plugins.sort((a, b) => a.manifest.priority - b.manifest.priority);
 
@@ -83,18 +220,313 @@ export class PluginLoader {
     return plugins;
   }
 
+  /**
+   * Load, select, order and start the plugins in a directory
+   *
+   * Selected plugins are initialized after their dependencies and then
+   * registered. A plugin is skipped, with the reason logged and returned,
+   * when it isn't selected, fails a compatibility check (dependency
+   * versions, engines.claudeware, conflicts), is part of a dependency
+   * cycle, fails to initialize, or depends on a plugin that was skipped.
+   */
+  async startPlugins(directory: string, selection: PluginSelection = {}): Promise<PluginStartup> {
+    this.selection = selection;
+    const loaded = await this.loadPlugins(directory, selection.packages);
+    const skipped = new Map<string, string>();
+
+    const selected = loaded.filter(plugin => {
+      const reason = this.unselectedReason(plugin.name);
+      if (reason) skipped.set(plugin.name, reason);
+      return !reason;
+    });
+
+    // Dependency versions and conflicts are checked before anything starts
+    const installed = new Map(loaded.map(plugin => [plugin.name, plugin]));
+    const running = new Map(selected.map(plugin => [plugin.name, plugin]));
+    const problems: CompatibilityProblem[] = selected.flatMap(plugin => checkCompatibility(plugin, installed, running));
+
+    for (const { plugin, problem } of problems) {
+      skipped.set(plugin, skipped.has(plugin) ? `${skipped.get(plugin)}; ${problem}` : problem);
+    }
+    if (problems.length > 0) {
+      this.logger.error({ problems: problems.length }, formatCompatibilityReport(problems));
+    }
+
+    const started: Plugin[] = [];
+    const startedNames = new Set<string>();
+
+    for (const plugin of this.orderByDependencies(selected, skipped)) {
+      const blocker = Object.keys(dependencyRanges(plugin.manifest)).find(dep => !startedNames.has(dep));
+      if (blocker !== undefined) {
+        skipped.set(
+          plugin.name,
+          skipped.has(blocker)
+            ? `dependency ${blocker} was skipped (${skipped.get(blocker)})`
+            : `dependency ${blocker} is not installed`
+        );
+        continue;
+      }
+
+      try {
+        await this.initializePlugin(plugin);
+      } catch (error) {
+        skipped.set(plugin.name, error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      this.registerPlugin(plugin);
+      started.push(plugin);
+      startedNames.add(plugin.name);
+    }
+
+    for (const [name, reason] of skipped) {
+      this.logger.warn({ plugin: name, reason }, 'Plugin skipped');
+    }
+
+    if (started.length > 0) {
+      this.logger.info(
+        { capabilities: Object.fromEntries(started.map(plugin => [plugin.name, grantedCapabilities(plugin.manifest)])) },
+        formatCapabilitySummary(started)
+      );
+    }
+
+    return {
+      started,
+      skipped: Array.from(skipped, ([name, reason]) => ({ name, reason }))
+    };
+  }
+
+  private unselectedReason(name: string): string | undefined {
+    const enabled = this.selection.enabledPlugins ?? [];
+    if (enabled.length > 0 && !enabled.includes(name)) return 'not in enabledPlugins';
+    if (this.selection.disabledPlugins?.includes(name)) return 'in disabledPlugins';
+    return undefined;
+  }
+
+  /**
+   * Reload plugins in `directory` as their files change
+   *
+   * Changes are grouped per plugin directory and handed to reloadPlugin
+   * once they settle. A new directory starts its plugin if it's selected.
+   */
+  watch(directory: string): void {
+    if (this.watcher) return;
+
+    this.watcher = watchDirectory(directory, { recursive: true }, (_, filename) => {
+      const pluginPath = filename ? this.changedPluginPath(directory, filename.toString()) : undefined;
+      if (!pluginPath) return;
+
+      clearTimeout(this.reloadTimers.get(pluginPath));
+      this.reloadTimers.set(pluginPath, setTimeout(() => {
+        this.reloadTimers.delete(pluginPath);
+        void this.reloadPlugin(pluginPath);
+      }, this.reloadDelay));
+    });
+
+    this.watcher.on('error', error => {
+      this.logger.error({ directory, error: error.message }, 'Plugin directory watch failed');
+    });
+    this.logger.info({ directory }, 'Watching plugins for changes');
+  }
+
+  /**
+   * The plugin a changed file belongs to; in node_modules, only packages
+   * already loaded count, so installs of other packages are ignored
+   */
+  private changedPluginPath(directory: string, filename: string): string | undefined {
+    const [entry, name, scopedName] = filename.split(path.sep);
+    if (!entry || entry.startsWith('.')) return undefined;
+    if (entry !== 'node_modules') return path.join(directory, entry);
+
+    const packageDir = name?.startsWith('@') && scopedName
+      ? path.join(directory, entry, name, scopedName)
+      : path.join(directory, entry, name ?? '');
+    return Array.from(this.sources.values()).includes(packageDir) ? packageDir : undefined;
+  }
+
+  unwatch(): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+
+    for (const timer of this.reloadTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.reloadTimers.clear();
+  }
+
+  /**
+   * Load the plugin in `pluginPath` again and swap it in for the running
+   * version
+   *
+   * The new version's manifest, module, config and compatibility are
+   * checked first; if any fail, the running version is left alone. Then
+   * the running version is shut down, the new one initialized and put in
+   * its place in one step. If initialize fails, the old version is
+   * initialized again and kept.
+   *
+   * @returns true if the new version is running
+   */
+  reloadPlugin(pluginPath: string): Promise<boolean> {
+    const reload = this.reloadQueue.then(() => this.swapPlugin(pluginPath));
+    this.reloadQueue = reload.catch(() => undefined);
+    return reload;
+  }
+
+  private async swapPlugin(pluginPath: string): Promise<boolean> {
+    const name = Array.from(this.sources).find(([, source]) => source === pluginPath)?.[0];
+    const current = name !== undefined ? this.plugins.get(name) : undefined;
+    const currentContext = name !== undefined ? this.contexts.get(name) : undefined;
+    const label = name ?? path.basename(pluginPath);
+
+    const keepCurrent = (reason: string): false => {
+      if (name !== undefined && currentContext) {
+        this.contexts.set(name, currentContext);
+      }
+      this.logger.error(
+        { plugin: label, error: reason },
+        current ? 'Plugin reload failed; keeping the running version' : 'Plugin reload failed'
+      );
+      return false;
+    };
+
+    this.clearModuleCache(pluginPath);
+    const fresh = await this.loadPlugin(pluginPath, path.basename(pluginPath));
+    if (!fresh) {
+      return keepCurrent('plugin could not be loaded');
+    }
+
+    if (name !== undefined && fresh.name !== name) {
+      return keepCurrent(`manifest name changed from ${name} to ${fresh.name}`);
+    }
+
+    if (!current) {
+      const reason = this.unselectedReason(fresh.name);
+      if (reason) {
+        this.logger.debug({ plugin: fresh.name, reason }, 'Changed plugin is not selected');
+        return false;
+      }
+    }
+
+    // The new version and every plugin that depends on it must still line up
+    const installed = new Map(Array.from(this.plugins, ([key, state]) => [key, state.plugin]));
+    installed.set(fresh.name, fresh);
+    const affected = Array.from(installed.values())
+      .filter(plugin => plugin === fresh || dependencyNames(plugin.manifest).includes(fresh.name));
+    const problems = affected.flatMap(plugin => checkCompatibility(plugin, installed));
+    if (problems.length > 0) {
+      return keepCurrent(formatCompatibilityReport(problems));
+    }
+
+    // Bad settings for the new version keep the current one running
+    let freshContext: PluginContext;
+    try {
+      freshContext = this.createContext(fresh.manifest);
+    } catch (error) {
+      return keepCurrent(error instanceof Error ? error.message : String(error));
+    }
+
+    if (current) {
+      this.reloading.add(fresh.name);
+      try {
+        await current.plugin.shutdown();
+      } catch (error) {
+        this.logger.error(
+          { plugin: fresh.name, error: error instanceof Error ? error.message : String(error) },
+          'Plugin shutdown error'
+        );
+      }
+    }
+
+    this.contexts.set(fresh.name, freshContext);
+    try {
+      await this.initializePlugin(fresh);
+    } catch (error) {
+      const reason = keepCurrent(error instanceof Error ? error.message : String(error));
+
+      if (current) {
+        try {
+          await this.initializePlugin(current.plugin);
+        } catch {
+          this.plugins.delete(fresh.name);
+          this.logger.error({ plugin: fresh.name }, 'Previous plugin version failed to restart; plugin removed');
+        }
+        this.reloading.delete(fresh.name);
+      }
+      return reason;
+    }
+
+    this.registerPlugin(fresh);
+    this.reloading.delete(fresh.name);
+    this.logger.info(
+      { plugin: fresh.name, version: fresh.version, previousVersion: current?.plugin.version },
+      current ? 'Plugin reloaded' : 'Plugin started'
+    );
+    return true;
+  }
+
+  // Drop the plugin's modules from require's cache so they load fresh
+  private clearModuleCache(pluginPath: string): void {
+    const prefix = path.resolve(pluginPath) + path.sep;
+    for (const key of Object.keys(require.cache)) {
+      if (key.startsWith(prefix)) {
+        delete require.cache[key];
+      }
+    }
+  }
+
+  /**
+   * Order plugins so each comes after its dependencies, keeping the given
+   * order otherwise. Members of a cycle are left out and marked skipped.
+   */
+  private orderByDependencies(plugins: Plugin[], skipped: Map<string, string>): Plugin[] {
+    const byName = new Map(plugins.map(plugin => [plugin.name, plugin]));
+    const ordered: Plugin[] = [];
+    const visited = new Set<string>();
+    const visiting: string[] = [];
+
+    const visit = (plugin: Plugin): void => {
+      if (visited.has(plugin.name)) return;
+
+      const cycleStart = visiting.indexOf(plugin.name);
+      if (cycleStart !== -1) {
+        const cycle = [...visiting.slice(cycleStart), plugin.name];
+        for (const name of cycle) {
+          skipped.set(name, `circular dependency: ${cycle.join(' -> ')}`);
+        }
+        return;
+      }
+
+      visiting.push(plugin.name);
+      for (const dep of dependencyNames(plugin.manifest)) {
+        const dependency = byName.get(dep);
+        if (dependency) visit(dependency);
+      }
+      visiting.pop();
+
+      visited.add(plugin.name);
+      ordered.push(plugin);
+    };
+
+    plugins.forEach(visit);
+    return ordered.filter(plugin => !skipped.has(plugin.name));
+  }
+
   private async loadPlugin(pluginPath: string, pluginName: string): Promise<Plugin | null> {
     try {
-      // Load manifest
-      const manifestPath = path.join(pluginPath, 'manifest.json');
-      const manifestContent = await fs.readFile(manifestPath, 'utf-8');
-      const manifest: PluginManifest = JSON.parse(manifestContent);
+      const manifest = await this.readManifest(pluginPath);
 
       // Validate manifest
       if (!manifest.name || !manifest.version) {
         throw new Error('Invalid manifest: missing name or version');
       }
 
+      // Isolated plugins load in their own worker thread once initialized
+      if (manifest.isolation === 'worker') {
+        const isolated = new IsolatedPlugin({ modulePath: require.resolve(pluginPath), manifest });
+        this.sources.set(isolated.name, pluginPath);
+        return isolated;
+      }
+
       // Dynamic import of plugin module
       let moduleExports;
 
@@ -163,6 +595,7 @@ export class PluginLoader {
         throw new Error('Plugin must implement initialize, onEvent, and shutdown methods');
       }
 
+      this.sources.set(plugin.name, pluginPath);
       return plugin;
 
     } catch (error) {
@@ -177,6 +610,27 @@ export class PluginLoader {
     }
   }
 
+  /**
+   * A plugin's manifest.json, or else the manifest its package.json
+   * describes
+   */
+  private async readManifest(pluginPath: string): Promise<PluginManifest> {
+    let manifestContent: string;
+    try {
+      manifestContent = await fs.readFile(path.join(pluginPath, 'manifest.json'), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+
+      const pkg = await readPackageJson(pluginPath).catch(() => undefined);
+      if (!pkg || !isPluginPackage(pkg)) {
+        throw new Error(`No manifest.json or claudeware package.json in ${pluginPath}`);
+      }
+      return manifestFromPackage(pkg);
+    }
+
+    return JSON.parse(manifestContent);
+  }
+
   async resolveDependencies(plugins: Plugin[]): Promise<Plugin[]> {
     const pluginMap = new Map<string, Plugin>();
     const visited = new Set<string>();
@@ -190,13 +644,19 @@ export class PluginLoader {
 
     // Check for missing dependencies
     for (const plugin of plugins) {
-      for (const dep of plugin.manifest.dependencies) {
+      for (const dep of Object.keys(dependencyRanges(plugin.manifest))) {
         if (!pluginMap.has(dep)) {
           throw new Error(`Missing dependency: ${dep}`);
         }
       }
     }
 
+    // Check dependency versions, engines and conflicts
+    const problems = plugins.flatMap(plugin => checkCompatibility(plugin, pluginMap));
+    if (problems.length > 0) {
+      throw new PluginCompatibilityError(problems);
+    }
+
     // Topological sort with cycle detection
     const visit = (name: string) => {
       if (visited.has(name)) return;
@@ -210,7 +670,7 @@ export class PluginLoader {
 
       if (plugin) {
         // Visit dependencies first
-        for (const dep of plugin.manifest.dependencies) {
+        for (const dep of dependencyNames(plugin.manifest)) {
           visit(dep);
         }
 
@@ -234,9 +694,10 @@ export class PluginLoader {
 
     try {
       await this.executeWithTimeout(
-        plugin.initialize(this.context),
+        plugin.initialize(this.contextFor(plugin)),
         timeout,
-        `Plugin ${plugin.name} initialization timeout`
+        `Plugin ${plugin.name} initialization timeout`,
+        plugin
       );
     } catch (error) {
       this.logger.error(
@@ -247,8 +708,8 @@ export class PluginLoader {
         'Plugin initialization error'
       );
       const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes('timeout')) {
-        throw error; // Re-throw timeout errors as-is
+      if (errorMessage.includes('timeout') || error instanceof PluginConfigError) {
+        throw error; // Re-throw timeout and config errors as-is
       }
       throw new Error(`Plugin initialization failed: ${plugin.name}`);
     }
@@ -282,14 +743,19 @@ export class PluginLoader {
   private async executePlugin(state: PluginState, event: QueryEvent): Promise<void> {
     const plugin = state.plugin;
     const startTime = Date.now();
+    const span = this.tracer?.startSpan('plugin.onEvent', {
+      parent: this.tracer.spanFor(event.metadata?.correlationId),
+      attributes: { 'plugin.name': plugin.name, 'event.type': event.type, 'event.id': event.id }
+    });
 
     try {
       const timeout = plugin.manifest.timeout || 5000;
 
       await this.executeWithTimeout(
-        plugin.onEvent(event, this.context),
+        plugin.onEvent(event, this.contextFor(plugin)),
         timeout,
-        `Plugin ${plugin.name} execution timeout`
+        `Plugin ${plugin.name} execution timeout`,
+        plugin
       );
 
       // Reset failure count on success
@@ -297,25 +763,14 @@ export class PluginLoader {
 
       // Update metrics
       this.updateMetrics(plugin.name, Date.now() - startTime, true);
+      span?.setStatus({ code: SpanStatusCode.OK });
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
 
-      // Increment failure count
-      state.failures++;
-      state.lastFailure = Date.now();
-
-      // Update metrics
-      this.updateMetrics(plugin.name, Date.now() - startTime, false, errorMessage);
-
-      // Check if plugin should be disabled
-      if (state.failures >= this.failureThreshold) {
-        this.disablePlugin(plugin.name);
-        this.logger.warn(
-          { plugin: plugin.name },
-          'Plugin disabled due to repeated failures'
-        );
-      }
+      this.recordFailure(state, Date.now() - startTime, errorMessage);
+      span?.setAttribute('plugin.timeout', errorMessage.includes('timeout'))
+        .setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
 
       // Log error based on type
       if (errorMessage.includes('timeout')) {
@@ -337,23 +792,250 @@ export class PluginLoader {
           'Plugin execution error'
         );
       }
+    } finally {
+      span?.end();
     }
   }
 
+  /**
+   * Run the beforeQuery chain in priority order
+   *
+   * Each interceptor sees the request as left by the previous one. The chain
+   * stops at the first interceptor that responds; an interceptor that throws
+   * or times out is skipped and counts as a failure.
+   *
+   * @throws QueryRejectedError If an interceptor rejects the query
+   */
+  async runBeforeQuery(request: QueryRequest): Promise<QueryInterception> {
+    const interception: QueryInterception = {
+      request: { ...request, options: { ...request.options } },
+      chain: []
+    };
+
+    for (const state of this.getInterceptors()) {
+      const plugin = state.plugin;
+
+      if (plugin.beforeQuery) {
+        // The plugin gets its own copy; changing it in place needs
+        // query:modify as much as returning changes does
+        const outcome = await this.runInterceptor(state, 'beforeQuery', request.queryId, async () => {
+          const copy = cloneForPlugin(interception.request);
+          const result = await plugin.beforeQuery!(copy, this.contextFor(plugin));
+          if (changesQuery(result, interception.request) || !isDeepStrictEqual(copy, interception.request)) {
+            requireCapability(plugin.manifest, 'query:modify', 'change or answer queries');
+          }
+          return { result, copy };
+        });
+        const result = outcome?.result;
+        if (outcome) {
+          interception.request = outcome.copy;
+        }
+
+        if (result?.action === 'reject') {
+          this.logger.info({ plugin: plugin.name, reason: result.reason }, 'Query rejected');
+          throw new QueryRejectedError(plugin.name, result.reason, request.queryId);
+        }
+
+        if (result?.action === 'respond') {
+          interception.response = result.response;
+          interception.respondedBy = plugin.name;
+          return interception;
+        }
+
+        if (result?.action === 'continue') {
+          interception.request = {
+            ...interception.request,
+            prompt: result.prompt ?? interception.request.prompt,
+            options: result.options ?? interception.request.options
+          };
+        }
+      }
+
+      interception.chain.push(plugin.name);
+    }
+
+    return interception;
+  }
+
+  /**
+   * Run afterResponse on the interceptors a query passed through, in reverse
+   * order, so the first interceptor sees the final response
+   *
+   * @returns The response after every interceptor's changes
+   */
+  async runAfterResponse(
+    interception: QueryInterception,
+    response: ResponsePayload
+  ): Promise<ResponsePayload> {
+    let current = response;
+
+    for (const name of [...interception.chain].reverse()) {
+      const state = this.plugins.get(name);
+      if (!state || !state.plugin.afterResponse || this.isPluginDisabled(state)) continue;
+
+      const plugin = state.plugin;
+      const result = await this.runInterceptor(state, 'afterResponse', interception.request.queryId, async () => {
+        const copy = cloneForPlugin(current);
+        const returned = await plugin.afterResponse!(cloneForPlugin(interception.request), copy, this.contextFor(plugin));
+        const next = returned || copy;
+        if (!isDeepStrictEqual(next, current)) {
+          requireCapability(plugin.manifest, 'query:modify', 'change responses');
+        }
+        return next;
+      });
+
+      if (result) {
+        current = result;
+      }
+    }
+
+    return current;
+  }
+
+  private getInterceptors(): PluginState[] {
+    return Array.from(this.plugins.values())
+      .filter(state => state.plugin.beforeQuery || state.plugin.afterResponse)
+      .filter(state => !this.isPluginDisabled(state))
+      .sort((a, b) => a.plugin.manifest.priority - b.plugin.manifest.priority);
+  }
+
+  private async runInterceptor<T>(
+    state: PluginState,
+    hook: 'beforeQuery' | 'afterResponse',
+    queryId: string,
+    step: () => Promise<T>
+  ): Promise<T | undefined> {
+    const plugin = state.plugin;
+    const startTime = Date.now();
+
+    try {
+      const result = await this.executeWithTimeout(
+        step(),
+        plugin.manifest.timeout || 5000,
+        `Plugin ${plugin.name} ${hook} timeout`,
+        plugin
+      );
+
+      state.failures = 0;
+      this.updateMetrics(plugin.name, Date.now() - startTime, true);
+      return result;
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      this.recordFailure(state, Date.now() - startTime, errorMessage);
+      this.logger.error(
+        { plugin: plugin.name, hook, query: queryId, error: errorMessage },
+        'Plugin interceptor error'
+      );
+      return undefined;
+    }
+  }
+
+  private recordFailure(state: PluginState, executionTime: number, errorMessage: string): void {
+    state.failures++;
+    state.lastFailure = Date.now();
+
+    this.updateMetrics(state.plugin.name, executionTime, false, errorMessage);
+
+    // Check if plugin should be disabled
+    if (state.failures >= this.failureThreshold) {
+      this.disablePlugin(state.plugin.name);
+      this.logger.warn(
+        { plugin: state.plugin.name },
+        'Plugin disabled due to repeated failures'
+      );
+    }
+  }
+
+  /**
+   * Race a plugin call against its timeout. A plugin on the main thread
+   * keeps running after it times out; an isolated one is terminated and,
+   * once registered, restarted.
+   */
   private async executeWithTimeout<T>(
     promise: Promise<T>,
     timeout: number,
-    timeoutMessage: string
+    timeoutMessage: string,
+    plugin?: Plugin
   ): Promise<T> {
-    return Promise.race([
-      promise,
-      new Promise<T>((_, reject) =>
-        setTimeout(() => reject(new Error(timeoutMessage)), timeout)
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      return await Promise.race([
+        promise,
+        new Promise<T>((_, reject) => {
+          timer = setTimeout(() => {
+            reject(new Error(timeoutMessage));
+
+            if (plugin instanceof IsolatedPlugin && plugin.isRunning()) {
+              this.logger.warn({ plugin: plugin.name }, 'Terminating isolated plugin after timeout');
+              this.restartIsolated(plugin);
+            }
+          }, timeout);
+        })
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Terminate a timed-out isolated plugin and initialize it in a fresh
+   * worker; one that fails to start again is removed. A plugin that is not
+   * registered yet, or is being reloaded, is left to its caller.
+   */
+  private restartIsolated(plugin: IsolatedPlugin): void {
+    const terminated = plugin.terminate();
+    const name = plugin.name;
+    if (this.plugins.get(name)?.plugin !== plugin || this.reloading.has(name) || this.restarting.has(name)) {
+      return;
+    }
+
+    const restart = (async () => {
+      await terminated;
+      try {
+        await this.initializePlugin(plugin);
+        this.logger.info({ plugin: name }, 'Isolated plugin restarted after timeout');
+      } catch {
+        this.plugins.delete(name);
+        this.logger.error({ plugin: name }, 'Isolated plugin failed to restart after timeout; plugin removed');
+      } finally {
+        this.restarting.delete(name);
+      }
+    })();
+    this.restarting.set(name, restart);
+  }
+
+  /**
+   * The shared context with the plugin's own resolved config and
+   * permissions, limited to its capabilities
+   *
+   * @throws PluginConfigError if the plugin's settings are invalid
+   */
+  private createContext(manifest: PluginManifest): PluginContext {
+    return scopeContext({
+      ...this.context,
+      config: resolvePluginConfig(manifest, this.configSources),
+      permissions: new PermissionValidator(
+        manifest.permissions ? { claudeware: { version: manifest.version, permissions: manifest.permissions } } : {}
       )
-    ]);
+    }, manifest);
+  }
+
+  // Config is resolved when a plugin is first initialized, so settings for
+  // plugins that aren't selected are never checked
+  private contextFor(plugin: Plugin): PluginContext {
+    let context = this.contexts.get(plugin.name);
+    if (!context) {
+      context = this.createContext(plugin.manifest);
+      this.contexts.set(plugin.name, context);
+    }
+    return context;
   }
 
   private isPluginDisabled(state: PluginState): boolean {
+    if (this.reloading.has(state.plugin.name) || this.restarting.has(state.plugin.name)) return true;
     if (!state.disabled) return false;
 
     // Check if cooldown period has passed
@@ -411,6 +1093,10 @@ export class PluginLoader {
   }
 
   async shutdown(): Promise<void> {
+    this.unwatch();
+    await this.reloadQueue;
+    await Promise.all(this.restarting.values());
+
     const shutdownPromises: Promise<void>[] = [];
 
     for (const [name, state] of this.plugins) {
@@ -435,9 +1121,38 @@ export class PluginLoader {
     // Clear all state
     this.plugins.clear();
     this.executionMetrics.clear();
+    this.contexts.clear();
+    this.sources.clear();
   }
 
   async getPluginMetrics(): Promise<PluginMetrics[]> {
     return Array.from(this.executionMetrics.values());
   }
-}
\ No newline at end of file
+}
+
+/**
+ * A deep copy of request or response data for a plugin to work on
+ *
+ * Plain objects and arrays are copied, and built-in data such as Dates and
+ * Maps is structuredClone'd; class instances and functions, such as an SDK
+ * AbortController or callbacks in query options, are shared.
+ */
+function cloneForPlugin<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(cloneForPlugin) as T;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype === Object.prototype || prototype === null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, cloneForPlugin(entry)])
+    ) as T;
+  }
+
+  const builtIn = types.isDate(value) || types.isRegExp(value) || types.isMap(value) ||
+    types.isSet(value) || ArrayBuffer.isView(value);
+  return builtIn ? structuredClone(value) : value;
+}
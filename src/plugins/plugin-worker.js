@@ -0,0 +1,277 @@
+/**
+ * Worker thread entry for isolated plugins (see isolated-plugin.ts)
+ *
+ * Loads the plugin module named in workerData and runs its hooks when the
+ * main thread asks. The plugin's context forwards dataStore, eventBus and
+ * logger calls to the main thread; sharedState writes are forwarded too,
+ * but reads only see this plugin's own writes. permissions answers from the
+ * main thread's PermissionValidator decisions.
+ *
+ * Without the network or fs:write capability, Node's net, dgram and fs
+ * modules refuse connections and writes here with a PermissionError. A
+ * child process or nested Worker would escape both guards, so
+ * child_process and worker_threads.Worker need both capabilities. Native
+ * addons and Node's internal bindings aren't guarded.
+ */
+
+const { parentPort, workerData } = require('worker_threads');
+const { EventEmitter } = require('events');
+
+const HOOKS = ['initialize', 'onEvent', 'beforeQuery', 'afterResponse', 'shutdown'];
+const LOG_LEVELS = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
+
+const capabilities = new Set(workerData.capabilities || []);
+const pending = new Map();
+const events = new EventEmitter();
+const subscribed = new Set();
+let nextId = 0;
+
+function serializeError(error) {
+  return error instanceof Error
+    ? { name: error.name, message: error.message, stack: error.stack }
+    : { name: 'Error', message: String(error) };
+}
+
+// `capability` may list several, e.g. ['fs:write', 'network']
+function permissionError(capability, action) {
+  const needed = [].concat(capability);
+  const noun = needed.length > 1 ? 'capabilities' : 'capability';
+  return Object.assign(
+    new Error(`Plugin ${workerData.name} needs the ${needed.join(' and ')} ${noun} to ${action}`),
+    { name: 'PermissionError' }
+  );
+}
+
+function deny(capability, action) {
+  return function denied() {
+    throw permissionError(capability, action);
+  };
+}
+
+const FS_WRITES = [
+  'writeFile', 'appendFile', 'mkdir', 'mkdtemp', 'rm', 'rmdir', 'unlink', 'rename', 'copyFile',
+  'cp', 'truncate', 'symlink', 'link', 'chmod', 'chown', 'lchown', 'utimes', 'lutimes'
+];
+
+function guardFileSystem() {
+  const fs = require('fs');
+
+  for (const method of FS_WRITES) {
+    for (const [target, name] of [[fs, method], [fs, `${method}Sync`], [fs.promises, method]]) {
+      if (typeof target[name] === 'function') {
+        target[name] = deny('fs:write', `call fs.${name}`);
+      }
+    }
+  }
+  fs.createWriteStream = deny('fs:write', 'call fs.createWriteStream');
+
+  // Opening for reading stays allowed
+  const { O_WRONLY, O_RDWR, O_CREAT, O_APPEND, O_TRUNC } = fs.constants;
+  const writes = flags => typeof flags === 'number'
+    ? (flags & (O_WRONLY | O_RDWR | O_CREAT | O_APPEND | O_TRUNC)) !== 0
+    : typeof flags === 'string' && /[wa+]/.test(flags);
+
+  for (const [target, name] of [[fs, 'open'], [fs, 'openSync'], [fs.promises, 'open']]) {
+    const open = target[name];
+    target[name] = function (file, flags, ...rest) {
+      if (writes(flags)) throw permissionError('fs:write', `open ${file} for writing`);
+      return open.call(this, file, flags, ...rest);
+    };
+  }
+}
+
+function guardNetwork() {
+  const net = require('net');
+  const dgram = require('dgram');
+
+  // http, https, tls and fetch all connect through net.Socket
+  net.Socket.prototype.connect = deny('network', 'open network connections');
+  net.Server.prototype.listen = deny('network', 'listen for connections');
+  dgram.Socket.prototype.bind = deny('network', 'bind UDP sockets');
+  dgram.Socket.prototype.send = deny('network', 'send UDP packets');
+  if (typeof globalThis.fetch === 'function') {
+    globalThis.fetch = async () => {
+      throw permissionError('network', 'call fetch');
+    };
+  }
+}
+
+const CHILD_PROCESS = ['spawn', 'spawnSync', 'exec', 'execSync', 'execFile', 'execFileSync', 'fork'];
+
+// A child process or nested worker runs without this worker's guards
+function guardProcesses(missing) {
+  const childProcess = require('child_process');
+  const workerThreads = require('worker_threads');
+
+  for (const method of CHILD_PROCESS) {
+    childProcess[method] = deny(missing, `call child_process.${method}`);
+  }
+  workerThreads.Worker = deny(missing, 'start a Worker');
+}
+
+// Call a context method on the main thread and wait for its result
+function request(target, method, args) {
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    try {
+      parentPort.postMessage({ type: 'context', id, target, method, args });
+    } catch (error) {
+      pending.delete(id);
+      reject(error);
+    }
+  });
+}
+
+// Call a context method on the main thread without waiting
+function notify(target, method, args) {
+  parentPort.postMessage({ type: 'context', target, method, args });
+}
+
+function subscribe(type) {
+  if (!subscribed.has(type)) {
+    subscribed.add(type);
+    parentPort.postMessage({ type: 'subscribe', event: type });
+  }
+}
+
+function createLogger(bindings) {
+  const logger = { child: extra => createLogger({ ...bindings, ...extra }) };
+  for (const level of LOG_LEVELS) {
+    logger[level] = (...args) => notify('logger', level, { bindings, args });
+  }
+  return logger;
+}
+
+// Listeners stay in the worker; events they subscribe to are forwarded here
+const eventBus = new Proxy({}, {
+  get(_, method) {
+    switch (method) {
+      case 'on':
+      case 'addListener':
+      case 'once':
+        return (type, listener) => {
+          subscribe(type);
+          events[method](type, listener);
+          return eventBus;
+        };
+      case 'off':
+      case 'removeListener':
+        return (type, listener) => {
+          events.off(type, listener);
+          return eventBus;
+        };
+      case 'then':
+        return undefined;
+      case 'emit':
+      case 'emitEvent':
+      case 'emitEventAsync':
+        if (!capabilities.has('events:emit')) {
+          return deny('events:emit', `call eventBus.${method}`);
+        }
+        // falls through
+      default:
+        return (...args) => {
+          notify('eventBus', method, args);
+          return true;
+        };
+    }
+  }
+});
+
+const dataStore = new Proxy({}, {
+  get(_, method) {
+    if (typeof method !== 'string' || method === 'then') return undefined;
+    return (...args) => request('dataStore', method, args);
+  }
+});
+
+class ForwardedState extends Map {
+  set(key, value) {
+    notify('sharedState', 'set', [key, value]);
+    return super.set(key, value);
+  }
+
+  delete(key) {
+    notify('sharedState', 'delete', [key]);
+    return super.delete(key);
+  }
+}
+
+// Attaching databases needs the main thread's connection, so only the
+// checks are available here
+function createPermissions({ readMainDb, readPluginDbs }) {
+  const unavailable = method => new Error(`permissions.${method} is not available to isolated plugins`);
+  return {
+    canReadMainDb: () => readMainDb,
+    canReadPluginDb: pluginName => readPluginDbs.includes(pluginName),
+    getReadablePlugins: () => [...readPluginDbs],
+    validatePath: () => {
+      throw unavailable('validatePath');
+    },
+    validateAndAttach: async () => {
+      throw unavailable('validateAndAttach');
+    }
+  };
+}
+
+const context = {
+  eventBus,
+  dataStore,
+  logger: createLogger(undefined),
+  config: workerData.config,
+  sharedState: new ForwardedState(),
+  permissions: workerData.permissions && createPermissions(workerData.permissions)
+};
+
+let plugin;
+
+async function handleCall({ id, method, args }) {
+  try {
+    const result = await plugin[method](...args, context);
+    parentPort.postMessage({ type: 'result', id, result });
+  } catch (error) {
+    parentPort.postMessage({ type: 'result', id, error: serializeError(error) });
+  }
+}
+
+parentPort.on('message', message => {
+  switch (message.type) {
+    case 'call':
+      void handleCall(message);
+      break;
+    case 'reply': {
+      const waiter = pending.get(message.id);
+      pending.delete(message.id);
+      if (!waiter) break;
+      if (message.error) {
+        waiter.reject(Object.assign(new Error(message.error.message), { name: message.error.name }));
+      } else {
+        waiter.resolve(message.result);
+      }
+      break;
+    }
+    case 'event':
+      events.emit(message.event, ...message.args);
+      break;
+  }
+});
+
+if (!capabilities.has('fs:write')) guardFileSystem();
+if (!capabilities.has('network')) guardNetwork();
+
+const unguarded = ['fs:write', 'network'].filter(capability => !capabilities.has(capability));
+if (unguarded.length > 0) guardProcesses(unguarded);
+
+try {
+  const exported = require(workerData.modulePath);
+  const PluginClass = exported.default || exported;
+  plugin = typeof PluginClass === 'function' ? new PluginClass() : PluginClass;
+
+  parentPort.postMessage({
+    type: 'loaded',
+    hooks: HOOKS.filter(hook => typeof plugin[hook] === 'function')
+  });
+} catch (error) {
+  parentPort.postMessage({ type: 'loaded', error: serializeError(error) });
+}
@@ -4,8 +4,13 @@ export interface WrapperConfig {
 
   wrapper: {
     timeout: number;
+    idleTimeout?: number;
     bufferSize: number;
+    maxMessageSize?: number;
+    streamFormat?: 'json' | 'sse';
+    responseDeltas?: boolean;
     gracefulShutdownTimeout: number;
+    pty?: boolean;
   };
 
   plugins: {
@@ -14,6 +19,22 @@ export interface WrapperConfig {
     retryAttempts: number;
     enabledPlugins?: string[];
     disabledPlugins?: string[];
+    // npm package names, or paths relative to `directory`, of plugins to
+    // load besides those found in it
+    packages?: string[];
+    // Reload plugins from `directory` when their files change
+    watch?: boolean;
+    // Events waiting for plugins; beyond maxSize (default 1000) the
+    // overflow policy applies (default 'drop-oldest')
+    queue?: {
+      maxSize?: number;
+      overflow?: 'drop-oldest' | 'drop-newest' | 'block';
+    };
+    // Per-plugin settings keyed by plugin name; config.json `plugins.<name>`
+    // sections land here
+    settings?: Record<string, Record<string, unknown>>;
+    // `<plugin>.<key>=<value>` from --plugin-config; beats settings and env
+    overrides?: string[];
   };
 
   database: {
@@ -23,6 +44,14 @@ export interface WrapperConfig {
     batchSize: number;
     flushInterval: number;
     walMode: boolean;
+    // Durable event log for replay across sessions; unset disables
+    eventLog?: {
+      enabled: boolean;
+      // Defaults to the database file
+      path?: string;
+      maxEvents?: number;
+      maxAgeMs?: number;
+    };
   };
 
   monitoring: {
@@ -30,6 +59,14 @@ export interface WrapperConfig {
     metricsPort?: number;
     logLevel: 'debug' | 'info' | 'warn' | 'error';
     logPath?: string;
+    // Append output the parser dropped here (NDJSON); unset disables
+    quarantinePath?: string;
+    // Record child stdout/stderr and stdin here for `claudeware replay`
+    recordPath?: string;
+    // Publish events to the `claudeware daemon` listening on this socket
+    bridgeSocket?: string;
+    // Export spans as OTLP/JSON: a file path, or an http(s) collector URL
+    traceExport?: string;
   };
 
   categorization: {
@@ -1,3 +1,5 @@
+import type { ParseDiagnostic, ParserStats } from '../core/json-parser';
+
 export interface EventMetadata {
   correlationId: string;
   sessionId: string;
@@ -5,17 +7,191 @@ export interface EventMetadata {
   source: string;
   queryId?: string;
   latencyMs?: number;
+  // Set on responses a later event supersedes, such as stream-json
+  // assistant turns before their `result`; skip them when persisting or
+  // counting tokens
+  intermediate?: boolean;
   [key: string]: any; // Allow additional properties
 }
 
+/**
+ * Event as seen through the string API: `data` is untyped
+ */
 export interface QueryEvent {
   id: string;
-  type: 'query' | 'response' | 'tool_use' | 'error';
+  type: QueryEventType | PluginEventType;
   timestamp: number;
   data: any;
   metadata: EventMetadata;
 }
 
+/**
+ * Selects events from the replay buffer or the durable event log
+ */
+export interface EventFilter {
+  // Event type, topic or pattern, as accepted by EventBus.on
+  type?: string;
+  sessionId?: string;
+  // Event timestamps in ms, inclusive
+  since?: number;
+  until?: number;
+  // Only events after this one; an id that is no longer kept selects everything
+  afterEventId?: string;
+}
+
+export interface QueryMessage {
+  role: string;
+  content: string;
+}
+
+export interface ContentBlock {
+  type: string;
+  text?: string;
+  thinking?: string;
+  // tool_use blocks
+  id?: string;
+  name?: string;
+  input?: unknown;
+  // tool_result blocks
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+}
+
+export interface TokenUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+/**
+ * A prompt sent to Claude
+ */
+export interface QueryPayload {
+  messages: QueryMessage[];
+  model?: string;
+  // Where the wrapper captured the prompt
+  origin?: 'argv' | 'stdin';
+  // Set when piped input exceeded the capture limit
+  truncated?: boolean;
+  // SDK query options
+  options?: Record<string, any>;
+  // Filled in by emitters that categorize the prompt
+  category?: string;
+  complexity?: string;
+  tokenCount?: number;
+}
+
+/**
+ * An assistant message, or the final result of a query
+ */
+export interface ResponsePayload {
+  id?: string;
+  model?: string;
+  content?: ContentBlock[];
+  usage?: TokenUsage;
+  stop_reason?: string | null;
+  // Set instead of content when the response failed
+  error?: ErrorPayload['error'];
+  // Result messages only
+  durationMs?: number;
+  totalCostUsd?: number;
+  numTurns?: number;
+  // SDK responses carry the raw SDK message fields as well
+  queryId?: string;
+  latencyMs?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * One streamed content delta (with `wrapper.responseDeltas`)
+ */
+export interface ResponseDeltaPayload {
+  messageId?: string;
+  index: number;
+  type: string;
+  text?: string;
+  partialJson?: string;
+  thinking?: string;
+}
+
+/**
+ * A tool call when Claude requests it (`started`) and when its result
+ * comes back (`completed`)
+ */
+export interface ToolUsePayload {
+  toolUseId: string;
+  name?: string;
+  status: 'started' | 'completed';
+  input?: unknown;
+  result?: unknown;
+  isError?: boolean;
+}
+
+export interface ErrorPayload {
+  error: {
+    type: string;
+    message: string;
+    stack?: string;
+  };
+  // Watchdog timeouts only
+  reason?: 'wall-clock' | 'idle';
+  limitMs?: number;
+}
+
+export interface ParseErrorPayload {
+  // Raw fragments are left out; see StreamHandler.onDiagnostics
+  diagnostics: Array<Omit<ParseDiagnostic, 'fragment'>>;
+  counts: ParserStats;
+  // Noise diagnostics rate-limited away since the last event
+  suppressedNoise?: number;
+}
+
+/**
+ * Payload type for each event type
+ */
+export interface QueryEventMap {
+  query: QueryPayload;
+  response: ResponsePayload;
+  'response.delta': ResponseDeltaPayload;
+  tool_use: ToolUsePayload;
+  error: ErrorPayload;
+  'parse-error': ParseErrorPayload;
+}
+
+export type QueryEventType = keyof QueryEventMap;
+
+/**
+ * Custom events emitted by plugins, e.g. `plugin.cache.hit`; `data` is
+ * whatever the plugin sends
+ */
+export type PluginEventType = `plugin.${string}`;
+
+/**
+ * Event whose `data` matches its `type`
+ */
+export interface TypedQueryEvent<K extends QueryEventType> {
+  id: string;
+  type: K;
+  timestamp: number;
+  data: QueryEventMap[K];
+  metadata: EventMetadata;
+}
+
+/**
+ * Discriminated union of all typed events; switch on `type` to narrow `data`
+ */
+export type QueryEventUnion = { [K in QueryEventType]: TypedQueryEvent<K> }[QueryEventType];
+
+/**
+ * Constrains `data` to the payload for the event's type. Events typed as
+ * the plain QueryEvent (data: any) and plugin events still pass.
+ */
+export type ValidQueryEvent<E extends QueryEvent> = E & {
+  data: E['type'] extends QueryEventType ? QueryEventMap[E['type']] : unknown;
+};
+
 export interface QueryRecord {
   id: string;
   sessionId: string;
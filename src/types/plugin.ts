@@ -1,17 +1,58 @@
 import { EventEmitter } from 'events';
-import { QueryEvent } from './events';
+import { QueryEvent, ResponsePayload } from './events';
 import { DataStore } from './database';
 import { Logger } from 'pino';
+import { IPluginConfig } from '../plugins/infrastructure/interfaces/core/IPluginConfig';
+import { IPermissionValidator } from '../plugins/infrastructure/interfaces/core/IPermissionValidator';
 
 export interface PluginManifest {
   name: string;
   version: string;
   description?: string;
-  dependencies: string[];
+  // Plugin names, or name -> semver range, e.g. { "query-collector": "^1.2.0" }
+  dependencies: string[] | Record<string, string>;
+  // Used when installed, and must then satisfy the range
+  optionalDependencies?: Record<string, string>;
+  // Plugins this one can't run alongside, by version range
+  conflicts?: Record<string, string>;
+  engines?: {
+    // Range of claudeware versions the plugin supports
+    claudeware?: string;
+  };
   priority: number;
   timeout: number;
   capabilities: string[];
-  config?: Record<string, any>;
+  // 'worker' runs the plugin in a worker thread that is terminated when it
+  // times out (default 'none': the main thread)
+  isolation?: 'none' | 'worker';
+  // Heap and stack limits for an isolated plugin's worker
+  resourceLimits?: PluginResourceLimits;
+  // Settings the plugin accepts; resolved into PluginContext.config
+  config?: Record<string, PluginConfigOption>;
+  // Databases the plugin may read; checked by PluginContext.permissions
+  permissions?: NonNullable<IPluginConfig['claudeware']>['permissions'];
+}
+
+/**
+ * worker_threads resource limits, in megabytes
+ */
+export interface PluginResourceLimits {
+  maxOldGenerationSizeMb?: number;
+  maxYoungGenerationSizeMb?: number;
+  codeRangeSizeMb?: number;
+  stackSizeMb?: number;
+}
+
+/**
+ * One setting declared in a manifest's `config` block
+ */
+export interface PluginConfigOption {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  default?: unknown;
+  enum?: unknown[];
+  // Fail the plugin's load when no value is set
+  required?: boolean;
+  description?: string;
 }
 
 export interface PluginContext {
@@ -20,8 +61,32 @@ export interface PluginContext {
   logger: Logger;
   config: Record<string, any>;
   sharedState: Map<string, any>;
+  // Built from the plugin's manifest `permissions`
+  permissions?: IPermissionValidator;
 }
 
+/**
+ * A query on its way to Claude, as seen by interceptors
+ */
+export interface QueryRequest {
+  queryId: string;
+  sessionId: string;
+  prompt: string;
+  options: Record<string, any>;
+}
+
+/**
+ * What a `beforeQuery` interceptor decided
+ *
+ * - `continue`: pass the query on, optionally with a new prompt or options
+ * - `respond`: answer with this response instead of calling Claude
+ * - `reject`: refuse the query
+ */
+export type BeforeQueryResult =
+  | { action: 'continue'; prompt?: string; options?: Record<string, any> }
+  | { action: 'respond'; response: ResponsePayload }
+  | { action: 'reject'; reason: string };
+
 export interface Plugin {
   name: string;
   version: string;
@@ -30,6 +95,15 @@ export interface Plugin {
   initialize(context: PluginContext): Promise<void>;
   onEvent(event: QueryEvent, context: PluginContext): Promise<void>;
   shutdown(): Promise<void>;
+
+  // Optional interceptors, given copies of the query/response; returning
+  // nothing keeps any in-place changes to the copy
+  beforeQuery?(request: QueryRequest, context: PluginContext): Promise<BeforeQueryResult | void>;
+  afterResponse?(
+    request: QueryRequest,
+    response: ResponsePayload,
+    context: PluginContext
+  ): Promise<ResponsePayload | void>;
 }
 
 export interface PluginFactory {
@@ -5,6 +5,9 @@ export interface StreamConfig {
   highWaterMark: number;
   encoding?: BufferEncoding;
   parseTimeout: number;
+  maxMessageSize?: number;
+  // 'json' (default): concatenated or newline-delimited JSON; 'sse': Server-Sent Events
+  format?: 'json' | 'sse';
 }
 
 export interface ProcessManager {
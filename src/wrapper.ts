@@ -0,0 +1,937 @@
+/**
+ * Claudeware
+ *
+ * Main orchestrator class that coordinates all components to provide
+ * zero-latency stream passthrough with plugin-based data collection.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { Readable, Writable } from 'stream';
+import { finished } from 'stream/promises';
+import pino, { Logger } from 'pino';
+import { v4 as uuidv4 } from 'uuid';
+import { Span, SpanStatusCode } from '@opentelemetry/api';
+import { ProcessManager, WatchdogReason } from './core/process-manager';
+import { StreamHandler, StreamMetrics, ProcessingOptions } from './core/stream-handler';
+import { JsonStreamParser, ParserStats } from './core/json-parser';
+import { StreamEventNormalizer } from './core/event-normalizer';
+import { PromptCapture } from './core/prompt-capture';
+import { ParseQuarantine } from './core/parse-quarantine';
+import { SessionRecorder, readSessionRecording } from './core/session-recorder';
+import { SessionReplayer, ReplayOptions } from './core/session-replayer';
+import type { Tracer } from './core/tracer';
+import { EventBus, EventMetrics } from './plugins/event-bus';
+import { EventBridgePublisher } from './plugins/event-bridge';
+import { PluginLoader, PluginMetrics } from './plugins/plugin-loader';
+import { SqliteAdapter } from './database/sqlite-adapter';
+import { SqliteEventLog } from './database/event-log';
+import { BatchQueue, BatchMetrics } from './database/batch-queue';
+import { WrapperConfig } from './types/config';
+import { PluginContext } from './types/plugin';
+import { QueryEvent, QueryRecord, ResponseRecord } from './types/events';
+
+/**
+ * Metrics reported by the wrapper and its components
+ */
+export interface WrapperMetrics {
+  wrapper: {
+    startTime: number;
+    eventsProcessed: number;
+    bytesProcessed: number;
+    errors: number;
+    uptime: number;
+  };
+  eventBus: EventMetrics;
+  batchQueue: BatchMetrics;
+  streamHandler: StreamMetrics;
+  parser: ParserStats;
+  plugins: PluginMetrics[];
+}
+
+/**
+ * How the Claude child process ended
+ */
+export interface ExitStatus {
+  /** Exit code, or null when the child was terminated by a signal */
+  code: number | null;
+  /** Terminating signal, if any */
+  signal: NodeJS.Signals | null;
+  /** Set when the child could not be started */
+  error?: Error;
+}
+
+type PersistedRecord = QueryRecord | ResponseRecord;
+
+// Shell conventions for a command that could not be run
+const SPAWN_ERROR_CODES: Record<string, number> = {
+  ENOENT: 127,
+  EACCES: 126
+};
+
+export class ClaudeWrapper {
+  static readonly REPLAY_BUFFER_SIZE = 1000;
+
+  private config: WrapperConfig;
+  private sessionId: string;
+  private logger!: Logger;
+  private eventBus!: EventBus;
+  private dataStore!: SqliteAdapter;
+  private batchQueue!: BatchQueue<PersistedRecord>;
+  private pluginLoader!: PluginLoader;
+  private jsonParser!: JsonStreamParser;
+  private normalizer!: StreamEventNormalizer;
+  private promptCapture!: PromptCapture;
+  private processManager!: ProcessManager;
+  private streamHandler!: StreamHandler;
+  private quarantine?: ParseQuarantine;
+  private recorder?: SessionRecorder;
+  private eventLog?: SqliteEventLog;
+  private bridge?: EventBridgePublisher;
+  private tracer?: Tracer;
+  private traceRoot?: Span;
+  private traceRootBound = false;
+  private initialized = false;
+  private shutdownPromise?: Promise<void>;
+  private exitPromise?: Promise<ExitStatus>;
+  private persistedQueries: Set<string> = new Set();
+  private metrics = {
+    startTime: Date.now(),
+    eventsProcessed: 0,
+    bytesProcessed: 0,
+    errors: 0
+  };
+
+  constructor(config: WrapperConfig) {
+    this.config = this.validateConfig(config);
+    this.sessionId = uuidv4();
+  }
+
+  /**
+   * Initialize logging, persistence, plugins and stream components
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    this.logger = this.createLogger();
+    this.logger.info(
+      { mode: this.config.mode, claudePath: this.config.claudePath },
+      'Initializing Claudeware'
+    );
+
+    // Event bus with replay buffer so late subscribers see recent events
+    this.eventBus = new EventBus();
+    this.eventBus.enableReplay(ClaudeWrapper.REPLAY_BUFFER_SIZE);
+
+    // Database adapter
+    const dbPath = this.resolveDatabasePath();
+    if (dbPath !== ':memory:') {
+      await this.ensureDirectory(path.dirname(dbPath));
+    }
+    this.dataStore = new SqliteAdapter({
+      path: dbPath,
+      batchSize: this.config.database.batchSize,
+      flushInterval: this.config.database.flushInterval,
+      walMode: this.config.database.walMode
+    });
+    await this.dataStore.init();
+
+    // Durable event log, so plugins can replay events from earlier sessions
+    const eventLogConfig = this.config.database.eventLog;
+    if (eventLogConfig?.enabled) {
+      const logPath = eventLogConfig.path ? this.expandPath(eventLogConfig.path) : dbPath;
+      this.eventLog = new SqliteEventLog({
+        path: logPath,
+        maxEvents: eventLogConfig.maxEvents,
+        maxAgeMs: eventLogConfig.maxAgeMs,
+        walMode: this.config.database.walMode,
+        onError: error => {
+          this.logger.error({ error: error.message }, 'Event log write failed');
+          this.metrics.errors++;
+        }
+      });
+      await this.eventLog.init();
+      this.eventBus.attachEventLog(this.eventLog);
+    }
+
+    // Share events with other sessions through `claudeware daemon`
+    if (this.config.monitoring.bridgeSocket) {
+      this.bridge = new EventBridgePublisher(this.expandPath(this.config.monitoring.bridgeSocket));
+      this.eventBus.attachBridge(this.bridge);
+    }
+
+    // Spans for spawn, first byte, parse, plugins and batch flushes
+    const traceTarget = this.config.monitoring.traceExport;
+    if (traceTarget) {
+      // Loaded on demand: the OpenTelemetry SDK is only needed when tracing
+      const { Tracer, createSpanExporter } = await import('./core/tracer');
+      const isUrl = /^https?:\/\//.test(traceTarget);
+      if (!isUrl) {
+        await this.ensureDirectory(path.dirname(this.expandPath(traceTarget)));
+      }
+      this.tracer = new Tracer(createSpanExporter(isUrl ? traceTarget : this.expandPath(traceTarget)), {
+        onError: error => this.logger.warn({ error: error.message }, 'Trace export failed')
+      });
+    }
+
+    // Batch queue for database writes (retries with exponential backoff)
+    this.batchQueue = new BatchQueue<PersistedRecord>({
+      batchSize: this.config.database.batchSize,
+      flushInterval: this.config.database.flushInterval,
+      handler: async (batch) => {
+        const span = this.tracer?.startSpan('db.batch_flush', {
+          parent: this.traceRoot,
+          attributes: { 'db.batch_size': batch.length }
+        });
+        try {
+          await this.dataStore.batchSave(batch);
+          span?.setStatus({ code: SpanStatusCode.OK });
+        } catch (error) {
+          span?.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+          throw error;
+        } finally {
+          span?.end();
+        }
+      },
+      onError: (error, batch) => {
+        this.logger.error({ error: error.message, batchSize: batch.length }, 'Batch save failed');
+      }
+    });
+    // Failures are reported through onError; keep the emitter from throwing
+    this.batchQueue.on('error', () => {});
+
+    // Plugin loader (timeouts and circuit breaking per plugin)
+    const pluginContext: PluginContext = {
+      eventBus: this.eventBus,
+      dataStore: this.dataStore,
+      logger: this.logger.child({ component: 'plugin' }),
+      config: {},
+      sharedState: new Map()
+    };
+    this.pluginLoader = new PluginLoader(pluginContext, this.tracer, {
+      settings: this.config.plugins.settings,
+      overrides: this.config.plugins.overrides
+    });
+
+    if (this.config.plugins.directory) {
+      const pluginDir = this.expandPath(this.config.plugins.directory);
+      await this.ensureDirectory(pluginDir);
+
+      const { started } = await this.pluginLoader.startPlugins(pluginDir, this.config.plugins);
+      this.logger.info({ plugins: started.map(p => p.name) }, `Started ${started.length} plugins`);
+
+      if (this.config.plugins.watch) {
+        this.pluginLoader.watch(pluginDir);
+      }
+    }
+
+    // Core stream components
+    this.jsonParser = new JsonStreamParser({
+      maxMessageSize: this.config.wrapper.maxMessageSize,
+      format: this.config.wrapper.streamFormat
+    });
+    this.normalizer = new StreamEventNormalizer({
+      sessionId: this.sessionId,
+      source: 'cli',
+      emitDeltas: this.config.wrapper.responseDeltas
+    });
+    this.promptCapture = new PromptCapture(this.eventBus, this.normalizer);
+    this.processManager = new ProcessManager();
+    this.streamHandler = new StreamHandler(this.eventBus, this.jsonParser, this.normalizer);
+
+    // Keep raw output the parser dropped, for diagnosing format changes
+    if (this.config.monitoring.quarantinePath) {
+      const quarantinePath = this.expandPath(this.config.monitoring.quarantinePath);
+      await this.ensureDirectory(path.dirname(quarantinePath));
+      const quarantine = new ParseQuarantine(quarantinePath, this.sessionId);
+      this.streamHandler.onDiagnostics(diagnostics => quarantine.write(diagnostics));
+      this.quarantine = quarantine;
+    }
+
+    this.setupEventHandlers();
+
+    this.initialized = true;
+    this.logger.info('Wrapper initialized successfully');
+  }
+
+  /**
+   * Spawn Claude and wire its streams through the wrapper
+   */
+  async start(args: string[], stdin: Readable, stdout: Writable, stderr: Writable): Promise<void> {
+    await this.initialize();
+
+    const startTime = Date.now();
+    this.logger.info({ args }, 'Starting Claudeware');
+
+    try {
+      this.beginTrace('cli');
+
+      // Record the prompt before any response can arrive
+      this.promptCapture.captureArgs(args);
+
+      if (this.config.monitoring.recordPath) {
+        const recordPath = this.expandPath(this.config.monitoring.recordPath);
+        await this.ensureDirectory(path.dirname(recordPath));
+        this.recorder = new SessionRecorder(recordPath, {
+          sessionId: this.sessionId,
+          args,
+          streamFormat: this.config.wrapper.streamFormat,
+          pty: this.config.wrapper.pty
+        });
+      }
+
+      const output = this.config.wrapper.pty
+        ? this.spawnInPty(args, stdin, stdout)
+        : this.spawnWithPipes(args, stdin, stdout, stderr);
+
+      // Signals sent to the wrapper go to Claude; its exit ends the session
+      this.processManager.setupSignalForwarding();
+
+      this.processManager.startWatchdog({
+        timeout: this.config.wrapper.timeout,
+        idleTimeout: this.config.wrapper.idleTimeout,
+        getLastActivity: () => this.streamHandler.getLastActivity(),
+        escalationDelay: this.config.wrapper.gracefulShutdownTimeout,
+        onTimeout: (reason, limit) => this.reportTimeout(reason, limit)
+      });
+
+      const childExit = new Promise<ExitStatus>(resolve => {
+        this.processManager.onExit((code, signal) => {
+          this.logger.info({ code, signal }, 'Claude process exited');
+          resolve({ code, signal });
+        });
+
+        this.processManager.onError((error) => {
+          this.logger.error({ error: error.message }, 'Claude process error');
+          this.metrics.errors++;
+
+          // A child that never started will not emit 'exit'
+          const code = SPAWN_ERROR_CODES[(error as NodeJS.ErrnoException).code || ''];
+          if (code !== undefined) {
+            resolve({ code, signal: null, error });
+          }
+        });
+      });
+
+      this.exitPromise = childExit.then(status => this.finishSession(status, output));
+
+      this.logger.info({ startupTime: Date.now() - startTime }, 'Wrapper started successfully');
+    } catch (error) {
+      this.logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Failed to start wrapper'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Replay a session recording through the parser, event bus and plugins
+   * without spawning Claude
+   *
+   * Recorded stdout and stderr are written to the given streams. The stream
+   * format comes from the recording, overriding the configured one.
+   *
+   * @returns The exit status Claude had when the session was recorded
+   */
+  async replay(
+    recordingPath: string,
+    stdout: Writable,
+    stderr: Writable,
+    options: ReplayOptions = {}
+  ): Promise<ExitStatus> {
+    if (this.initialized) {
+      throw new Error('replay() requires a wrapper that has not been initialized');
+    }
+
+    const recording = await readSessionRecording(recordingPath);
+    this.config.wrapper.streamFormat = recording.header.streamFormat ?? this.config.wrapper.streamFormat;
+    await this.initialize();
+
+    const { args, pty } = recording.header;
+    this.logger.info({ recordingPath, args, chunks: recording.chunks.length }, 'Replaying session');
+
+    this.beginTrace('replay');
+    const replayer = new SessionReplayer(recording, options);
+    const output = replayer.channel('stdout');
+    this.traceOutput(output);
+
+    this.promptCapture.captureArgs(args);
+    this.streamHandler.setupPassthrough(output, stdout);
+    this.streamHandler.setupPassthrough(replayer.channel('stderr'), stderr);
+    this.promptCapture.tapInput(replayer.channel('stdin'), args);
+    this.streamHandler.setupProcessing(output, undefined, this.processingOptions(args, pty === true));
+
+    const status: ExitStatus = {
+      code: recording.exit?.code ?? null,
+      signal: recording.exit?.signal ?? null
+    };
+    this.exitPromise = replayer.run().then(() => this.finishSession(status, output));
+
+    return this.exitPromise;
+  }
+
+  /**
+   * Wait for Claude to exit, its output to drain and pending writes to flush
+   *
+   * @returns The child's exit code or terminating signal
+   */
+  waitForExit(): Promise<ExitStatus> {
+    if (!this.exitPromise) {
+      return Promise.reject(new Error('Wrapper has not been started'));
+    }
+    return this.exitPromise;
+  }
+
+  /**
+   * Flush pending data, stop plugins and terminate the child process.
+   * Safe to call more than once; later calls share the first shutdown.
+   */
+  shutdown(): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.doShutdown();
+    }
+    return this.shutdownPromise;
+  }
+
+  async getMetrics(): Promise<WrapperMetrics> {
+    const streamMetrics = this.streamHandler?.getMetrics();
+
+    return {
+      wrapper: {
+        ...this.metrics,
+        bytesProcessed: streamMetrics?.bytesProcessed ?? this.metrics.bytesProcessed,
+        uptime: Date.now() - this.metrics.startTime
+      },
+      eventBus: this.eventBus?.getMetrics() ?? {
+        totalEvents: 0,
+        eventCounts: {},
+        listenerCounts: {},
+        errorCount: 0,
+        queues: {}
+      },
+      batchQueue: this.batchQueue?.getMetrics() ?? {
+        totalItems: 0,
+        totalBatches: 0,
+        failedBatches: 0,
+        averageBatchSize: 0,
+        averageProcessingTime: 0
+      },
+      streamHandler: streamMetrics ?? {
+        bytesProcessed: 0,
+        eventsEmitted: 0,
+        parseErrors: 0,
+        backpressureEvents: 0,
+        latency: 0
+      },
+      parser: this.jsonParser?.getStats() ?? {
+        messagesParsed: 0,
+        bytesDiscarded: 0,
+        oversizedMessages: 0,
+        invalidMessages: 0,
+        timedOutFragments: 0,
+        truncatedFragments: 0,
+        recoveryAttempts: 0
+      },
+      plugins: this.pluginLoader ? await this.pluginLoader.getPluginMetrics() : []
+    };
+  }
+
+  getConfig(): WrapperConfig {
+    return { ...this.config };
+  }
+
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  private spawnWithPipes(args: string[], stdin: Readable, stdout: Writable, stderr: Writable): Readable | undefined {
+    const spawnSpan = this.tracer?.startSpan('process.spawn', {
+      parent: this.traceRoot,
+      attributes: { 'process.command': this.config.claudePath }
+    });
+    const child = this.processManager.spawn(this.config.claudePath, args, process.env);
+
+    if (spawnSpan) {
+      child.once('spawn', () => spawnSpan.setStatus({ code: SpanStatusCode.OK }).end());
+      child.once('error', error => spawnSpan.setStatus({ code: SpanStatusCode.ERROR, message: error.message }).end());
+    }
+    if (child.stdout) {
+      this.traceOutput(child.stdout);
+    }
+
+    // Stream passthrough (zero-latency)
+    if (child.stdout) {
+      this.streamHandler.setupPassthrough(child.stdout, stdout);
+      this.recorder?.tap(child.stdout, 'stdout');
+    }
+    if (child.stderr) {
+      this.streamHandler.setupPassthrough(child.stderr, stderr);
+      this.recorder?.tap(child.stderr, 'stderr');
+    }
+    if (child.stdin) {
+      this.streamHandler.setupPassthrough(stdin, child.stdin);
+      this.promptCapture.tapInput(stdin, args);
+      this.recorder?.tap(stdin, 'stdin');
+    }
+
+    // Processing (parallel, non-blocking). Only stdout carries the JSON
+    // stream; stderr would corrupt the parser buffer.
+    if (child.stdout) {
+      this.streamHandler.setupProcessing(child.stdout, undefined, this.processingOptions(args, false));
+    }
+
+    return child.stdout ?? undefined;
+  }
+
+  // Text between JSON values is only worth reporting when Claude was asked
+  // for nothing but JSON
+  private processingOptions(args: string[], pty: boolean): ProcessingOptions {
+    return {
+      stripAnsi: pty,
+      reportNoise: PromptCapture.parseArgs(args).outputFormat === 'stream-json'
+    };
+  }
+
+  private spawnInPty(args: string[], stdin: Readable, stdout: Writable): Readable {
+    const spawnSpan = this.tracer?.startSpan('process.spawn', {
+      parent: this.traceRoot,
+      attributes: { 'process.command': this.config.claudePath, 'process.pty': true }
+    });
+    const terminal = this.processManager.spawnPty(this.config.claudePath, args, process.env, {
+      terminal: { input: stdin, output: stdout }
+    });
+    spawnSpan?.setStatus({ code: SpanStatusCode.OK }).end();
+    this.traceOutput(terminal.stdout);
+
+    // The PTY merges stdout and stderr into a single terminal stream
+    this.streamHandler.setupPassthrough(terminal.stdout, stdout);
+    this.streamHandler.setupPassthrough(stdin, terminal.stdin);
+    this.promptCapture.tapInput(stdin, args);
+    this.recorder?.tap(terminal.stdout, 'stdout');
+    this.recorder?.tap(stdin, 'stdin');
+
+    this.streamHandler.setupProcessing(terminal.stdout, undefined, this.processingOptions(args, true));
+
+    return terminal.stdout;
+  }
+
+  /**
+   * Start the trace for this session's first query; later queries get
+   * traces of their own
+   */
+  private beginTrace(source: string): void {
+    if (!this.tracer) return;
+
+    this.traceRoot = this.tracer.startSpan('claudeware.query', {
+      attributes: { 'session.id': this.sessionId, 'claudeware.source': source }
+    });
+  }
+
+  /**
+   * Time the first byte of Claude's output and the parse of the whole stream
+   */
+  private traceOutput(output: Readable): void {
+    if (!this.tracer) return;
+
+    const firstByteSpan = this.tracer.startSpan('process.first_byte', { parent: this.traceRoot });
+
+    output.once('data', () => {
+      firstByteSpan.setStatus({ code: SpanStatusCode.OK }).end();
+
+      const parseSpan = this.tracer!.startSpan('stream.parse', { parent: this.traceRoot });
+      const endParse = () => {
+        const stats = this.jsonParser.getStats();
+        parseSpan
+          .setAttribute('parse.messages', stats.messagesParsed)
+          .setAttribute('parse.bytes_discarded', stats.bytesDiscarded)
+          .setAttribute('parse.bytes', this.streamHandler.getMetrics().bytesProcessed)
+          .setStatus({ code: stats.bytesDiscarded > 0 ? SpanStatusCode.ERROR : SpanStatusCode.OK })
+          .end();
+      };
+      output.once('end', endParse);
+      output.once('close', endParse);
+    });
+    output.once('close', () => firstByteSpan.setStatus({ code: SpanStatusCode.ERROR, message: 'No output' }).end());
+  }
+
+  private traceQuery(event: QueryEvent): void {
+    const correlationId = event.metadata.correlationId;
+    if (!this.tracer || this.tracer.spanFor(correlationId)) return;
+
+    // The first query owns the trace that timed the spawn
+    const span = this.traceRoot && !this.traceRootBound
+      ? this.traceRoot
+      : this.tracer.startSpan('claudeware.query', { attributes: { 'session.id': this.sessionId } });
+    this.traceRootBound = true;
+
+    span.setAttribute('query.id', event.id);
+    this.tracer.bind(correlationId, span);
+  }
+
+  private async finishSession(status: ExitStatus, output?: Readable): Promise<ExitStatus> {
+    // 'exit' can fire before the last chunks are read; a grandchild holding
+    // the pipe open must not keep the wrapper alive forever
+    if (output && !status.error) {
+      await this.waitForDrain(output, this.config.wrapper.gracefulShutdownTimeout);
+    }
+    this.recorder?.recordExit(status.code, status.signal);
+    this.traceRoot?.setAttribute('process.exit_code', status.code ?? -1);
+    if (status.signal) {
+      this.traceRoot?.setAttribute('process.signal', status.signal);
+    }
+
+    try {
+      await this.shutdown();
+    } catch (error) {
+      this.logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Shutdown failed');
+    }
+
+    return status;
+  }
+
+  private async waitForDrain(output: Readable, timeout: number): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      await Promise.race([
+        finished(output).catch(() => undefined),
+        new Promise<void>(resolve => {
+          timer = setTimeout(() => {
+            this.logger.warn({ timeout }, 'Timed out waiting for Claude output to drain');
+            resolve();
+          }, timeout);
+        })
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private validateConfig(config: WrapperConfig): WrapperConfig {
+    if (!config || !config.claudePath) {
+      throw new Error('claudePath is required in configuration');
+    }
+
+    if (config.database?.type && config.database.type !== 'sqlite') {
+      throw new Error(`Unsupported database type: ${config.database.type}`);
+    }
+
+    const defaults: WrapperConfig = {
+      mode: 'production',
+      claudePath: config.claudePath,
+      wrapper: {
+        timeout: 300000,
+        idleTimeout: 0,
+        bufferSize: 65536,
+        maxMessageSize: JsonStreamParser.DEFAULT_MAX_MESSAGE_SIZE,
+        streamFormat: 'json',
+        responseDeltas: false,
+        gracefulShutdownTimeout: 5000,
+        pty: false
+      },
+      plugins: {
+        directory: '~/.claude-code/plugins',
+        timeout: 5000,
+        retryAttempts: 3,
+        enabledPlugins: [],
+        disabledPlugins: []
+      },
+      database: {
+        type: 'sqlite',
+        path: '~/.claude-code/queries.db',
+        batchSize: 100,
+        flushInterval: 1000,
+        walMode: true
+      },
+      monitoring: {
+        enabled: true,
+        logLevel: 'info'
+      },
+      categorization: {
+        cacheSize: 1000,
+        patterns: []
+      }
+    };
+
+    return this.deepMerge(defaults, config);
+  }
+
+  private deepMerge<T>(target: T, source: Partial<T>): T {
+    const result = { ...target } as Record<string, unknown>;
+    const sourceObj = source as Record<string, unknown>;
+
+    for (const key in sourceObj) {
+      const value = sourceObj[key];
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        result[key] = this.deepMerge((result[key] || {}) as Record<string, unknown>, value);
+      } else if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+
+    return result as T;
+  }
+
+  private createLogger(): Logger {
+    const { logLevel, logPath } = this.config.monitoring;
+    const streams: pino.StreamEntry[] = [];
+
+    // stdout belongs to Claude, so console logging goes to stderr
+    if (this.config.mode === 'development' || logLevel === 'debug') {
+      streams.push({ level: logLevel, stream: pino.destination(2) });
+    }
+
+    if (logPath) {
+      streams.push({
+        level: logLevel,
+        stream: pino.destination({ dest: this.expandPath(logPath), mkdir: true, sync: false })
+      });
+    }
+
+    if (streams.length === 0) {
+      return pino({ enabled: false });
+    }
+
+    return pino(
+      { level: logLevel, name: 'claude-wrapper' },
+      pino.multistream(streams)
+    );
+  }
+
+  private setupEventHandlers(): void {
+    // Track metrics and feed plugins. Plugins run one event at a time so a
+    // query is always seen before its responses; the bounded queue keeps
+    // slow plugins from holding an unbounded backlog.
+    this.eventBus.on('*', async (event: QueryEvent) => {
+      try {
+        await this.pluginLoader.executePlugins(event);
+      } catch (error) {
+        this.logger.error(
+          { error: error instanceof Error ? error.message : String(error), eventId: event.id },
+          'Plugin dispatch failed'
+        );
+      }
+    }, { queue: { ...this.config.plugins.queue, concurrency: 1, name: 'plugins' } });
+
+    this.eventBus.on('*', () => {
+      this.metrics.eventsProcessed++;
+    });
+
+    // Persist queries
+    this.eventBus.on('query', (event: QueryEvent) => {
+      try {
+        this.persistedQueries.add(event.id);
+        this.batchQueue.add({
+          id: event.id,
+          sessionId: event.metadata.sessionId,
+          timestamp: Math.floor(event.timestamp / 1000),
+          query: event.data?.messages?.[0]?.content || '',
+          model: event.data?.model || 'unknown',
+          category: event.data?.category,
+          complexity: event.data?.complexity,
+          tokenCount: event.data?.tokenCount,
+          metadata: event.metadata
+        });
+      } catch (error) {
+        this.logger.error(
+          { error: error instanceof Error ? error.message : String(error) },
+          'Failed to process query event'
+        );
+        this.metrics.errors++;
+      }
+    });
+
+    // One trace per query; plugin spans find it by correlationId
+    this.eventBus.on('query', (event: QueryEvent) => this.traceQuery(event));
+
+    // Persist responses
+    this.eventBus.on('response', (event: QueryEvent) => {
+      this.persistResponse(event);
+    });
+
+    // Error QueryEvents share the native 'error' channel name, so they are
+    // picked up from the wildcard and recorded against their query
+    this.eventBus.on('*', (event: QueryEvent) => {
+      if (event.type === 'error') {
+        this.persistResponse(event);
+      }
+    });
+
+    // Stream and listener errors arrive on the native 'error' channel
+    this.eventBus.on('error', (error: unknown) => {
+      this.logger.error(
+        { error: error instanceof Error ? error.message : (error as { message?: string })?.message },
+        'Error event received'
+      );
+      this.metrics.errors++;
+    });
+  }
+
+  private persistResponse(event: QueryEvent): void {
+    // The final result carries the query's content and token totals
+    if (event.metadata.intermediate) {
+      return;
+    }
+
+    const queryId = event.metadata.queryId;
+
+    // responses.query_id references queries(id); without a recorded
+    // query the row would fail the whole batch
+    if (!queryId || !this.persistedQueries.has(queryId)) {
+      this.logger.debug({ eventId: event.id, queryId }, 'Skipping response without recorded query');
+      return;
+    }
+
+    try {
+      this.batchQueue.add({
+        id: event.id,
+        queryId,
+        sessionId: event.metadata.sessionId,
+        timestamp: Math.floor(event.timestamp / 1000),
+        response: this.extractText(event.data?.content),
+        model: event.data?.model || 'unknown',
+        inputTokens: event.data?.usage?.input_tokens,
+        outputTokens: event.data?.usage?.output_tokens,
+        latencyMs: event.metadata.latencyMs,
+        finishReason: event.data?.stop_reason ?? event.data?.finish_reason ?? event.data?.error?.type,
+        error: event.data?.error ? this.extractText(event.data.error.message ?? event.data.error) : undefined
+      });
+    } catch (error) {
+      this.logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Failed to process response event'
+      );
+      this.metrics.errors++;
+    }
+  }
+
+  /**
+   * Record a watchdog expiry as an `error` event of type `timeout`
+   */
+  private reportTimeout(reason: WatchdogReason, limit: number): void {
+    const message = reason === 'idle'
+      ? `Claude produced no output for ${limit}ms`
+      : `Claude session exceeded ${limit}ms`;
+
+    this.logger.warn({ reason, limit }, message);
+    this.metrics.errors++;
+
+    const events = this.normalizer.normalize({ type: 'error', error: { type: 'timeout', message } });
+    for (const event of events) {
+      event.data.reason = reason;
+      event.data.limitMs = limit;
+      this.eventBus.emitEvent(event);
+    }
+  }
+
+  private async doShutdown(): Promise<void> {
+    if (!this.initialized) return;
+
+    this.logger.info(
+      {
+        eventsProcessed: this.metrics.eventsProcessed,
+        errors: this.metrics.errors,
+        uptime: Date.now() - this.metrics.startTime
+      },
+      'Shutting down wrapper'
+    );
+
+    const parserStats = this.jsonParser.getStats();
+    if (parserStats.bytesDiscarded > 0) {
+      this.logger.warn(
+        { ...parserStats, quarantine: this.quarantine?.getPath() },
+        'Discarded unparseable stream output'
+      );
+    }
+
+    try {
+      // Stop accepting new events and let queued plugin work finish
+      const drained = this.eventBus.drain();
+      const pluginQueue = this.eventBus.getMetrics().queues.plugins;
+      this.eventBus.removeAllListeners();
+      await drained;
+
+      if (pluginQueue?.dropped) {
+        this.logger.warn({ dropped: pluginQueue.dropped, maxLagMs: pluginQueue.maxLagMs }, 'Plugins fell behind; events dropped');
+      }
+
+      // Flush batch queue
+      await this.batchQueue.stop();
+
+      // Shutdown plugins
+      await this.pluginLoader.shutdown();
+
+      // Close database
+      await this.dataStore.close();
+      await this.eventLog?.close();
+      await this.bridge?.close();
+
+      // Stop child process, escalating to SIGKILL if it ignores SIGTERM
+      if (this.processManager.isRunning()) {
+        try {
+          await this.processManager.gracefulShutdown(this.config.wrapper.gracefulShutdownTimeout);
+        } catch {
+          this.processManager.kill('SIGKILL');
+        }
+      }
+      this.processManager.cleanup();
+
+      // Cleanup streams
+      this.promptCapture.cleanup();
+      this.streamHandler.cleanup();
+      await this.quarantine?.close();
+      await this.recorder?.close();
+
+      this.traceRoot?.end();
+      await this.tracer?.shutdown();
+
+      this.logger.info('Wrapper shutdown complete');
+    } catch (error) {
+      this.logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Error during shutdown'
+      );
+      throw error;
+    }
+  }
+
+  private extractText(content: unknown): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    if (Array.isArray(content)) {
+      return content
+        .filter(block => block?.type === 'text')
+        .map(block => block.text)
+        .join('\n');
+    }
+    return content ? JSON.stringify(content) : '';
+  }
+
+  private resolveDatabasePath(): string {
+    const dbPath = this.config.database.path;
+    if (!dbPath || dbPath === ':memory:') {
+      return ':memory:';
+    }
+    return this.expandPath(dbPath);
+  }
+
+  private expandPath(filePath: string): string {
+    if (filePath.startsWith('~')) {
+      const home = process.env.HOME || process.env.USERPROFILE || '';
+      return path.join(home, filePath.slice(1));
+    }
+    return path.resolve(filePath);
+  }
+
+  private async ensureDirectory(dirPath: string): Promise<void> {
+    try {
+      await fs.mkdir(dirPath, { recursive: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+}
@@ -13,6 +13,15 @@ export const streamSamples = {
     '{"id":"msg_01XQb5Q7GYFjDYmsk1RgFQBr","type":"message","role":"assistant","model":"claude-3-opus-20240229","content":[{"type":"text","text":"I found the source directory structure. Let me examine the index.ts file."}],"stop_reason":"end_turn","stop_sequence":null,"usage":{"input_tokens":80,"output_tokens":20}}'
   ],
 
+  // Claude Code CLI --output-format stream-json session
+  claudeCliSession: [
+    '{"type":"system","subtype":"init","session_id":"cli-session-1","model":"claude-sonnet-4-20250514","tools":["Bash","Read"],"cwd":"/tmp/project"}',
+    '{"type":"assistant","message":{"id":"msg_cli_1","type":"message","role":"assistant","model":"claude-sonnet-4-20250514","content":[{"type":"text","text":"Let me list the files."},{"type":"tool_use","id":"toolu_cli_1","name":"Bash","input":{"command":"ls"}}],"stop_reason":"tool_use","usage":{"input_tokens":12,"output_tokens":20}},"session_id":"cli-session-1"}',
+    '{"type":"user","message":{"role":"user","content":[{"type":"tool_result","tool_use_id":"toolu_cli_1","content":"index.ts\\nutils.ts","is_error":false}]},"session_id":"cli-session-1"}',
+    '{"type":"assistant","message":{"id":"msg_cli_2","type":"message","role":"assistant","model":"claude-sonnet-4-20250514","content":[{"type":"text","text":"There are two files."}],"stop_reason":"end_turn","usage":{"input_tokens":40,"output_tokens":8}},"session_id":"cli-session-1"}',
+    '{"type":"result","subtype":"success","is_error":false,"duration_ms":1834,"duration_api_ms":1500,"num_turns":2,"result":"There are two files.","session_id":"cli-session-1","total_cost_usd":0.0021,"usage":{"input_tokens":52,"output_tokens":28}}'
+  ],
+
   // Malformed JSON mixed with valid
   malformedMixed: [
     '{"valid":true,"type":"message","content":"This is valid"}',
@@ -78,6 +87,22 @@ export const streamSamples = {
     `{"id":"msg_${i}","type":"message","content":[{"type":"text","text":"Message ${i}"}],"usage":{"input_tokens":1,"output_tokens":2}}`
   ),
 
+  // Messages API streaming output as Server-Sent Events (one string per event)
+  anthropicSse: [
+    'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_sse_1","type":"message","role":"assistant","model":"claude-sonnet-4-20250514","content":[],"stop_reason":null,"usage":{"input_tokens":25,"output_tokens":1}}}\n\n',
+    'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"text","text":""}}\n\n',
+    'event: ping\ndata: {"type": "ping"}\n\n',
+    'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hello"}}\n\n',
+    'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":", world"}}\n\n',
+    'event: content_block_stop\ndata: {"type":"content_block_stop","index":0}\n\n',
+    'event: content_block_start\ndata: {"type":"content_block_start","index":1,"content_block":{"type":"tool_use","id":"toolu_sse_1","name":"get_weather","input":{}}}\n\n',
+    'event: content_block_delta\ndata: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"{\\"city\\": "}}\n\n',
+    'event: content_block_delta\ndata: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"\\"Paris\\"}"}}\n\n',
+    'event: content_block_stop\ndata: {"type":"content_block_stop","index":1}\n\n',
+    'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"tool_use","stop_sequence":null},"usage":{"output_tokens":30}}\n\n',
+    'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+  ],
+
   // Empty and whitespace
   emptyContent: [
     '',
@@ -0,0 +1,185 @@
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  EventBridgeDaemon,
+  EventBridgePublisher,
+  EventBridgeSubscriber
+} from '../../src/plugins/event-bridge';
+import { EventBus } from '../../src/plugins/event-bus';
+import { QueryEvent } from '../../src/types';
+
+describe('EventBridge', () => {
+  let tempDir: string;
+  let socketPath: string;
+  let daemon: EventBridgeDaemon;
+  const closers: Array<{ close(): Promise<void> }> = [];
+
+  const createEvent = (id: string, overrides: Partial<QueryEvent> = {}, sessionId = 'session-1'): QueryEvent => ({
+    id,
+    type: 'query',
+    timestamp: Date.now(),
+    data: { messages: [{ role: 'user', content: id }] },
+    metadata: { correlationId: 'c', sessionId, timestamp: Date.now(), source: 'test' },
+    ...overrides
+  });
+
+  const subscribe = async (filter = {}): Promise<QueryEvent[]> => {
+    const subscriber = new EventBridgeSubscriber(socketPath, filter);
+    const received: QueryEvent[] = [];
+    subscriber.on('event', event => received.push(event));
+    await subscriber.connect();
+    closers.push(subscriber);
+    return received;
+  };
+
+  const publisher = (): EventBridgePublisher => {
+    const created = new EventBridgePublisher(socketPath);
+    closers.push(created);
+    return created;
+  };
+
+  const waitFor = async (condition: () => boolean): Promise<void> => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudeware-bridge-'));
+    socketPath = path.join(tempDir, 'events.sock');
+    daemon = new EventBridgeDaemon(socketPath);
+    await daemon.listen();
+  });
+
+  afterEach(async () => {
+    for (const closer of closers.splice(0)) {
+      await closer.close();
+    }
+    await daemon.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should fan out published events to subscribers by topic and session', async () => {
+    const all = await subscribe();
+    const toolUses = await subscribe({ topics: ['tool_use.*'] });
+    const otherSession = await subscribe({ sessionIds: ['session-2'] });
+    await waitFor(() => daemon.getStats().subscribers === 3);
+
+    const source = publisher();
+    source.publish(createEvent('q1'));
+    source.publish(createEvent('t1', { type: 'tool_use', data: { id: 't', name: 'Bash', input: {} } }));
+    source.publish(createEvent('q2', {}, 'session-2'));
+    await waitFor(() => all.length === 3);
+
+    expect(all.map(e => e.id)).toEqual(['q1', 't1', 'q2']);
+    expect(all[0].data).toEqual({ messages: [{ role: 'user', content: 'q1' }] });
+    expect(toolUses.map(e => e.id)).toEqual(['t1']);
+    expect(otherSession.map(e => e.id)).toEqual(['q2']);
+    expect(daemon.getStats()).toMatchObject({ eventsReceived: 3, eventsDelivered: 5 });
+  });
+
+  it('should not send events back to the connection that published them', async () => {
+    const received = await subscribe();
+    await waitFor(() => daemon.getStats().subscribers === 1);
+
+    const subscriber = new EventBridgeSubscriber(socketPath);
+    const echoed: QueryEvent[] = [];
+    subscriber.on('event', event => echoed.push(event));
+    await subscriber.connect();
+    closers.push(subscriber);
+    await waitFor(() => daemon.getStats().subscribers === 2);
+
+    // A subscriber may also publish over its own connection
+    (subscriber as any).socket.write(JSON.stringify(createEvent('q1')) + '\n');
+    await waitFor(() => received.length === 1);
+
+    expect(received.map(e => e.id)).toEqual(['q1']);
+    expect(echoed).toEqual([]);
+  });
+
+  it('should ignore lines that are not events', async () => {
+    const received = await subscribe();
+    await waitFor(() => daemon.getStats().subscribers === 1);
+
+    const subscriber = new EventBridgeSubscriber(socketPath);
+    await subscriber.connect();
+    closers.push(subscriber);
+    (subscriber as any).socket.write([
+      'not json',
+      '{"type":"query"}',
+      '{"id":"q0","type":"query","metadata":"session-1"}',
+      '{"op":"subscribe","topics":"query"}',
+      JSON.stringify(createEvent('q1'))
+    ].join('\n') + '\n');
+    await waitFor(() => received.length === 1);
+
+    expect(received.map(e => e.id)).toEqual(['q1']);
+    expect(daemon.getStats().invalidLines).toBe(4);
+  });
+
+  it('should refuse to start while another daemon is listening', async () => {
+    const second = new EventBridgeDaemon(socketPath);
+
+    await expect(second.listen()).rejects.toThrow(`A daemon is already listening on ${socketPath}`);
+  });
+
+  it('should replace a stale socket file', async () => {
+    const stalePath = path.join(tempDir, 'stale.sock');
+    await fs.writeFile(stalePath, '');
+    const replacement = new EventBridgeDaemon(stalePath);
+
+    await expect(replacement.listen()).resolves.toBeUndefined();
+    await replacement.close();
+  });
+
+  it('should drop events while no daemon is reachable', async () => {
+    const unreachable = new EventBridgePublisher(path.join(tempDir, 'missing.sock'));
+    closers.push(unreachable);
+
+    expect(() => unreachable.publish(createEvent('q1'))).not.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    unreachable.publish(createEvent('q2'));
+
+    // No reconnect is attempted until RECONNECT_INTERVAL has passed
+    expect(unreachable.getStats()).toMatchObject({ published: 1, dropped: 1, connected: false });
+  });
+
+  it('should drop events and stop waiting on close when the daemon stops reading', async () => {
+    const stalledPath = path.join(tempDir, 'stalled.sock');
+    const accepted: net.Socket[] = [];
+    const stalled = net.createServer(socket => accepted.push(socket.pause()));
+    await new Promise<void>(resolve => stalled.listen(stalledPath, resolve));
+
+    const stuck = new EventBridgePublisher(stalledPath);
+    const payload = 'x'.repeat(64 * 1024);
+    for (let i = 0; i < 40; i++) {
+      stuck.publish(createEvent(`q${i}`, { data: { messages: [{ role: 'user', content: payload }] } }));
+    }
+
+    const stats = stuck.getStats();
+    expect(stats.published).toBeLessThan(40);
+    expect(stats.dropped).toBe(40 - stats.published);
+
+    const started = Date.now();
+    await stuck.close();
+    expect(Date.now() - started).toBeLessThan(3000);
+
+    accepted.forEach(socket => socket.destroy());
+    await new Promise(resolve => stalled.close(resolve));
+  });
+
+  it('should publish events emitted on an EventBus with a bridge attached', async () => {
+    const received = await subscribe({ topics: ['plugin.**'] });
+    await waitFor(() => daemon.getStats().subscribers === 1);
+
+    const eventBus = new EventBus();
+    eventBus.attachBridge(publisher());
+    eventBus.emitEvent(createEvent('q1'));
+    eventBus.emitEvent(createEvent('p1', { type: 'plugin.cache.hit', data: {} }));
+    await waitFor(() => received.length === 1);
+
+    expect(received.map(e => e.id)).toEqual(['p1']);
+  });
+});
@@ -1,5 +1,6 @@
 import { EventBus } from '../../src/plugins/event-bus';
-import { QueryEvent } from '../../src/types';
+import { SqliteEventLog } from '../../src/database/event-log';
+import { QueryEvent, TypedQueryEvent } from '../../src/types';
 
 describe('EventBus', () => {
   let eventBus: EventBus;
@@ -78,6 +79,133 @@ describe('EventBus', () => {
     });
   });
 
+  describe('typed events', () => {
+    const responseEvent: TypedQueryEvent<'response'> = {
+      id: 'r1',
+      type: 'response',
+      timestamp: 0,
+      data: { model: 'claude-sonnet-4', content: [{ type: 'text', text: 'hi' }] },
+      metadata: { correlationId: 'c', sessionId: 's', timestamp: 0, source: 'test' }
+    };
+
+    it('should narrow listener events by type', () => {
+      const models: string[] = [];
+
+      eventBus.on<'response'>('response', event => {
+        models.push(event.data.model ?? 'unknown');
+      });
+      eventBus.emitEvent(responseEvent);
+
+      expect(models).toEqual(['claude-sonnet-4']);
+    });
+
+    it('should reject payloads that do not match the event type', () => {
+      const emit = () => eventBus.emitEvent({
+        ...responseEvent,
+        type: 'tool_use',
+        // @ts-expect-error tool_use payloads need toolUseId and status
+        data: { content: [] }
+      });
+
+      expect(emit).not.toThrow();
+    });
+
+    it('should keep accepting untyped events and string types', () => {
+      const listener = jest.fn();
+
+      eventBus.on('custom.topic', listener);
+      eventBus.emitEvent(testEvent);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('topics', () => {
+    const toolEvent = (name: string): QueryEvent => ({
+      ...testEvent,
+      type: 'tool_use',
+      data: { toolUseId: 't1', name, status: 'started' }
+    });
+
+    const pluginEvent = (type: `plugin.${string}`): QueryEvent => ({ ...testEvent, type, data: {} });
+
+    it('should route tool_use events by tool name', () => {
+      const bash = jest.fn();
+      const anyTool = jest.fn();
+      const toolUse = jest.fn();
+
+      eventBus.on('tool_use.Bash', bash);
+      eventBus.on('tool_use.*', anyTool);
+      eventBus.on('tool_use', toolUse);
+
+      eventBus.emitEvent(toolEvent('Bash'));
+      eventBus.emitEvent(toolEvent('Read'));
+
+      expect(bash).toHaveBeenCalledTimes(1);
+      expect(anyTool).toHaveBeenCalledTimes(2);
+      expect(toolUse).toHaveBeenCalledTimes(2);
+    });
+
+    it('should match * to one segment and ** to any number', () => {
+      const oneLevel = jest.fn();
+      const allLevels = jest.fn();
+      const middle = jest.fn();
+
+      eventBus.on('plugin.*', oneLevel);
+      eventBus.on('plugin.**', allLevels);
+      eventBus.on('plugin.*.hit', middle);
+
+      eventBus.emitEvent(pluginEvent('plugin.cache'));
+      eventBus.emitEvent(pluginEvent('plugin.cache.hit'));
+      eventBus.emitEvent(pluginEvent('plugin.rate-limiter.window.reset'));
+
+      expect(oneLevel).toHaveBeenCalledTimes(1);
+      expect(allLevels).toHaveBeenCalledTimes(3);
+      expect(middle).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not deliver response.delta to response listeners', () => {
+      const response = jest.fn();
+      const anyResponse = jest.fn();
+
+      eventBus.on('response', response);
+      eventBus.on('response.*', anyResponse);
+
+      eventBus.emitEvent({ ...testEvent, type: 'response.delta' });
+
+      expect(response).not.toHaveBeenCalled();
+      expect(anyResponse).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove once pattern listeners after the first match', () => {
+      const listener = jest.fn();
+
+      eventBus.once('tool_use.*', listener);
+      eventBus.emitEvent(toolEvent('Bash'));
+      eventBus.emitEvent(toolEvent('Bash'));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(eventBus.listenerCount('tool_use.*')).toBe(0);
+    });
+
+    it('should aggregate event counts per topic prefix', () => {
+      eventBus.emitEvent(toolEvent('Bash'));
+      eventBus.emitEvent(toolEvent('Read'));
+      eventBus.emitEvent(pluginEvent('plugin.cache.hit'));
+
+      const { eventCounts } = eventBus.getMetrics();
+
+      expect(eventCounts).toEqual({
+        tool_use: 2,
+        'tool_use.Bash': 1,
+        'tool_use.Read': 1,
+        plugin: 1,
+        'plugin.cache': 1,
+        'plugin.cache.hit': 1
+      });
+    });
+  });
+
   describe('error handling', () => {
     it('should catch and emit listener errors', (done) => {
       const error = new Error('Listener error');
@@ -261,6 +389,159 @@ describe('EventBus', () => {
         expect.objectContaining({ id: 'event-2' })
       );
     });
+
+    it('should filter recent events by type, session and time range', () => {
+      eventBus.enableReplay(10);
+
+      eventBus.emitEvent({ ...testEvent, id: 'q1', timestamp: 1000 });
+      eventBus.emitEvent({ ...testEvent, id: 'r1', type: 'response', timestamp: 2000 });
+      eventBus.emitEvent({
+        ...testEvent,
+        id: 'q2',
+        timestamp: 3000,
+        metadata: { ...testEvent.metadata, sessionId: 'other' }
+      });
+
+      const ids = (filter: object) => eventBus.getRecentEvents(filter).map(e => e.id);
+
+      expect(ids({ type: 'query' })).toEqual(['q1', 'q2']);
+      expect(ids({ sessionId: 'other' })).toEqual(['q2']);
+      expect(ids({ since: 1500, until: 3000 })).toEqual(['r1', 'q2']);
+      expect(ids({ afterEventId: 'q1', type: 'query' })).toEqual(['q2']);
+    });
+
+    it('should log events and replay them from the event log', async () => {
+      const log = new SqliteEventLog({ path: ':memory:' });
+      await log.init();
+      eventBus.attachEventLog(log);
+
+      eventBus.emitEvent({ ...testEvent, id: 'old', timestamp: 1000 });
+      eventBus.emitEvent({ ...testEvent, id: 'tool', type: 'tool_use', data: { toolUseId: 't', name: 'Bash', status: 'started' } });
+      eventBus.emitEvent({ ...testEvent, id: 'new', timestamp: 5000 });
+
+      // A fresh bus (e.g., the next session) backfills from the same log
+      const nextSession = new EventBus();
+      nextSession.attachEventLog(log);
+
+      const queries = jest.fn();
+      const tools = jest.fn();
+      nextSession.on('query', queries, { replay: { since: 2000 } });
+      nextSession.on('tool_use.*', tools, { replay: {} });
+
+      expect(queries.mock.calls.map(([event]) => event.id)).toEqual(['new']);
+      expect(tools.mock.calls.map(([event]) => event.id)).toEqual(['tool']);
+      expect(nextSession.getLoggedEvents({ afterEventId: 'old' }).map(e => e.id)).toEqual(['tool', 'new']);
+
+      await log.close();
+    });
+  });
+
+  describe('listener queues', () => {
+    const deferred = () => {
+      let release!: () => void;
+      const promise = new Promise<void>(resolve => { release = resolve; });
+      return { promise, release };
+    };
+
+    it('should handle queued events in order with bounded concurrency', async () => {
+      const gate = deferred();
+      const started: string[] = [];
+      eventBus.on('query', async (event: QueryEvent) => {
+        started.push(event.id);
+        await gate.promise;
+      }, { queue: { concurrency: 2 } });
+
+      ['e1', 'e2', 'e3'].forEach(id => eventBus.emitEvent({ ...testEvent, id }));
+
+      expect(started).toEqual(['e1', 'e2']);
+      expect(eventBus.getMetrics().queues.query).toMatchObject({ depth: 1, active: 2, processed: 0 });
+
+      gate.release();
+      await eventBus.drain();
+
+      expect(started).toEqual(['e1', 'e2', 'e3']);
+      expect(eventBus.getMetrics().queues.query).toMatchObject({ depth: 0, active: 0, processed: 3 });
+    });
+
+    it('should drop the oldest or newest waiting event when full', async () => {
+      const gate = deferred();
+      const oldest: string[] = [];
+      const newest: string[] = [];
+      eventBus.on('query', async (event: QueryEvent) => {
+        oldest.push(event.id);
+        await gate.promise;
+      }, { queue: { maxSize: 2, overflow: 'drop-oldest', name: 'oldest' } });
+      eventBus.on('query', async (event: QueryEvent) => {
+        newest.push(event.id);
+        await gate.promise;
+      }, { queue: { maxSize: 2, overflow: 'drop-newest', name: 'newest' } });
+
+      ['e1', 'e2', 'e3', 'e4'].forEach(id => eventBus.emitEvent({ ...testEvent, id }));
+      gate.release();
+      await eventBus.drain();
+
+      expect(oldest).toEqual(['e1', 'e3', 'e4']);
+      expect(newest).toEqual(['e1', 'e2', 'e3']);
+      expect(eventBus.getMetrics().queues.oldest.dropped).toBe(1);
+      expect(eventBus.getMetrics().queues.newest.dropped).toBe(1);
+    });
+
+    it('should make emitEventAsync wait for room under the block policy', async () => {
+      const gate = deferred();
+      const handled: string[] = [];
+      eventBus.on('query', async (event: QueryEvent) => {
+        await gate.promise;
+        handled.push(event.id);
+      }, { queue: { maxSize: 1, overflow: 'block' } });
+
+      await eventBus.emitEventAsync({ ...testEvent, id: 'e1' });
+      await eventBus.emitEventAsync({ ...testEvent, id: 'e2' });
+      let emitted = false;
+      const third = eventBus.emitEventAsync({ ...testEvent, id: 'e3' }).then(() => { emitted = true; });
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(emitted).toBe(false);
+      expect(eventBus.getMetrics().queues.query.lagMs).toBeGreaterThanOrEqual(0);
+
+      gate.release();
+      await third;
+      await eventBus.drain();
+
+      expect(handled).toEqual(['e1', 'e2', 'e3']);
+      expect(eventBus.getMetrics().queues.query.dropped).toBe(0);
+    });
+
+    it('should not let a slow queued listener hold up emitEventAsync', async () => {
+      const gate = deferred();
+      const fast = jest.fn();
+      eventBus.on('query', () => gate.promise, { queue: true });
+      eventBus.on('query', fast);
+
+      await eventBus.emitEventAsync(testEvent);
+
+      expect(fast).toHaveBeenCalled();
+      expect(eventBus.getMetrics().queues.query.active).toBe(1);
+      gate.release();
+      await eventBus.drain();
+    });
+
+    it('should report queued listener errors and keep going', async () => {
+      const errors: any[] = [];
+      eventBus.on('error', (error: any) => errors.push(error));
+      const listener = jest.fn()
+        .mockRejectedValueOnce(new Error('Queued failure'))
+        .mockResolvedValue(undefined);
+      eventBus.on('query', listener, { queue: true });
+
+      eventBus.emitEvent(testEvent);
+      eventBus.emitEvent(testEvent);
+      await eventBus.drain();
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].cause.message).toBe('Queued failure');
+      expect(eventBus.getMetrics().errorCount).toBe(1);
+    });
   });
 
   describe('performance', () => {
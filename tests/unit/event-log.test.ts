@@ -0,0 +1,106 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { SqliteEventLog } from '../../src/database/event-log';
+import { QueryEvent } from '../../src/types';
+
+describe('SqliteEventLog', () => {
+  let log: SqliteEventLog;
+
+  const createEvent = (id: string, overrides: Partial<QueryEvent> = {}): QueryEvent => ({
+    id,
+    type: 'query',
+    timestamp: 1000,
+    data: { messages: [{ role: 'user', content: id }] },
+    metadata: { correlationId: 'c', sessionId: 'session-1', timestamp: 1000, source: 'test' },
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    log = new SqliteEventLog({ path: ':memory:' });
+    await log.init();
+  });
+
+  afterEach(async () => {
+    await log.close();
+  });
+
+  it('should return appended events in order', () => {
+    log.append(createEvent('e1'));
+    log.append(createEvent('e2', { type: 'response', data: { content: [] } }));
+
+    const events = log.query();
+
+    expect(events.map(e => e.id)).toEqual(['e1', 'e2']);
+    expect(events[0]).toEqual(createEvent('e1'));
+  });
+
+  it('should write queued events together on the next tick', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudeware-event-log-'));
+    const fileLog = new SqliteEventLog({ path: path.join(tempDir, 'events.db') });
+    await fileLog.init();
+    const reader = new Database(path.join(tempDir, 'events.db'), { readonly: true });
+    const rowCount = () => (reader.prepare('SELECT COUNT(*) AS count FROM event_log').get() as any).count;
+
+    try {
+      fileLog.append(createEvent('e1'));
+      fileLog.append(createEvent('e2'));
+      expect(rowCount()).toBe(0);
+
+      await new Promise(resolve => setImmediate(resolve));
+      expect(rowCount()).toBe(2);
+    } finally {
+      reader.close();
+      await fileLog.close();
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report failed deferred writes to onError', async () => {
+    const onError = jest.fn();
+    await log.close();
+    log = new SqliteEventLog({ path: ':memory:', onError });
+    await log.init();
+
+    log.append(createEvent('e1', { type: undefined as any }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('NOT NULL') }));
+    expect(log.count()).toBe(0);
+  });
+
+  it('should filter by type, topic, session and time range', () => {
+    log.append(createEvent('e1', { timestamp: 1000 }));
+    log.append(createEvent('e2', { type: 'tool_use', timestamp: 2000 }), 'tool_use.Bash');
+    log.append(createEvent('e3', {
+      timestamp: 3000,
+      metadata: { correlationId: 'c', sessionId: 'session-2', timestamp: 3000, source: 'test' }
+    }));
+
+    expect(log.query({ type: 'tool_use.Bash' }).map(e => e.id)).toEqual(['e2']);
+    expect(log.query({ type: 'tool_use' }).map(e => e.id)).toEqual(['e2']);
+    expect(log.query({ sessionId: 'session-2' }).map(e => e.id)).toEqual(['e3']);
+    expect(log.query({ since: 2000, until: 2999 }).map(e => e.id)).toEqual(['e2']);
+  });
+
+  it('should return events after an event id', () => {
+    ['e1', 'e2', 'e3'].forEach(id => log.append(createEvent(id)));
+
+    expect(log.query({ afterEventId: 'e1' }).map(e => e.id)).toEqual(['e2', 'e3']);
+    expect(log.query({ afterEventId: 'pruned' }).map(e => e.id)).toEqual(['e1', 'e2', 'e3']);
+  });
+
+  it('should prune events beyond the retention limits', async () => {
+    await log.close();
+    log = new SqliteEventLog({ path: ':memory:', maxEvents: 2, maxAgeMs: 10000 });
+    await log.init();
+
+    log.append(createEvent('old', { timestamp: 1000 }));
+    ['e1', 'e2', 'e3'].forEach(id => log.append(createEvent(id, { timestamp: 50000 })));
+
+    expect(log.prune(55000)).toBe(2);
+    expect(log.query().map(e => e.id)).toEqual(['e2', 'e3']);
+    expect(log.count()).toBe(2);
+  });
+});
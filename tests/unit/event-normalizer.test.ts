@@ -0,0 +1,192 @@
+import { StreamEventNormalizer } from '../../src/core/event-normalizer';
+import { JsonStreamParser } from '../../src/core/json-parser';
+import { QueryEvent } from '../../src/types';
+import { streamSamples } from '../fixtures/stream-samples';
+
+describe('StreamEventNormalizer', () => {
+  let normalizer: StreamEventNormalizer;
+
+  const normalizeAll = (lines: string[]): QueryEvent[] =>
+    lines.flatMap(line => normalizer.normalize(JSON.parse(line)));
+
+  beforeEach(() => {
+    normalizer = new StreamEventNormalizer({ sessionId: 'session-1' });
+  });
+
+  describe('stream-json mapping', () => {
+    it('should map a CLI session to response, tool_use and final response events', () => {
+      const events = normalizeAll(streamSamples.claudeCliSession);
+
+      expect(events.map(e => e.type)).toEqual([
+        'response',
+        'tool_use',
+        'tool_use',
+        'response',
+        'response'
+      ]);
+    });
+
+    it('should emit no event for system/init but record session details', () => {
+      const [init, assistant] = streamSamples.claudeCliSession;
+
+      expect(normalizer.normalize(JSON.parse(init))).toEqual([]);
+      expect(normalizer.getCurrentQuery()).toBeDefined();
+
+      const [response] = normalizer.normalize(JSON.parse(assistant));
+      expect(response.metadata.claudeSessionId).toBe('cli-session-1');
+      expect(response.data.model).toBe('claude-sonnet-4-20250514');
+    });
+
+    it('should carry assistant content, usage and stop_reason', () => {
+      const events = normalizeAll(streamSamples.claudeCliSession.slice(0, 2));
+      const response = events[0];
+
+      expect(response.data.content[0]).toEqual({ type: 'text', text: 'Let me list the files.' });
+      expect(response.data.usage).toEqual({ input_tokens: 12, output_tokens: 20 });
+      expect(response.data.stop_reason).toBe('tool_use');
+      expect(response.metadata.messageType).toBe('assistant');
+    });
+
+    it('should mark assistant turns intermediate but not the final result', () => {
+      const responses = normalizeAll(streamSamples.claudeCliSession).filter(e => e.type === 'response');
+
+      expect(responses.map(e => e.metadata.intermediate)).toEqual([true, true, undefined]);
+    });
+
+    it('should pair tool results with the tool name from the tool_use block', () => {
+      const events = normalizeAll(streamSamples.claudeCliSession.slice(0, 3));
+      const [started, completed] = events.filter(e => e.type === 'tool_use');
+
+      expect(started.data).toEqual({
+        toolUseId: 'toolu_cli_1',
+        name: 'Bash',
+        input: { command: 'ls' },
+        status: 'started'
+      });
+      expect(completed.data).toEqual({
+        toolUseId: 'toolu_cli_1',
+        name: 'Bash',
+        result: 'index.ts\nutils.ts',
+        isError: false,
+        status: 'completed'
+      });
+    });
+
+    it('should turn a successful result into a final response', () => {
+      const events = normalizeAll(streamSamples.claudeCliSession);
+      const final = events[events.length - 1];
+
+      expect(final.type).toBe('response');
+      expect(final.metadata.final).toBe(true);
+      expect(final.metadata.latencyMs).toBe(1834);
+      expect(final.data.content).toEqual([{ type: 'text', text: 'There are two files.' }]);
+      expect(final.data.totalCostUsd).toBe(0.0021);
+      expect(normalizer.getCurrentQuery()).toBeUndefined();
+    });
+
+    it('should turn an error result into an error event', () => {
+      const [event] = normalizer.normalize({
+        type: 'result',
+        subtype: 'error_max_turns',
+        is_error: true,
+        duration_ms: 10
+      });
+
+      expect(event.type).toBe('error');
+      expect(event.data.error).toEqual({ type: 'error_max_turns', message: 'error_max_turns' });
+    });
+
+    it('should map API error objects to error events', () => {
+      const [event] = normalizeAll(streamSamples.errorResponse);
+
+      expect(event.type).toBe('error');
+      expect(event.data.error.type).toBe('rate_limit_error');
+    });
+
+    it('should accept raw Messages API objects as assistant responses', () => {
+      const events = normalizeAll(streamSamples.normalSession);
+
+      expect(events.map(e => e.type)).toEqual(['response', 'response']);
+      expect(events.every(e => !e.metadata.intermediate)).toBe(true);
+    });
+
+    it('should ignore unknown and non-object input', () => {
+      expect(normalizer.normalize({ type: 'unknown' })).toEqual([]);
+      expect(normalizer.normalize('text')).toEqual([]);
+      expect(normalizer.normalize(null)).toEqual([]);
+    });
+  });
+
+  describe('streamed messages', () => {
+    const sseMessages = (): any[] => {
+      const parser = new JsonStreamParser({ format: 'sse' });
+      return streamSamples.anthropicSse.flatMap(chunk => parser.parse(chunk));
+    };
+
+    it('should consolidate Messages API stream events into one response', () => {
+      const events = sseMessages().flatMap(message => normalizer.normalize(message));
+
+      expect(events.map(e => e.type)).toEqual(['response', 'tool_use']);
+      expect(events[0].data).toMatchObject({
+        id: 'msg_sse_1',
+        content: [
+          { type: 'text', text: 'Hello, world' },
+          { type: 'tool_use', input: { city: 'Paris' } }
+        ],
+        usage: { input_tokens: 25, output_tokens: 30 },
+        stop_reason: 'tool_use'
+      });
+      expect(events[1].data.input).toEqual({ city: 'Paris' });
+    });
+
+    it('should emit response.delta events when enabled', () => {
+      normalizer = new StreamEventNormalizer({ sessionId: 'session-1', emitDeltas: true });
+      const events = sseMessages().flatMap(message => normalizer.normalize(message));
+      const deltas = events.filter(e => e.type === 'response.delta');
+
+      expect(deltas.map(e => e.data.text ?? e.data.partialJson)).toEqual([
+        'Hello', ', world', '{"city": ', '"Paris"}'
+      ]);
+      expect(events[events.length - 2].type).toBe('response');
+      expect(new Set(events.map(e => e.metadata.queryId)).size).toBe(1);
+    });
+
+    it('should only emit deltas for Claude Code partial messages', () => {
+      normalizer = new StreamEventNormalizer({ sessionId: 'session-1', emitDeltas: true });
+      const events = sseMessages()
+        .map(event => ({ type: 'stream_event', event }))
+        .flatMap(message => normalizer.normalize(message));
+
+      expect(events.every(e => e.type === 'response.delta')).toBe(true);
+      expect(events).toHaveLength(4);
+    });
+  });
+
+  describe('correlation', () => {
+    it('should share queryId and correlationId across one query', () => {
+      const events = normalizeAll(streamSamples.claudeCliSession);
+      const queryIds = new Set(events.map(e => e.metadata.queryId));
+      const correlationIds = new Set(events.map(e => e.metadata.correlationId));
+
+      expect(queryIds.size).toBe(1);
+      expect(correlationIds.size).toBe(1);
+      expect(events.every(e => e.metadata.sessionId === 'session-1')).toBe(true);
+      expect(events.every(e => e.metadata.source === 'cli')).toBe(true);
+    });
+
+    it('should use ids from beginQuery', () => {
+      normalizer.beginQuery('query-1', 'corr-1');
+      const [event] = normalizeAll(streamSamples.claudeCliSession.slice(1, 2));
+
+      expect(event.metadata.queryId).toBe('query-1');
+      expect(event.metadata.correlationId).toBe('corr-1');
+    });
+
+    it('should start a new query after a result', () => {
+      const first = normalizeAll(streamSamples.claudeCliSession);
+      const second = normalizeAll(streamSamples.claudeCliSession.slice(1, 2));
+
+      expect(second[0].metadata.queryId).not.toBe(first[0].metadata.queryId);
+    });
+  });
+});
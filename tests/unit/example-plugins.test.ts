@@ -0,0 +1,107 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { EventBridgeDaemon, EventBridgePublisher } from '../../src/plugins/event-bridge';
+import { QueryEvent } from '../../src/types';
+
+const EXAMPLES_DIR = path.join(__dirname, '../../examples/plugins');
+
+describe('example plugins with the event bridge', () => {
+  let tempDir: string;
+  let socketPath: string;
+  let daemon: EventBridgeDaemon;
+  let publisher: EventBridgePublisher;
+  let logger: any;
+
+  const createEvent = (id: string, type: QueryEvent['type'], data: any, sessionId: string): QueryEvent => ({
+    id,
+    type,
+    timestamp: Date.now(),
+    data,
+    metadata: { correlationId: id, sessionId, timestamp: Date.now(), source: 'cli' }
+  });
+
+  const waitFor = async (condition: () => boolean): Promise<void> => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudeware-examples-'));
+    socketPath = path.join(tempDir, 'events.sock');
+    daemon = new EventBridgeDaemon(socketPath);
+    await daemon.listen();
+    publisher = new EventBridgePublisher(socketPath);
+
+    logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+    logger.child = () => logger;
+  });
+
+  afterEach(async () => {
+    await publisher.close();
+    await daemon.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should count queries from other sessions in the rate limiter', async () => {
+    const RateLimiterPlugin = require(path.join(EXAMPLES_DIR, 'rate-limiter'));
+    const plugin = new RateLimiterPlugin();
+    const sharedState = new Map();
+    await plugin.initialize({
+      logger,
+      eventBus: { emit: jest.fn() },
+      sharedState,
+      config: { bridgeSocket: socketPath }
+    });
+    await waitFor(() => daemon.getStats().subscribers === 1);
+
+    // Our own session's events come back through the bridge too
+    await plugin.onEvent(createEvent('local', 'query', { messages: [] }, 'local-session'), { sharedState });
+    publisher.publish(createEvent('local', 'query', { messages: [] }, 'local-session'));
+    publisher.publish(createEvent('remote', 'query', { messages: [] }, 'other-session'));
+    await waitFor(() => plugin.metrics.remote > 0);
+    await plugin.shutdown();
+
+    expect(plugin.metrics).toMatchObject({ allowed: 1, remote: 1 });
+    expect(sharedState.get('rate-limiter:metrics')).toMatchObject({ remote: 1 });
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('should include other sessions in the analytics dashboard', async () => {
+    const AnalyticsDashboardPlugin = require(path.join(EXAMPLES_DIR, 'analytics-dashboard'));
+    const plugin = new AnalyticsDashboardPlugin();
+    plugin.logger = logger;
+    await plugin.connectBridge(socketPath);
+    await waitFor(() => daemon.getStats().subscribers === 1);
+
+    publisher.publish(createEvent('q1', 'query', { messages: [], model: 'sonnet' }, 'other-session'));
+    publisher.publish(createEvent('r1', 'response', {
+      model: 'sonnet',
+      usage: { input_tokens: 10, output_tokens: 20 }
+    }, 'other-session'));
+    await waitFor(() => plugin.stats.tokens.totalOutput > 0);
+    await plugin.shutdown();
+
+    expect(plugin.stats.queries.total).toBe(1);
+    expect(plugin.stats.queries.byModel).toEqual({ sonnet: 1 });
+    expect(plugin.stats.tokens).toMatchObject({ totalInput: 10, totalOutput: 20 });
+  });
+
+  it('should run without a daemon', async () => {
+    const RateLimiterPlugin = require(path.join(EXAMPLES_DIR, 'rate-limiter'));
+    const plugin = new RateLimiterPlugin();
+    await plugin.initialize({
+      logger,
+      eventBus: { emit: jest.fn() },
+      sharedState: new Map(),
+      config: { bridgeSocket: path.join(tempDir, 'missing.sock') }
+    });
+    await plugin.shutdown();
+
+    expect(plugin.bridge).toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith('Event bridge unavailable', expect.objectContaining({
+      socketPath: path.join(tempDir, 'missing.sock')
+    }));
+  });
+});
@@ -0,0 +1,252 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PluginLoader, PluginSelection } from '../../src/plugins/plugin-loader';
+import { IsolatedPlugin } from '../../src/plugins/isolated-plugin';
+import { PluginContext, PluginManifest, QueryEvent } from '../../src/types';
+
+// Runs in the worker, so plain JavaScript
+const PLUGIN_SOURCE = `
+class TestPlugin {
+  async initialize(context) {
+    context.logger.child({ part: 'init' }).info({ ready: true }, 'ready');
+    context.sharedState.set('test.ready', true);
+    context.eventBus.on('ping', value => context.eventBus.emit('pong', value * 2));
+  }
+
+  async onEvent(event, context) {
+    if (event.type === 'plugin.spin') while (true) {}
+    if (event.type === 'plugin.hog') {
+      const hog = [];
+      while (true) hog.push(new Array(100000).fill(event.id));
+    }
+    if (event.type === 'plugin.escape') {
+      const attempt = async action => {
+        try {
+          await action();
+          return 'allowed';
+        } catch (error) {
+          return error.message;
+        }
+      };
+      context.eventBus.emit('escaped', {
+        write: await attempt(() => require('fs').writeFileSync(event.data.file, 'x')),
+        open: await attempt(() => require('fs/promises').open(event.data.file, 'a')),
+        read: await attempt(() => require('fs').readFileSync(__filename)),
+        connect: await attempt(() => require('net').connect(9, '127.0.0.1')),
+        spawn: await attempt(() => require('child_process').execFileSync('true')),
+        worker: await attempt(() => new (require('worker_threads').Worker)('', { eval: true })),
+        save: await attempt(() => context.dataStore.saveQuery({}))
+      });
+      return;
+    }
+    if (event.type === 'plugin.permissions') {
+      context.eventBus.emit('permissions', {
+        readMainDb: context.permissions.canReadMainDb(),
+        readable: context.permissions.getReadablePlugins(),
+        readOther: context.permissions.canReadPluginDb('other')
+      });
+      return;
+    }
+    const stats = await context.dataStore.getQueryStats();
+    context.eventBus.emit('seen', { id: event.id, total: stats.totalQueries, config: context.config });
+  }
+
+  async beforeQuery(request) {
+    return { action: 'continue', prompt: request.prompt.toUpperCase() };
+  }
+
+  async shutdown() {}
+}
+
+module.exports = TestPlugin;
+`;
+
+describe('IsolatedPlugin', () => {
+  let tempDir: string;
+  let eventBus: EventEmitter;
+  let context: PluginContext;
+  let loader: PluginLoader;
+  let logger: any;
+
+  const createEvent = (type: QueryEvent['type'], id = 'e1'): QueryEvent => ({
+    id,
+    type,
+    timestamp: Date.now(),
+    data: {},
+    metadata: { correlationId: 'c', sessionId: 's', timestamp: Date.now(), source: 'test' }
+  });
+
+  const install = async (
+    manifest: Partial<PluginManifest> = {},
+    selection: PluginSelection = {}
+  ): Promise<IsolatedPlugin> => {
+    const pluginDir = path.join(tempDir, 'isolated');
+    await fs.mkdir(pluginDir);
+    await fs.writeFile(path.join(pluginDir, 'index.js'), PLUGIN_SOURCE);
+    await fs.writeFile(path.join(pluginDir, 'manifest.json'), JSON.stringify({
+      name: 'isolated',
+      version: '1.0.0',
+      dependencies: [],
+      priority: 1,
+      timeout: 1000,
+      capabilities: ['db:read', 'events:emit', 'query:modify'],
+      isolation: 'worker',
+      config: { label: { type: 'string', default: 'plain' } },
+      ...manifest
+    }));
+
+    const { started } = await loader.startPlugins(tempDir, selection);
+    return started[0] as IsolatedPlugin;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudeware-isolated-'));
+    eventBus = new EventEmitter();
+    logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+    logger.child = jest.fn().mockReturnValue(logger);
+    context = {
+      eventBus,
+      dataStore: {
+        getQueryStats: jest.fn().mockResolvedValue({ totalQueries: 3 }),
+        saveQuery: jest.fn()
+      } as any,
+      logger,
+      config: {},
+      sharedState: new Map()
+    };
+    loader = new PluginLoader(context);
+  });
+
+  afterEach(async () => {
+    await loader.shutdown();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should run hooks in a worker and proxy context calls', async () => {
+    const plugin = await install();
+    const seen = new Promise(resolve => eventBus.once('seen', resolve));
+    const pong = new Promise(resolve => eventBus.once('pong', resolve));
+
+    expect(plugin).toBeInstanceOf(IsolatedPlugin);
+    await loader.executePlugins(createEvent('query'));
+    eventBus.emit('ping', 21);
+
+    await expect(seen).resolves.toEqual({ id: 'e1', total: 3, config: { label: 'plain' } });
+    await expect(pong).resolves.toBe(42);
+    expect(context.sharedState.get('test.ready')).toBe(true);
+    expect(logger.child).toHaveBeenCalledWith({ part: 'init' });
+    expect(logger.info).toHaveBeenCalledWith({ ready: true }, 'ready');
+
+    const interception = await loader.runBeforeQuery({ queryId: 'q', sessionId: 's', prompt: 'hello', options: {} });
+    expect(interception.request.prompt).toBe('HELLO');
+
+    await loader.shutdown();
+    expect(plugin.isRunning()).toBe(false);
+  });
+
+  it('should start a worker only for a plugin that is initialized, and restart it after termination', async () => {
+    const startWorker = jest.spyOn(IsolatedPlugin.prototype as any, 'startWorker');
+
+    await expect(install({}, { disabledPlugins: ['isolated'] })).resolves.toBeUndefined();
+    expect(startWorker).not.toHaveBeenCalled();
+
+    await loader.shutdown();
+    await fs.rm(path.join(tempDir, 'isolated'), { recursive: true });
+    const plugin = await install();
+    await plugin.terminate();
+    expect(plugin.isRunning()).toBe(false);
+
+    await loader.initializePlugin(plugin);
+    expect(plugin.isRunning()).toBe(true);
+    expect(startWorker).toHaveBeenCalledTimes(2);
+    startWorker.mockRestore();
+  });
+
+  it('should refuse fs writes, connections, processes and db writes without the capabilities', async () => {
+    await install();
+    const file = path.join(tempDir, 'written.txt');
+    const escaped = new Promise(resolve => eventBus.once('escaped', resolve));
+
+    await loader.executePlugins({ ...createEvent('plugin.escape'), data: { file } });
+
+    await expect(escaped).resolves.toEqual({
+      write: 'Plugin isolated needs the fs:write capability to call fs.writeFileSync',
+      open: `Plugin isolated needs the fs:write capability to open ${file} for writing`,
+      read: 'allowed',
+      connect: 'Plugin isolated needs the network capability to open network connections',
+      spawn: 'Plugin isolated needs the fs:write and network capabilities to call child_process.execFileSync',
+      worker: 'Plugin isolated needs the fs:write and network capabilities to start a Worker',
+      save: 'Plugin isolated needs the db:write capability to call dataStore.saveQuery'
+    });
+    await expect(fs.access(file)).rejects.toThrow();
+    expect(context.dataStore.saveQuery).not.toHaveBeenCalled();
+  });
+
+  it('should give the worker the plugin\'s permissions and check readMainDb on reads', async () => {
+    await install({ permissions: { readMainDb: false, readPluginDbs: ['query-collector'] } });
+    const permissions = new Promise(resolve => eventBus.once('permissions', resolve));
+
+    await loader.executePlugins(createEvent('plugin.permissions'));
+    await loader.executePlugins(createEvent('query'));
+
+    await expect(permissions).resolves.toEqual({ readMainDb: false, readable: ['query-collector'], readOther: false });
+    expect((await loader.getPluginMetrics())[0].lastError)
+      .toBe('Plugin isolated needs permissions.readMainDb to call dataStore.getQueryStats');
+    expect(context.dataStore.getQueryStats).not.toHaveBeenCalled();
+  });
+
+  it('should terminate a plugin that times out without blocking the main thread, then restart it', async () => {
+    const plugin = await install({ timeout: 200 });
+    let ticks = 0;
+    const ticker = setInterval(() => ticks++, 20);
+
+    await loader.executePlugins(createEvent('plugin.spin'));
+    clearInterval(ticker);
+
+    expect(ticks).toBeGreaterThanOrEqual(5);
+    expect(plugin.isRunning()).toBe(false);
+    expect((await loader.getPluginMetrics())[0]).toMatchObject({
+      failures: 1,
+      lastError: 'Plugin isolated execution timeout'
+    });
+
+    // Events are skipped until the fresh worker has run initialize
+    await loader.executePlugins(createEvent('query', 'skipped'));
+    await (loader as any).restarting.get('isolated');
+
+    const seen = new Promise(resolve => eventBus.once('seen', resolve));
+    await loader.executePlugins(createEvent('query', 'e2'));
+
+    await expect(seen).resolves.toMatchObject({ id: 'e2' });
+    expect(plugin.isRunning()).toBe(true);
+    expect(logger.info).toHaveBeenCalledWith({ plugin: 'isolated' }, 'Isolated plugin restarted after timeout');
+    expect((await loader.getPluginMetrics())[0]).toMatchObject({ executionCount: 2, failures: 1 });
+  });
+
+  it('should remove a timed-out plugin that fails to start again', async () => {
+    const plugin = await install({ timeout: 200 });
+    const startWorker = jest.spyOn(plugin as any, 'startWorker').mockRejectedValue(new Error('no worker'));
+
+    await loader.executePlugins(createEvent('plugin.spin'));
+    await (loader as any).restarting.get('isolated');
+    startWorker.mockRestore();
+    await loader.executePlugins(createEvent('query', 'e2'));
+
+    expect(logger.error).toHaveBeenCalledWith(
+      { plugin: 'isolated' },
+      'Isolated plugin failed to restart after timeout; plugin removed'
+    );
+    expect((await loader.getPluginMetrics())[0].executionCount).toBe(1);
+  });
+
+  it('should stop a plugin that exceeds its heap limit', async () => {
+    const plugin = await install({ timeout: 10000, resourceLimits: { maxOldGenerationSizeMb: 16 } });
+
+    await loader.executePlugins(createEvent('plugin.hog'));
+
+    expect(plugin.isRunning()).toBe(false);
+    expect((await loader.getPluginMetrics())[0].lastError).toMatch(/^Plugin isolated worker failed/);
+  });
+});
@@ -1,4 +1,5 @@
 import { JsonStreamParser } from '../../src/core/json-parser';
+import { streamSamples } from '../fixtures/stream-samples';
 
 describe('JsonStreamParser', () => {
   let parser: JsonStreamParser;
@@ -117,13 +118,45 @@ describe('JsonStreamParser', () => {
     });
 
     it('should handle buffer overflow gracefully', () => {
+      parser = new JsonStreamParser({ maxMessageSize: 65536 });
+
       // Create a very long incomplete JSON
       const longString = '{"data":"' + 'x'.repeat(100000);
       parser.parse(longString);
       
-      // Should truncate or handle gracefully
+      // Oversized values are dropped whole, never kept truncated
       const buffer = parser.getBuffer();
       expect(buffer.length).toBeLessThanOrEqual(65536); // Max buffer size
+      expect(parser.getStats().bytesDiscarded).toBe(longString.length);
+    });
+
+    it('should keep messages larger than 64KB intact', () => {
+      const content = 'x'.repeat(5 * 1024 * 1024);
+      const input = JSON.stringify({ type: 'assistant', content }) + '\n';
+
+      const results = [];
+      for (let i = 0; i < input.length; i += 65536) {
+        results.push(...parser.parse(input.slice(i, i + 65536)));
+      }
+
+      expect(results).toHaveLength(1);
+      expect(results[0].content).toHaveLength(content.length);
+    });
+
+    it('should drop oversized messages and continue with the next one', () => {
+      parser = new JsonStreamParser({ maxMessageSize: 100 });
+      const big = JSON.stringify({ data: 'x'.repeat(200) });
+
+      const result = parser.parse(big.slice(0, 50));
+      const rest = parser.parse(big.slice(50) + '\n{"id":2}\n');
+
+      expect(result).toEqual([]);
+      expect(rest).toEqual([{ id: 2 }]);
+      expect(parser.getStats()).toMatchObject({
+        messagesParsed: 1,
+        oversizedMessages: 1,
+        bytesDiscarded: big.length
+      });
     });
 
     it('should reset buffer and state', () => {
@@ -135,6 +168,131 @@ describe('JsonStreamParser', () => {
     });
   });
 
+  describe('tokenizer', () => {
+    it('should ignore braces and quotes inside strings', () => {
+      const input = '{"text":"a } b { c \\" ] ["}\n{"id":2}';
+      const result = parser.parse(input);
+
+      expect(result).toEqual([{ text: 'a } b { c " ] [' }, { id: 2 }]);
+    });
+
+    it('should track string and escape state across chunk boundaries', () => {
+      expect(parser.parse('{"text":"say \\')).toEqual([]);
+      expect(parser.parse('"}\\" now"')).toEqual([]);
+      expect(parser.parse('}')).toEqual([{ text: 'say "}" now' }]);
+    });
+
+    it('should parse objects split across chunks at every position', () => {
+      const input = '{"a":{"b":[1,{"c":"}"}]},"d":"x"}';
+
+      for (let split = 1; split < input.length; split++) {
+        parser.reset();
+        const result = [...parser.parse(input.slice(0, split)), ...parser.parse(input.slice(split))];
+        expect(result).toEqual([JSON.parse(input)]);
+      }
+    });
+
+    it('should parse back-to-back objects without separators', () => {
+      const result = parser.parse('{"id":1}{"id":2}[3]');
+
+      expect(result).toEqual([{ id: 1 }, { id: 2 }, [3]]);
+    });
+
+    it('should drop invalid nested JSON whole instead of returning an inner object', () => {
+      const result = parser.parse('{"outer":{"inner":1}, oops}\n{"id":2}\n');
+
+      expect(result).toEqual([{ id: 2 }]);
+      expect(parser.getStats().invalidMessages).toBe(1);
+    });
+
+    it('should decode multi-byte characters split across Buffer chunks', () => {
+      const bytes = Buffer.from('{"text":"héllo ✓"}');
+      const split = bytes.indexOf(0xe2) + 1;
+
+      const result = [...parser.parse(bytes.subarray(0, split)), ...parser.parse(bytes.subarray(split))];
+
+      expect(result).toEqual([{ text: 'héllo ✓' }]);
+    });
+
+    it('should count text between messages as discarded', () => {
+      parser.parse('noise\n{"id":1}\n  \n');
+
+      expect(parser.getStats()).toMatchObject({ messagesParsed: 1, bytesDiscarded: 5 });
+    });
+  });
+
+  describe('sse format', () => {
+    beforeEach(() => {
+      parser = new JsonStreamParser({ format: 'sse' });
+    });
+
+    it('should parse the data of each complete event as JSON', () => {
+      const results = streamSamples.anthropicSse.flatMap(chunk => parser.parse(chunk));
+
+      expect(results.map(r => r.type)).toEqual([
+        'message_start',
+        'content_block_start',
+        'ping',
+        'content_block_delta',
+        'content_block_delta',
+        'content_block_stop',
+        'content_block_start',
+        'content_block_delta',
+        'content_block_delta',
+        'content_block_stop',
+        'message_delta',
+        'message_stop'
+      ]);
+    });
+
+    it('should expose event name and id alongside the payload', () => {
+      const [event] = parser.parseEvents('event: message_stop\nid: 42\ndata: {"type":"message_stop"}\n\n');
+
+      expect(event).toEqual({
+        event: 'message_stop',
+        id: '42',
+        data: '{"type":"message_stop"}',
+        payload: { type: 'message_stop' },
+        done: false
+      });
+    });
+
+    it('should wait for the blank line before parsing multi-line data', () => {
+      expect(parser.parse('data: {"text":\ndata: "split"}\n')).toEqual([]);
+      expect(parser.parse('\n')).toEqual([{ text: 'split' }]);
+    });
+
+    it('should flag [DONE] without emitting a payload', () => {
+      const events = parser.parseEvents('data: {"id":1}\n\ndata: [DONE]\n\n');
+
+      expect(events.map(e => e.done)).toEqual([false, true]);
+      expect(parser.parse('data: [DONE]\n\n')).toEqual([]);
+      expect(parser.getStats().invalidMessages).toBe(0);
+    });
+
+    it('should count non-JSON data as discarded', () => {
+      const [event] = parser.parseEvents('data: not json\n\n');
+
+      expect(event.payload).toBeUndefined();
+      expect(parser.getStats()).toMatchObject({ invalidMessages: 1, bytesDiscarded: 8 });
+    });
+
+    it('should drop an unterminated last line when the stream ends', () => {
+      parser.parse('data: {"id":1}\n\ndata: {"id"');
+
+      expect(parser.end()).toEqual([]);
+      expect(parser.takeDiagnostics()).toEqual([
+        { kind: 'dropped', reason: 'truncated', offset: 16, length: 11, fragment: 'data: {"id"' }
+      ]);
+      expect(parser.getBuffer()).toBe('');
+    });
+
+    it('should reject parseEvents outside sse format', () => {
+      expect(() => new JsonStreamParser().parseEvents('data: {}\n\n'))
+        .toThrow('parseEvents requires the sse stream format');
+    });
+  });
+
   describe('recovery strategies', () => {
     it('should recover from malformed JSON after newline', () => {
       const input = 'malformed json\n{"valid":true}';
@@ -153,6 +311,7 @@ describe('JsonStreamParser', () => {
       
       const result = parser.parse('{"new":"object"}');
       expect(result).toEqual([{ new: 'object' }]);
+      expect(parser.getStats().timedOutFragments).toBe(1);
       
       jest.useRealTimers();
     });
@@ -167,6 +326,84 @@ describe('JsonStreamParser', () => {
     });
   });
 
+  describe('diagnostics', () => {
+    it('should report dropped noise with its byte offset', () => {
+      parser.parse('{"id":1}\n  héllo\n{"id":2}\n');
+
+      expect(parser.takeDiagnostics()).toEqual([
+        { kind: 'dropped', reason: 'noise', offset: 11, length: 6, fragment: 'héllo' }
+      ]);
+    });
+
+    it('should resync at the next line after an invalid value', () => {
+      const result = parser.parse('{"a": oops,\n{"id":2}, }\n{"id":3}\n');
+
+      expect(result).toEqual([{ id: 2 }, { id: 3 }]);
+      expect(parser.takeDiagnostics()).toEqual([
+        { kind: 'dropped', reason: 'invalid', offset: 0, length: 12, fragment: '{"a": oops,\n' },
+        { kind: 'dropped', reason: 'noise', offset: 20, length: 3, fragment: ', }' },
+        { kind: 'recovery', offset: 12, length: 11, recovered: 1 }
+      ]);
+      expect(parser.getStats()).toMatchObject({ invalidMessages: 1, recoveryAttempts: 1 });
+    });
+
+    it('should salvage complete lines from a fragment that timed out', () => {
+      jest.useFakeTimers();
+
+      parser.parse('Use { to open a block\n{"id":1}\n{"partial":');
+      jest.advanceTimersByTime(1000);
+      const result = parser.parse('{"id":2}\n');
+
+      jest.useRealTimers();
+
+      expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+      const kinds = parser.takeDiagnostics().map(d => [d.kind, d.offset]);
+      expect(kinds).toEqual([
+        ['dropped', 0],
+        ['timeout', 4],
+        ['recovery', 22],
+        ['timeout', 31]
+      ]);
+      expect(parser.getStats().timedOutFragments).toBe(1);
+    });
+
+    it('should report a value left open when the stream ends', () => {
+      parser.parse('{"id":1}\n{"text":"cut off');
+
+      expect(parser.end()).toEqual([]);
+      expect(parser.takeDiagnostics()).toEqual([
+        { kind: 'dropped', reason: 'truncated', offset: 9, length: 16, fragment: '{"text":"cut off' }
+      ]);
+      expect(parser.getStats()).toMatchObject({ truncatedFragments: 1, bytesDiscarded: 16 });
+      expect(parser.getBuffer()).toBe('');
+      expect(parser.parse('{"id":2}')).toEqual([{ id: 2 }]);
+    });
+
+    it('should have nothing to report when the stream ends between values', () => {
+      parser.parse('{"id":1}\n');
+
+      expect(parser.end()).toEqual([]);
+      expect(parser.takeDiagnostics()).toEqual([]);
+      expect(parser.getStats().truncatedFragments).toBe(0);
+    });
+
+    it('should report oversized values without their content', () => {
+      parser = new JsonStreamParser({ maxMessageSize: 10 });
+      parser.parse('{"data":"0123456789"}\n');
+
+      expect(parser.takeDiagnostics()).toEqual([
+        { kind: 'dropped', reason: 'oversized', offset: 0, length: 21 }
+      ]);
+    });
+
+    it('should clear diagnostics once taken', () => {
+      parser.parse('noise\n');
+      parser.takeDiagnostics();
+
+      expect(parser.takeDiagnostics()).toEqual([]);
+    });
+  });
+
   describe('performance', () => {
     it('should handle large JSON objects efficiently', () => {
       const largeObject = {
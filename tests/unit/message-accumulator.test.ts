@@ -0,0 +1,82 @@
+import { MessageAccumulator } from '../../src/core/message-accumulator';
+import { JsonStreamParser } from '../../src/core/json-parser';
+import { streamSamples } from '../fixtures/stream-samples';
+
+describe('MessageAccumulator', () => {
+  let accumulator: MessageAccumulator;
+
+  const streamEvents = (): any[] => {
+    const parser = new JsonStreamParser({ format: 'sse' });
+    return streamSamples.anthropicSse.flatMap(chunk => parser.parse(chunk));
+  };
+
+  beforeEach(() => {
+    accumulator = new MessageAccumulator();
+  });
+
+  it('should rebuild the complete message on message_stop', () => {
+    const results = streamEvents().map(event => accumulator.push(event));
+    const messages = results.filter(r => r.message).map(r => r.message);
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toEqual({
+      id: 'msg_sse_1',
+      model: 'claude-sonnet-4-20250514',
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Hello, world' },
+        { type: 'tool_use', id: 'toolu_sse_1', name: 'get_weather', input: { city: 'Paris' } }
+      ],
+      usage: { input_tokens: 25, output_tokens: 30 },
+      stop_reason: 'tool_use',
+      stop_sequence: null
+    });
+  });
+
+  it('should report each content delta', () => {
+    const deltas = streamEvents()
+      .map(event => accumulator.push(event).delta)
+      .filter(Boolean);
+
+    expect(deltas).toEqual([
+      { messageId: 'msg_sse_1', index: 0, type: 'text_delta', text: 'Hello' },
+      { messageId: 'msg_sse_1', index: 0, type: 'text_delta', text: ', world' },
+      { messageId: 'msg_sse_1', index: 1, type: 'input_json_delta', partialJson: '{"city": ' },
+      { messageId: 'msg_sse_1', index: 1, type: 'input_json_delta', partialJson: '"Paris"}' }
+    ]);
+  });
+
+  it('should accumulate thinking deltas', () => {
+    accumulator.push({ type: 'message_start', message: { id: 'msg_1' } });
+    accumulator.push({ type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } });
+    accumulator.push({ type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Hmm, ' } });
+    accumulator.push({ type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'yes.' } });
+
+    const { message } = accumulator.push({ type: 'message_stop' });
+
+    expect(message!.content).toEqual([{ type: 'thinking', thinking: 'Hmm, yes.' }]);
+  });
+
+  it('should keep unparseable tool input as raw text', () => {
+    accumulator.push({ type: 'message_start', message: { id: 'msg_1' } });
+    accumulator.push({ type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 't', name: 'x', input: {} } });
+    accumulator.push({ type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"a":' } });
+
+    const { message } = accumulator.push({ type: 'message_stop' });
+
+    expect(message!.content[0].input).toBe('{"a":');
+  });
+
+  it('should start over after message_stop', () => {
+    streamEvents().forEach(event => accumulator.push(event));
+
+    expect(accumulator.getCurrent()).toBeUndefined();
+    expect(accumulator.push({ type: 'message_stop' })).toEqual({ message: undefined });
+  });
+
+  it('should recognize stream event types', () => {
+    expect(MessageAccumulator.isStreamEvent({ type: 'content_block_delta' })).toBe(true);
+    expect(MessageAccumulator.isStreamEvent({ type: 'assistant' })).toBe(false);
+    expect(MessageAccumulator.isStreamEvent(null)).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PluginLoader } from '../../src/plugins/plugin-loader';
+import { manifestFromPackage, PLUGIN_KEYWORD } from '../../src/plugins/package-plugins';
+import { PluginContext } from '../../src/types';
+
+const PLUGIN_SOURCE = `
+module.exports = class {
+  async initialize(context) {
+    context.sharedState.set(context.config.label, {
+      readMainDb: context.permissions.canReadMainDb(),
+      readable: context.permissions.getReadablePlugins()
+    });
+  }
+  async onEvent() {}
+  async shutdown() {}
+};
+`;
+
+describe('package plugins', () => {
+  let tempDir: string;
+  let pluginsDir: string;
+  let context: PluginContext;
+  let loader: PluginLoader;
+  let logger: any;
+
+  const writePackage = async (directory: string, pkg: Record<string, unknown>): Promise<void> => {
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, 'package.json'), JSON.stringify({ main: 'lib/plugin.js', ...pkg }));
+    await fs.mkdir(path.join(directory, 'lib'));
+    await fs.writeFile(path.join(directory, 'lib', 'plugin.js'), PLUGIN_SOURCE);
+  };
+
+  const labelled = (label: string) => ({ config: { label: { type: 'string', default: label } } });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudeware-packages-'));
+    pluginsDir = path.join(tempDir, 'plugins');
+    await fs.mkdir(pluginsDir);
+
+    logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+    logger.child = jest.fn().mockReturnValue(logger);
+    context = {
+      eventBus: { emit: jest.fn(), on: jest.fn() } as any,
+      dataStore: {} as any,
+      logger,
+      config: {},
+      sharedState: new Map()
+    };
+    loader = new PluginLoader(context);
+  });
+
+  afterEach(async () => {
+    await loader.shutdown();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should discover plugin packages in node_modules by keyword or claudeware section', async () => {
+    const nodeModules = path.join(pluginsDir, 'node_modules');
+    await writePackage(path.join(nodeModules, 'claudeware-plugin-audit'), {
+      name: 'claudeware-plugin-audit',
+      version: '1.2.0',
+      keywords: [PLUGIN_KEYWORD],
+      claudeware: labelled('audit')
+    });
+    await writePackage(path.join(nodeModules, '@acme', 'reports'), {
+      name: '@acme/reports',
+      version: '0.3.0',
+      claudeware: {
+        version: '1',
+        priority: 5,
+        permissions: { readMainDb: true, readPluginDbs: ['claudeware-plugin-audit'] },
+        ...labelled('reports')
+      }
+    });
+    await writePackage(path.join(nodeModules, 'left-pad'), { name: 'left-pad', version: '1.3.0' });
+
+    const { started } = await loader.startPlugins(pluginsDir);
+
+    expect(started.map(plugin => plugin.name)).toEqual(['@acme/reports', 'claudeware-plugin-audit']);
+    expect(started[0].manifest).toMatchObject({ version: '0.3.0', priority: 5, timeout: 5000 });
+    expect(context.sharedState.get('reports')).toEqual({
+      readMainDb: true,
+      readable: ['claudeware-plugin-audit']
+    });
+    expect(context.sharedState.get('audit')).toEqual({ readMainDb: false, readable: [] });
+  });
+
+  it('should load packages named in config, by package name or path', async () => {
+    await writePackage(path.join(pluginsDir, 'node_modules', 'quiet-plugin'), {
+      name: 'quiet-plugin',
+      version: '1.0.0',
+      claudeware: labelled('quiet')
+    });
+    await writePackage(path.join(tempDir, 'work', 'local-plugin'), {
+      name: 'local-plugin',
+      version: '0.1.0',
+      claudeware: labelled('local')
+    });
+
+    const { started } = await loader.startPlugins(pluginsDir, {
+      packages: ['quiet-plugin', '../work/local-plugin', 'not-installed']
+    });
+
+    expect(started.map(plugin => plugin.name).sort()).toEqual(['local-plugin', 'quiet-plugin']);
+    expect(logger.error).toHaveBeenCalledWith(
+      { plugin: 'not-installed', error: 'Cannot find plugin package not-installed' },
+      'Failed to load plugin'
+    );
+  });
+
+  it('should accept a plugin directory with a claudeware package.json instead of manifest.json', async () => {
+    await writePackage(path.join(pluginsDir, 'local'), {
+      name: 'local',
+      version: '2.0.0',
+      claudeware: labelled('local')
+    });
+    await fs.mkdir(path.join(pluginsDir, 'empty'));
+
+    const { started } = await loader.startPlugins(pluginsDir);
+
+    expect(started.map(plugin => plugin.name)).toEqual(['local']);
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ plugin: 'empty', error: expect.stringContaining('No manifest.json') }),
+      'Failed to load plugin'
+    );
+  });
+
+  it('should build a manifest from package.json', () => {
+    expect(manifestFromPackage({
+      name: 'audit',
+      version: '1.0.0',
+      description: 'Audits queries',
+      engines: { node: '>=18', claudeware: '^0.1.0' },
+      claudeware: { version: '2', dependencies: { cache: '^1.0.0' } }
+    })).toEqual({
+      name: 'audit',
+      version: '1.0.0',
+      description: 'Audits queries',
+      engines: { claudeware: '^0.1.0' },
+      dependencies: { cache: '^1.0.0' },
+      priority: 50,
+      timeout: 5000,
+      capabilities: []
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { EventEmitter } from 'events';
+import {
+  changesQuery,
+  formatCapabilitySummary,
+  grantedCapabilities,
+  scopeContext
+} from '../../src/plugins/plugin-capabilities';
+import { PermissionError } from '../../src/plugins/infrastructure/interfaces/errors';
+import { Plugin, PluginContext, PluginManifest } from '../../src/types';
+
+describe('plugin capabilities', () => {
+  let context: PluginContext;
+
+  const manifest = (name: string, capabilities: string[], extra: Partial<PluginManifest> = {}): PluginManifest => ({
+    name,
+    version: '1.0.0',
+    dependencies: [],
+    priority: 1,
+    timeout: 1000,
+    capabilities,
+    ...extra
+  });
+
+  beforeEach(() => {
+    context = {
+      eventBus: new EventEmitter(),
+      dataStore: {
+        getQueryStats: jest.fn().mockResolvedValue({ totalQueries: 1 }),
+        saveQuery: jest.fn()
+      } as any,
+      logger: {} as any,
+      config: { limit: 1 },
+      sharedState: new Map()
+    };
+  });
+
+  it('should keep only the enforced capabilities a manifest declares', () => {
+    expect(grantedCapabilities(manifest('cache', ['caching', 'query:modify', 'db:read'])))
+      .toEqual(['db:read', 'query:modify']);
+  });
+
+  it('should throw PermissionError from methods the plugin may not use', async () => {
+    const scoped = scopeContext(context, manifest('reader', ['db:read']));
+
+    await expect(scoped.dataStore.getQueryStats()).resolves.toEqual({ totalQueries: 1 });
+    expect(() => scoped.dataStore.saveQuery({} as any)).toThrow(PermissionError);
+    expect(() => scoped.dataStore.saveQuery({} as any))
+      .toThrow('Plugin reader needs the db:write capability to call dataStore.saveQuery');
+    expect(() => scoped.eventBus.emit('alert')).toThrow('needs the events:emit capability');
+    expect(() => (scoped.eventBus as any).emitEventAsync({})).toThrow('needs the events:emit capability');
+    expect(() => scoped.dataStore.close()).toThrow('Plugin reader may not call dataStore.close');
+    expect(context.dataStore.saveQuery).not.toHaveBeenCalled();
+    expect(scoped.config).toBe(context.config);
+  });
+
+  it('should need readMainDb for reads once a plugin declares permissions', async () => {
+    const denied = scopeContext(context, manifest('audit', ['db:read'], { permissions: { readPluginDbs: ['cache'] } }));
+    const allowed = scopeContext(context, manifest('audit', ['db:read'], { permissions: { readMainDb: true } }));
+    const missingCapability = scopeContext(context, manifest('audit', [], { permissions: { readMainDb: true } }));
+
+    expect(() => denied.dataStore.getQueryStats()).toThrow(PermissionError);
+    expect(() => denied.dataStore.getQuery('q'))
+      .toThrow('Plugin audit needs permissions.readMainDb to call dataStore.getQuery');
+    await expect(allowed.dataStore.getQueryStats()).resolves.toEqual({ totalQueries: 1 });
+    expect(() => missingCapability.dataStore.getQueryStats()).toThrow('needs the db:read capability');
+    expect(context.dataStore.getQueryStats).toHaveBeenCalledTimes(1);
+  });
+
+  it('should expose only the listed methods, not the raw store or bus', () => {
+    (context.dataStore as any).db = { prepare: jest.fn() };
+    const scoped = scopeContext(context, manifest('writer', ['db:write', 'events:emit']));
+
+    expect((scoped.dataStore as any).db).toBeUndefined();
+    expect((scoped.eventBus as any).removeAllListeners).toBeUndefined();
+    expect((scoped.eventBus as any).attachEventLog).toBeUndefined();
+    expect(Object.keys(scoped.eventBus)).toEqual(expect.arrayContaining(['emitEventAsync', 'on']));
+  });
+
+  it('should let listeners subscribe without events:emit and keep chained calls scoped', () => {
+    const scoped = scopeContext(context, manifest('listener', []));
+    const listener = jest.fn();
+
+    const chained = scoped.eventBus.on('alert', listener);
+    context.eventBus.emit('alert', 1);
+
+    expect(listener).toHaveBeenCalledWith(1);
+    expect(chained).toBe(scoped.eventBus);
+    expect(() => chained.emit('alert', 2)).toThrow(PermissionError);
+  });
+
+  it('should treat changed prompts, options and answers as query changes, not rejections', () => {
+    const request = { queryId: 'q', sessionId: 's', prompt: 'hi', options: { model: 'opus' } };
+
+    expect(changesQuery({ action: 'continue' }, request)).toBe(false);
+    expect(changesQuery({ action: 'continue', prompt: 'hi', options: { model: 'opus' } }, request)).toBe(false);
+    expect(changesQuery({ action: 'continue', options: { model: 'sonnet' } }, request)).toBe(true);
+    expect(changesQuery({ action: 'respond', response: {} }, request)).toBe(true);
+    expect(changesQuery({ action: 'reject', reason: 'no' }, request)).toBe(false);
+  });
+
+  it('should summarize what each plugin can do', () => {
+    const plugin = (m: PluginManifest) => ({ name: m.name, manifest: m } as Plugin);
+
+    expect(formatCapabilitySummary([
+      plugin(manifest('monitor', ['db:read', 'events:emit'], { isolation: 'worker' })),
+      plugin(manifest('cache', ['events:emit', 'fs:write', 'query:modify'])),
+      plugin(manifest('quiet', ['monitoring']))
+    ])).toBe([
+      'Plugin capabilities:',
+      '  monitor: db:read, events:emit',
+      '  cache: events:emit, fs:write, query:modify; network unrestricted (main thread)',
+      '  quiet: none; network and fs:write unrestricted (main thread)'
+    ].join('\n'));
+  });
+});
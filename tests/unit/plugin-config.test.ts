@@ -0,0 +1,92 @@
+import {
+  PluginConfigError,
+  parsePluginConfigOverride,
+  pluginConfigEnvVar,
+  resolvePluginConfig
+} from '../../src/plugins/plugin-config';
+import { PluginManifest } from '../../src/types';
+
+describe('resolvePluginConfig', () => {
+  const manifest: PluginManifest = {
+    name: 'rate-limiter',
+    version: '1.0.0',
+    dependencies: [],
+    priority: 10,
+    timeout: 1000,
+    capabilities: [],
+    config: {
+      limits: { type: 'object', default: { perMinute: 10 } },
+      strategy: { type: 'string', default: 'sliding', enum: ['sliding', 'fixed'] },
+      burstSize: { type: 'number', default: 5 },
+      persist: { type: 'boolean', default: true },
+      bridgeSocket: { type: 'string' }
+    }
+  };
+
+  it('should start from the manifest defaults', () => {
+    const config = resolvePluginConfig(manifest, { env: {} });
+
+    expect(config).toEqual({
+      limits: { perMinute: 10 },
+      strategy: 'sliding',
+      burstSize: 5,
+      persist: true
+    });
+    expect(config.limits).not.toBe(manifest.config!.limits.default);
+  });
+
+  it('should apply settings, then environment, then overrides', () => {
+    const config = resolvePluginConfig(manifest, {
+      settings: {
+        'rate-limiter': { burstSize: 1, strategy: 'fixed', persist: false },
+        'other-plugin': { burstSize: 99 }
+      },
+      env: {
+        CLAUDE_WRAPPER_PLUGIN_RATE_LIMITER_BURST_SIZE: '2',
+        CLAUDE_WRAPPER_PLUGIN_RATE_LIMITER_LIMITS: '{"perMinute":3}'
+      },
+      overrides: ['rate-limiter.burstSize=3', 'other-plugin.burstSize=4']
+    });
+
+    expect(config).toEqual({
+      limits: { perMinute: 3 },
+      strategy: 'fixed',
+      burstSize: 3,
+      persist: false
+    });
+  });
+
+  it.each([
+    [{ settings: { 'rate-limiter': { strategy: 'burst' } } }, /'strategy' must be one of "sliding", "fixed", got "burst"/],
+    [{ settings: { 'rate-limiter': { burstSize: '5' } } }, /'burstSize' must be a number, got "5" \(from plugins.rate-limiter settings\)/],
+    [{ settings: { 'rate-limiter': { burst: 5 } } }, /unknown setting 'burst'/],
+    [{ env: { CLAUDE_WRAPPER_PLUGIN_RATE_LIMITER_PERSIST: 'yes' } }, /'persist' must be a boolean.*CLAUDE_WRAPPER_PLUGIN_RATE_LIMITER_PERSIST/],
+    [{ overrides: ['rate-limiter.burstSize=lots'] }, /'burstSize' must be a number, got "lots" \(from --plugin-config\)/],
+    [{ overrides: ['rate-limiter.limits={'] }, /'limits' must be JSON/]
+  ])('should reject invalid values (%#)', (sources, message) => {
+    expect(() => resolvePluginConfig(manifest, { env: {}, ...sources })).toThrow(PluginConfigError);
+    expect(() => resolvePluginConfig(manifest, { env: {}, ...sources })).toThrow(message);
+  });
+
+  it('should require settings marked required', () => {
+    const strict: PluginManifest = {
+      ...manifest,
+      config: { webhook: { type: 'string', required: true } }
+    };
+
+    expect(() => resolvePluginConfig(strict, { env: {} }))
+      .toThrow("Invalid config for plugin rate-limiter: missing required setting 'webhook'");
+    expect(resolvePluginConfig(strict, { env: {}, overrides: ['rate-limiter.webhook=https://example.com/a=b'] }))
+      .toEqual({ webhook: 'https://example.com/a=b' });
+  });
+
+  it('should name environment variables after the plugin and key', () => {
+    expect(pluginConfigEnvVar('rate-limiter', 'burstSize')).toBe('CLAUDE_WRAPPER_PLUGIN_RATE_LIMITER_BURST_SIZE');
+    expect(pluginConfigEnvVar('cache', 'ttl')).toBe('CLAUDE_WRAPPER_PLUGIN_CACHE_TTL');
+  });
+
+  it('should reject malformed overrides', () => {
+    expect(parsePluginConfigOverride('cache.ttl=0')).toEqual({ plugin: 'cache', key: 'ttl', value: '0' });
+    expect(() => parsePluginConfigOverride('cache=0')).toThrow('expected <plugin>.<key>=<value>');
+  });
+});
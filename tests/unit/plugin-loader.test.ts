@@ -1,8 +1,11 @@
 import { EventEmitter } from 'events';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { PluginLoader } from '../../src/plugins/plugin-loader';
-import { Plugin, PluginManifest, PluginContext } from '../../src/types';
+import { PluginLoader, QueryRejectedError } from '../../src/plugins/plugin-loader';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
+import { Tracer } from '../../src/core/tracer';
+import { PermissionValidator } from '../../src/plugins/infrastructure/core/PermissionValidator';
+import { Plugin, PluginManifest, PluginContext, QueryRequest } from '../../src/types';
 import { DataStore } from '../../src/types';
 import { Logger } from 'pino';
 
@@ -16,6 +19,16 @@ describe('PluginLoader', () => {
   let mockLogger: jest.Mocked<Logger>;
   let mockContext: PluginContext;
 
+  // What a plugin without a config schema or permissions receives; its
+  // dataStore and eventBus are scoped to its capabilities
+  const pluginContext = (config = {}) => ({
+    ...mockContext,
+    config,
+    dataStore: expect.any(Object),
+    eventBus: expect.any(Object),
+    permissions: expect.any(PermissionValidator)
+  });
+
   beforeEach(() => {
     mockEventBus = new EventEmitter();
     mockDataStore = {
@@ -131,6 +144,83 @@ describe('PluginLoader', () => {
         'Failed to load plugin'
       );
     });
+
+    it('should give each plugin its own config and skip plugins with invalid config', async () => {
+      const manifests: Record<string, PluginManifest> = {
+        cache: {
+          name: 'cache',
+          version: '1.0.0',
+          dependencies: [],
+          priority: 1,
+          timeout: 5000,
+          capabilities: [],
+          config: { ttl: { type: 'number', default: 1000 } }
+        },
+        limiter: {
+          name: 'limiter',
+          version: '1.0.0',
+          dependencies: [],
+          priority: 2,
+          timeout: 5000,
+          capabilities: [],
+          config: { strategy: { type: 'string', default: 'sliding', enum: ['sliding', 'fixed'] } }
+        }
+      };
+      const initialize = jest.fn();
+
+      (fs.readdir as jest.Mock).mockResolvedValue(['cache', 'limiter']);
+      (fs.stat as jest.Mock).mockResolvedValue({ isDirectory: () => true });
+      (fs.readFile as jest.Mock).mockImplementation(async (filePath: string) =>
+        JSON.stringify(manifests[path.basename(path.dirname(filePath))])
+      );
+      for (const name of Object.keys(manifests)) {
+        jest.doMock(path.join('/configured', name), () => ({
+          initialize, onEvent: async () => {}, shutdown: async () => {}
+        }), { virtual: true });
+      }
+
+      const loader = new PluginLoader(mockContext, undefined, {
+        settings: { cache: { ttl: 50 }, limiter: { strategy: 'burst' } },
+        env: {}
+      });
+      const plugins = await loader.loadPlugins('/configured');
+      await loader.initializePlugin(plugins[0]);
+
+      expect(plugins.map(p => p.name)).toEqual(['cache', 'limiter']);
+      expect(initialize).toHaveBeenCalledWith(pluginContext({ ttl: 50 }));
+      await expect(loader.initializePlugin(plugins[1])).rejects.toThrow(
+        `Invalid config for plugin limiter: 'strategy' must be one of "sliding", "fixed", got "burst" (from plugins.limiter settings)`
+      );
+      expect(initialize).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not check the settings of plugins that are not selected', async () => {
+      const manifest: PluginManifest = {
+        name: 'limiter',
+        version: '1.0.0',
+        dependencies: [],
+        priority: 1,
+        timeout: 5000,
+        capabilities: [],
+        config: { strategy: { type: 'string', default: 'sliding', enum: ['sliding', 'fixed'] } }
+      };
+
+      (fs.readdir as jest.Mock).mockResolvedValue(['limiter']);
+      (fs.stat as jest.Mock).mockResolvedValue({ isDirectory: () => true });
+      (fs.readFile as jest.Mock).mockResolvedValue(JSON.stringify(manifest));
+      jest.doMock(path.join('/unselected', 'limiter'), () => ({
+        initialize: jest.fn(), onEvent: async () => {}, shutdown: async () => {}
+      }), { virtual: true });
+
+      const loader = new PluginLoader(mockContext, undefined, {
+        settings: { limiter: { strategy: 'burst' } },
+        env: {}
+      });
+      const startup = await loader.startPlugins('/unselected', { disabledPlugins: ['limiter'] });
+
+      expect(startup.skipped).toEqual([{ name: 'limiter', reason: 'in disabledPlugins' }]);
+      expect(mockLogger.error).not.toHaveBeenCalled();
+    });
   });
 
   describe('dependency resolution', () => {
@@ -187,6 +277,18 @@ describe('PluginLoader', () => {
         .rejects.toThrow('Circular dependency detected');
     });
 
+    it('should report dependencies whose version is out of range', async () => {
+      const plugins = [
+        { name: 'A', manifest: { name: 'A', version: '1.0.0', dependencies: { B: '^2.0.0', C: '*' } } },
+        { name: 'B', manifest: { name: 'B', version: '1.9.0', dependencies: {} } },
+        { name: 'C', manifest: { name: 'C', version: '0.1.0', dependencies: [] } }
+      ] as unknown as Plugin[];
+
+      await expect(pluginLoader.resolveDependencies(plugins)).rejects.toThrow(
+        'Plugin compatibility check failed:\n  A: requires B ^2.0.0, but B 1.9.0 is installed'
+      );
+    });
+
     it('should handle missing dependencies', async () => {
       const plugins = [
         {
@@ -202,6 +304,136 @@ describe('PluginLoader', () => {
     });
   });
 
+  describe('startPlugins', () => {
+    let started: string[];
+
+    // Install plugins under /startup, each given by its dependencies or
+    // manifest fields; `failing` plugins throw from initialize
+    const install = (plugins: Record<string, string[] | Partial<PluginManifest>>, failing: string[] = []) => {
+      (fs.readdir as jest.Mock).mockResolvedValue(Object.keys(plugins));
+      (fs.stat as jest.Mock).mockResolvedValue({ isDirectory: () => true });
+      (fs.readFile as jest.Mock).mockImplementation(async (filePath: string) => {
+        const name = path.basename(path.dirname(filePath));
+        const fields = plugins[name];
+        return JSON.stringify({
+          name,
+          version: '1.0.0',
+          dependencies: [],
+          priority: 1,
+          timeout: 1000,
+          capabilities: [],
+          ...(Array.isArray(fields) ? { dependencies: fields } : fields)
+        });
+      });
+
+      for (const name of Object.keys(plugins)) {
+        jest.doMock(path.join('/startup', name), () => ({
+          initialize: async () => {
+            if (failing.includes(name)) throw new Error('boom');
+            started.push(name);
+          },
+          onEvent: async () => {},
+          shutdown: async () => {}
+        }), { virtual: true });
+      }
+    };
+
+    beforeEach(() => {
+      started = [];
+    });
+
+    it('should initialize plugins after their dependencies and register them', async () => {
+      install({ reporter: ['store', 'cache'], cache: ['store'], store: [] });
+
+      const startup = await pluginLoader.startPlugins('/startup');
+      await pluginLoader.executePlugins({
+        id: 'e1', type: 'query', timestamp: Date.now(), data: {},
+        metadata: { correlationId: 'c', sessionId: 's', timestamp: Date.now(), source: 'test' }
+      });
+
+      expect(started).toEqual(['store', 'cache', 'reporter']);
+      expect(startup.started.map(p => p.name)).toEqual(['store', 'cache', 'reporter']);
+      expect(startup.skipped).toEqual([]);
+      expect((await pluginLoader.getPluginMetrics()).map(m => m.name).sort()).toEqual(['cache', 'reporter', 'store']);
+    });
+
+    it('should apply enabledPlugins and disabledPlugins', async () => {
+      install({ a: [], b: [], c: [] });
+
+      const startup = await pluginLoader.startPlugins('/startup', {
+        enabledPlugins: ['a', 'b'],
+        disabledPlugins: ['b']
+      });
+
+      expect(started).toEqual(['a']);
+      expect(startup.skipped).toEqual([
+        { name: 'b', reason: 'in disabledPlugins' },
+        { name: 'c', reason: 'not in enabledPlugins' }
+      ]);
+    });
+
+    it('should skip dependents of plugins that did not start, with the reason', async () => {
+      install({
+        base: [],
+        broken: [],
+        'needs-broken': ['broken'],
+        'needs-needs-broken': ['needs-broken'],
+        orphan: ['missing'],
+        loop1: ['loop2'],
+        loop2: ['loop1'],
+        'needs-disabled': ['disabled'],
+        disabled: []
+      }, ['broken']);
+
+      const startup = await pluginLoader.startPlugins('/startup', { disabledPlugins: ['disabled'] });
+      const reasons = Object.fromEntries(startup.skipped.map(s => [s.name, s.reason]));
+
+      expect(started).toEqual(['base']);
+      expect(reasons).toEqual({
+        broken: 'Plugin initialization failed: broken',
+        'needs-broken': 'dependency broken was skipped (Plugin initialization failed: broken)',
+        'needs-needs-broken': 'dependency needs-broken was skipped ' +
+          '(dependency broken was skipped (Plugin initialization failed: broken))',
+        orphan: 'requires missing, which is not installed',
+        loop1: 'circular dependency: loop1 -> loop2 -> loop1',
+        loop2: 'circular dependency: loop1 -> loop2 -> loop1',
+        'needs-disabled': 'dependency disabled was skipped (in disabledPlugins)',
+        disabled: 'in disabledPlugins'
+      });
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        { plugin: 'orphan', reason: 'requires missing, which is not installed' },
+        'Plugin skipped'
+      );
+    });
+
+    it('should check dependency versions, optional dependencies, conflicts and engines', async () => {
+      install({
+        store: { version: '1.4.0' },
+        cache: { version: '2.1.0', dependencies: { store: '^1.2.0' }, optionalDependencies: { metrics: '^1.0.0' } },
+        reporter: { dependencies: { store: '^2.0.0' } },
+        charts: { optionalDependencies: { store: '~1.3.0' } },
+        legacy: { conflicts: { cache: '>=2.0.0' } },
+        future: { engines: { claudeware: '>=99.0.0' } },
+        current: { engines: { claudeware: '>=0.1.0-alpha' } }
+      });
+
+      const startup = await pluginLoader.startPlugins('/startup');
+      const reasons = Object.fromEntries(startup.skipped.map(s => [s.name, s.reason]));
+
+      expect(started).toEqual(['store', 'cache', 'current']);
+      expect(reasons).toEqual({
+        reporter: 'requires store ^2.0.0, but store 1.4.0 is installed',
+        charts: 'works with store ~1.3.0, but store 1.4.0 is installed',
+        legacy: 'conflicts with cache >=2.0.0, and cache 2.1.0 is enabled',
+        future: expect.stringMatching(/^requires claudeware >=99.0.0, but this is \d+\.\d+\.\d+/)
+      });
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        { problems: 4 },
+        expect.stringContaining('Plugin compatibility check failed:\n  reporter: requires store ^2.0.0')
+      );
+    });
+  });
+
   describe('plugin initialization', () => {
     let mockPlugin: jest.Mocked<Plugin>;
 
@@ -226,7 +458,7 @@ describe('PluginLoader', () => {
     it('should initialize plugin with context', async () => {
       await pluginLoader.initializePlugin(mockPlugin);
 
-      expect(mockPlugin.initialize).toHaveBeenCalledWith(mockContext);
+      expect(mockPlugin.initialize).toHaveBeenCalledWith(pluginContext());
     });
 
     it('should handle initialization errors', async () => {
@@ -302,7 +534,7 @@ describe('PluginLoader', () => {
     it('should execute plugin onEvent handler', async () => {
       await pluginLoader.executePlugins(testEvent);
 
-      expect(mockPlugin.onEvent).toHaveBeenCalledWith(testEvent, mockContext);
+      expect(mockPlugin.onEvent).toHaveBeenCalledWith(testEvent, pluginContext());
     });
 
     it('should handle plugin execution errors without affecting others', async () => {
@@ -373,6 +605,29 @@ describe('PluginLoader', () => {
       
       expect(executionOrder).toEqual(['plugin2', 'plugin1']);
     });
+
+    it('should record a span per plugin in the trace of the event', async () => {
+      const exporter = new InMemorySpanExporter();
+      const tracer = new Tracer(exporter);
+      const query = tracer.startSpan('claudeware.query');
+      tracer.bind('abc', query);
+
+      const tracedLoader = new PluginLoader(mockContext, tracer);
+      const failing = { ...mockPlugin, name: 'failing', onEvent: jest.fn().mockRejectedValue(new Error('Plugin error')) };
+      tracedLoader.registerPlugin(mockPlugin);
+      tracedLoader.registerPlugin(failing);
+
+      await tracedLoader.executePlugins(testEvent);
+      await tracer.flush();
+
+      const spans = exporter.getFinishedSpans();
+      expect(spans.map(span => span.name)).toEqual(['plugin.onEvent', 'plugin.onEvent']);
+      expect(spans[0].spanContext().traceId).toBe(query.spanContext().traceId);
+      expect(spans[0].parentSpanId).toBe(query.spanContext().spanId);
+      expect(spans[0].status).toEqual({ code: 1 });
+      expect(spans[1].status).toEqual({ code: 2, message: 'Plugin error' });
+      expect(spans[1].attributes).toMatchObject({ 'plugin.name': 'failing', 'plugin.timeout': false });
+    });
   });
 
   describe('plugin lifecycle', () => {
@@ -416,6 +671,199 @@ describe('PluginLoader', () => {
     });
   });
 
+  describe('interceptors', () => {
+    const request: QueryRequest = {
+      queryId: 'q1',
+      sessionId: 'session1',
+      prompt: 'hello',
+      options: { model: 'opus' }
+    };
+
+    const createInterceptor = (name: string, priority: number, hooks: Partial<Plugin>): Plugin => ({
+      name,
+      version: '1.0.0',
+      manifest: {
+        name,
+        version: '1.0.0',
+        dependencies: [],
+        priority,
+        timeout: 5000,
+        capabilities: ['query:modify']
+      },
+      initialize: jest.fn(),
+      onEvent: jest.fn(),
+      shutdown: jest.fn(),
+      ...hooks
+    });
+
+    it('should pass each modification to the next interceptor in priority order', async () => {
+      const second = jest.fn(async (req: QueryRequest) => ({
+        action: 'continue' as const,
+        options: { ...req.options, model: 'sonnet' }
+      }));
+      pluginLoader.registerPlugin(createInterceptor('second', 2, { beforeQuery: second }));
+      pluginLoader.registerPlugin(createInterceptor('first', 1, {
+        beforeQuery: async req => ({ action: 'continue', prompt: `[system] ${req.prompt}` })
+      }));
+
+      const interception = await pluginLoader.runBeforeQuery(request);
+
+      expect(second).toHaveBeenCalledWith(expect.objectContaining({ prompt: '[system] hello' }), pluginContext());
+      expect(interception.request).toEqual({ ...request, prompt: '[system] hello', options: { model: 'sonnet' } });
+      expect(interception.chain).toEqual(['first', 'second']);
+      expect(request.options).toEqual({ model: 'opus' });
+    });
+
+    it('should stop the chain when an interceptor responds', async () => {
+      const later = jest.fn();
+      pluginLoader.registerPlugin(createInterceptor('cache', 1, {
+        beforeQuery: async () => ({ action: 'respond', response: { content: [{ type: 'text', text: 'cached' }] } })
+      }));
+      pluginLoader.registerPlugin(createInterceptor('later', 2, { beforeQuery: later }));
+
+      const interception = await pluginLoader.runBeforeQuery(request);
+
+      expect(interception.response!.content![0].text).toBe('cached');
+      expect(interception.respondedBy).toBe('cache');
+      expect(interception.chain).toEqual([]);
+      expect(later).not.toHaveBeenCalled();
+    });
+
+    it('should throw QueryRejectedError when an interceptor rejects', async () => {
+      pluginLoader.registerPlugin(createInterceptor('rate-limiter', 1, {
+        beforeQuery: async () => ({ action: 'reject', reason: 'Rate limit exceeded' })
+      }));
+
+      const rejection = pluginLoader.runBeforeQuery(request);
+
+      await expect(rejection).rejects.toBeInstanceOf(QueryRejectedError);
+      await expect(rejection).rejects.toMatchObject({
+        pluginName: 'rate-limiter',
+        reason: 'Rate limit exceeded',
+        eventId: 'q1'
+      });
+    });
+
+    it('should skip an interceptor that throws', async () => {
+      pluginLoader.registerPlugin(createInterceptor('broken', 1, {
+        beforeQuery: async () => { throw new Error('boom'); }
+      }));
+
+      const interception = await pluginLoader.runBeforeQuery(request);
+
+      expect(interception.request.prompt).toBe('hello');
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ plugin: 'broken', hook: 'beforeQuery', error: 'boom' }),
+        'Plugin interceptor error'
+      );
+      expect((await pluginLoader.getPluginMetrics())[0].failures).toBe(1);
+    });
+
+    it('should run afterResponse in reverse order', async () => {
+      const order: string[] = [];
+      pluginLoader.registerPlugin(createInterceptor('outer', 1, {
+        afterResponse: async (_req, response) => {
+          order.push('outer');
+          return { ...response, stop_reason: `${response.stop_reason}+outer` };
+        }
+      }));
+      pluginLoader.registerPlugin(createInterceptor('inner', 2, {
+        afterResponse: async (_req, response) => {
+          order.push('inner');
+          return { ...response, stop_reason: `${response.stop_reason}+inner` };
+        }
+      }));
+
+      const interception = await pluginLoader.runBeforeQuery(request);
+      const response = await pluginLoader.runAfterResponse(interception, { stop_reason: 'end_turn' });
+
+      expect(order).toEqual(['inner', 'outer']);
+      expect(response.stop_reason).toBe('end_turn+inner+outer');
+    });
+
+    it('should ignore changes from interceptors without query:modify', async () => {
+      const observer = createInterceptor('observer', 1, {
+        beforeQuery: async () => ({ action: 'continue' as const, prompt: 'changed' }),
+        afterResponse: async (_req, response) => ({ ...response, stop_reason: 'changed' })
+      });
+      observer.manifest.capabilities = [];
+      pluginLoader.registerPlugin(observer);
+
+      const interception = await pluginLoader.runBeforeQuery(request);
+      const response = await pluginLoader.runAfterResponse(
+        { ...interception, chain: ['observer'] },
+        { stop_reason: 'end_turn' }
+      );
+
+      expect(interception.request.prompt).toBe('hello');
+      expect(response.stop_reason).toBe('end_turn');
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.objectContaining({
+          plugin: 'observer',
+          hook: 'beforeQuery',
+          error: 'Plugin observer needs the query:modify capability to change or answer queries'
+        }),
+        'Plugin interceptor error'
+      );
+
+      const gate = createInterceptor('gate', 2, {
+        beforeQuery: async () => ({ action: 'reject' as const, reason: 'closed' })
+      });
+      gate.manifest.capabilities = [];
+      pluginLoader.registerPlugin(gate);
+
+      await expect(pluginLoader.runBeforeQuery(request)).rejects.toThrow(QueryRejectedError);
+    });
+
+    it('should hand interceptors copies and ignore in-place changes without query:modify', async () => {
+      const abortController = new AbortController();
+      const observer = createInterceptor('observer', 1, {
+        beforeQuery: async req => {
+          req.prompt = 'changed';
+          req.options.model = 'sonnet';
+        },
+        afterResponse: async (_req, response) => {
+          response.stop_reason = 'changed';
+        }
+      });
+      observer.manifest.capabilities = [];
+      pluginLoader.registerPlugin(observer);
+
+      const original = { ...request, options: { model: 'opus', abortController } };
+      const interception = await pluginLoader.runBeforeQuery(original);
+      const live = { stop_reason: 'end_turn' };
+      const response = await pluginLoader.runAfterResponse({ ...interception, chain: ['observer'] }, live);
+
+      expect(original.prompt).toBe('hello');
+      expect(interception.request).toEqual(original);
+      expect(live.stop_reason).toBe('end_turn');
+      expect(response.stop_reason).toBe('end_turn');
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ plugin: 'observer', hook: 'afterResponse' }),
+        'Plugin interceptor error'
+      );
+    });
+
+    it('should keep in-place changes from interceptors with query:modify', async () => {
+      const abortController = new AbortController();
+      pluginLoader.registerPlugin(createInterceptor('editor', 1, {
+        beforeQuery: async req => {
+          req.prompt = 'edited';
+        },
+        afterResponse: async (_req, response) => {
+          response.stop_reason = 'edited';
+        }
+      }));
+
+      const interception = await pluginLoader.runBeforeQuery({ ...request, options: { abortController } });
+      const response = await pluginLoader.runAfterResponse(interception, { stop_reason: 'end_turn' });
+
+      expect(interception.request.prompt).toBe('edited');
+      expect(interception.request.options.abortController).toBe(abortController);
+      expect(response.stop_reason).toBe('edited');
+    });
+  });
+
   describe('circuit breaker', () => {
     let mockPlugin: jest.Mocked<Plugin>;
 
@@ -0,0 +1,153 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PluginLoader } from '../../src/plugins/plugin-loader';
+import { PluginContext, QueryEvent } from '../../src/types';
+
+const pluginSource = (version: string, body: { initialize?: string } = {}) => `
+module.exports = class {
+  async initialize(context) {
+    ${body.initialize ?? ''}
+    this.context = context;
+    this.record('init ${version}');
+  }
+
+  async onEvent(event, context) {
+    context.sharedState.set('handledBy', '${version}');
+  }
+
+  async shutdown() {
+    this.record('shutdown ${version}');
+  }
+
+  record(entry) {
+    const history = this.context.sharedState.get('history') || [];
+    this.context.sharedState.set('history', [...history, entry]);
+  }
+};
+`;
+
+describe('PluginLoader hot reload', () => {
+  let tempDir: string;
+  let pluginDir: string;
+  let context: PluginContext;
+  let loader: PluginLoader;
+  let logger: any;
+
+  const event: QueryEvent = {
+    id: 'e1',
+    type: 'query',
+    timestamp: Date.now(),
+    data: {},
+    metadata: { correlationId: 'c', sessionId: 's', timestamp: Date.now(), source: 'test' }
+  };
+
+  // Jest keeps its own module registry and ignores require.cache deletes,
+  // so tests reset it where the loader would clear the cache
+  const writePlugin = async (
+    version: string,
+    source = pluginSource(version),
+    manifest: Record<string, unknown> = {}
+  ): Promise<void> => {
+    await fs.writeFile(path.join(pluginDir, 'index.js'), source);
+    await fs.writeFile(path.join(pluginDir, 'manifest.json'), JSON.stringify({
+      name: 'reloadable',
+      version,
+      dependencies: [],
+      priority: 1,
+      timeout: 1000,
+      capabilities: [],
+      ...manifest
+    }));
+    jest.resetModules();
+  };
+
+  const handledBy = async (): Promise<unknown> => {
+    await loader.executePlugins(event);
+    return context.sharedState.get('handledBy');
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudeware-reload-'));
+    pluginDir = path.join(tempDir, 'reloadable');
+    await fs.mkdir(pluginDir);
+
+    logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+    logger.child = jest.fn().mockReturnValue(logger);
+    context = {
+      eventBus: { emit: jest.fn(), on: jest.fn() } as any,
+      dataStore: {} as any,
+      logger,
+      config: {},
+      sharedState: new Map()
+    };
+    loader = new PluginLoader(context);
+
+    await writePlugin('1.0.0');
+    await loader.startPlugins(tempDir);
+  });
+
+  afterEach(async () => {
+    await loader.shutdown();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should shut down the old version and swap in the new one', async () => {
+    await writePlugin('1.1.0');
+
+    await expect(loader.reloadPlugin(pluginDir)).resolves.toBe(true);
+
+    expect(context.sharedState.get('history')).toEqual(['init 1.0.0', 'shutdown 1.0.0', 'init 1.1.0']);
+    expect(await handledBy()).toBe('1.1.0');
+    expect(await loader.getPluginMetrics()).toHaveLength(1);
+    expect(logger.info).toHaveBeenCalledWith(
+      { plugin: 'reloadable', version: '1.1.0', previousVersion: '1.0.0' },
+      'Plugin reloaded'
+    );
+  });
+
+  it('should keep the running version when the new one fails to load', async () => {
+    await writePlugin('1.1.0', 'module.exports = class {');
+
+    await expect(loader.reloadPlugin(pluginDir)).resolves.toBe(false);
+
+    expect(context.sharedState.get('history')).toEqual(['init 1.0.0']);
+    expect(await handledBy()).toBe('1.0.0');
+    expect(logger.error).toHaveBeenCalledWith(
+      { plugin: 'reloadable', error: 'plugin could not be loaded' },
+      'Plugin reload failed; keeping the running version'
+    );
+  });
+
+  it('should keep the running version when the new one has invalid settings', async () => {
+    await writePlugin('1.1.0', pluginSource('1.1.0'), { config: { limit: { type: 'number', required: true } } });
+
+    await expect(loader.reloadPlugin(pluginDir)).resolves.toBe(false);
+
+    expect(context.sharedState.get('history')).toEqual(['init 1.0.0']);
+    expect(await handledBy()).toBe('1.0.0');
+  });
+
+  it('should restart the old version when the new one fails to initialize', async () => {
+    await writePlugin('2.0.0', pluginSource('2.0.0', { initialize: "throw new Error('bad init');" }));
+
+    await expect(loader.reloadPlugin(pluginDir)).resolves.toBe(false);
+
+    expect(context.sharedState.get('history')).toEqual(['init 1.0.0', 'shutdown 1.0.0', 'init 1.0.0']);
+    expect(await handledBy()).toBe('1.0.0');
+  });
+
+  it('should reload a plugin when its files change', async () => {
+    const reloaded = new Promise<void>(resolve => {
+      logger.info.mockImplementation((_: unknown, message: string) => {
+        if (message === 'Plugin reloaded') resolve();
+      });
+    });
+
+    loader.watch(tempDir);
+    await writePlugin('1.2.0');
+    await reloaded;
+
+    expect(await handledBy()).toBe('1.2.0');
+  });
+});
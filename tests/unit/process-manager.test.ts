@@ -1,9 +1,13 @@
 import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
 import { ProcessManager } from '../../src/core/process-manager';
 
 // Mock child_process module
 jest.mock('child_process');
 
+// node-pty is optional; provide a virtual mock for PTY mode
+jest.mock('node-pty', () => ({ spawn: jest.fn() }), { virtual: true });
+
 describe('ProcessManager', () => {
   let processManager: ProcessManager;
   let mockChildProcess: any;
@@ -269,4 +273,190 @@ describe('ProcessManager', () => {
       jest.useRealTimers();
     });
   });
-});
\ No newline at end of file
+
+  describe('watchdog', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      processManager.spawn('claude-code', []);
+    });
+
+    afterEach(() => {
+      processManager.cleanup();
+      jest.useRealTimers();
+    });
+
+    it('should escalate SIGINT, SIGTERM and SIGKILL after the wall-clock limit', () => {
+      const onTimeout = jest.fn();
+      processManager.startWatchdog({ timeout: 1000, escalationDelay: 100, onTimeout });
+
+      jest.advanceTimersByTime(999);
+      expect(mockChildProcess.kill).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(onTimeout).toHaveBeenCalledWith('wall-clock', 1000);
+      expect(mockChildProcess.kill).toHaveBeenLastCalledWith('SIGINT');
+
+      // A signalled child stays tracked until it actually exits
+      mockChildProcess.killed = true;
+
+      jest.advanceTimersByTime(100);
+      expect(mockChildProcess.kill).toHaveBeenLastCalledWith('SIGTERM');
+
+      jest.advanceTimersByTime(100);
+      expect(mockChildProcess.kill).toHaveBeenLastCalledWith('SIGKILL');
+    });
+
+    it('should measure the idle limit from the last activity', () => {
+      const onTimeout = jest.fn();
+      let lastActivity: number | undefined;
+      processManager.startWatchdog({
+        idleTimeout: 1000,
+        getLastActivity: () => lastActivity,
+        onTimeout
+      });
+
+      jest.advanceTimersByTime(600);
+      lastActivity = Date.now();
+
+      jest.advanceTimersByTime(900);
+      expect(onTimeout).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(100);
+      expect(onTimeout).toHaveBeenCalledWith('idle', 1000);
+      expect(mockChildProcess.kill).toHaveBeenCalledWith('SIGINT');
+    });
+
+    it('should stop escalating once the child exits', () => {
+      processManager.startWatchdog({ timeout: 1000, escalationDelay: 100 });
+
+      jest.advanceTimersByTime(1000);
+      mockChildProcess.emit('exit', null, 'SIGINT');
+      jest.advanceTimersByTime(1000);
+
+      expect(mockChildProcess.kill).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report only the first expired limit', () => {
+      const onTimeout = jest.fn();
+      processManager.startWatchdog({ timeout: 1000, idleTimeout: 1000, onTimeout });
+
+      jest.advanceTimersByTime(1000);
+
+      expect(onTimeout).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('pty mode', () => {
+    let mockPty: any;
+    let ptyHandlers: { data?: (data: string) => void; exit?: (event: any) => void };
+    let terminalInput: PassThrough & { isTTY?: boolean; setRawMode?: jest.Mock };
+    let terminalOutput: PassThrough & { columns?: number; rows?: number };
+
+    beforeEach(() => {
+      ptyHandlers = {};
+      mockPty = {
+        pid: 4242,
+        onData: jest.fn((listener) => { ptyHandlers.data = listener; }),
+        onExit: jest.fn((listener) => { ptyHandlers.exit = listener; }),
+        write: jest.fn(),
+        resize: jest.fn(),
+        kill: jest.fn()
+      };
+      require('node-pty').spawn.mockReturnValue(mockPty);
+
+      terminalInput = Object.assign(new PassThrough(), { isTTY: true, setRawMode: jest.fn() });
+      terminalOutput = Object.assign(new PassThrough(), { columns: 120, rows: 40 });
+    });
+
+    afterEach(() => {
+      processManager.cleanup();
+    });
+
+    it('should spawn in a pty sized to the parent terminal', () => {
+      const handle = processManager.spawnPty('claude', ['--verbose'], { FOO: 'bar' }, {
+        terminal: { input: terminalInput, output: terminalOutput }
+      });
+
+      expect(require('node-pty').spawn).toHaveBeenCalledWith('claude', ['--verbose'], expect.objectContaining({
+        cols: 120,
+        rows: 40,
+        env: expect.objectContaining({ FOO: 'bar' })
+      }));
+      expect(handle.pid).toBe(4242);
+      expect(processManager.getPid()).toBe(4242);
+      expect(processManager.isRunning()).toBe(true);
+    });
+
+    it('should put the parent terminal into raw mode and restore it on exit', () => {
+      processManager.spawnPty('claude', [], undefined, {
+        terminal: { input: terminalInput, output: terminalOutput }
+      });
+
+      expect(terminalInput.setRawMode).toHaveBeenCalledWith(true);
+
+      ptyHandlers.exit!({ exitCode: 0 });
+
+      expect(terminalInput.setRawMode).toHaveBeenLastCalledWith(false);
+    });
+
+    it('should forward resize events and SIGWINCH to the pty', () => {
+      processManager.spawnPty('claude', [], undefined, {
+        terminal: { input: terminalInput, output: terminalOutput }
+      });
+
+      terminalOutput.columns = 100;
+      terminalOutput.rows = 30;
+      terminalOutput.emit('resize');
+      expect(mockPty.resize).toHaveBeenCalledWith(100, 30);
+
+      terminalOutput.columns = 90;
+      process.emit('SIGWINCH' as any);
+      expect(mockPty.resize).toHaveBeenCalledWith(90, 30);
+    });
+
+    it('should relay output and input through the handle', (done) => {
+      const handle = processManager.spawnPty('claude', []);
+
+      handle.stdout.once('data', (chunk) => {
+        expect(chunk.toString()).toBe('\x1b[1mhello\x1b[0m');
+        done();
+      });
+
+      handle.stdin.write('hi\r');
+      expect(mockPty.write).toHaveBeenCalledWith('hi\r');
+
+      ptyHandlers.data!('\x1b[1mhello\x1b[0m');
+    });
+
+    it('should report exit code and signal name to exit callbacks', () => {
+      const onExit = jest.fn();
+      processManager.onExit(onExit);
+      processManager.spawnPty('claude', []);
+
+      ptyHandlers.exit!({ exitCode: 0, signal: 15 });
+
+      expect(onExit).toHaveBeenCalledWith(0, 'SIGTERM');
+      expect(processManager.isRunning()).toBe(false);
+    });
+
+    it('should forward parent signals to the pty', () => {
+      processManager.spawnPty('claude', []);
+      processManager.setupSignalForwarding();
+
+      process.emit('SIGHUP' as any);
+
+      expect(mockPty.kill).toHaveBeenCalledWith('SIGHUP');
+    });
+
+    it('should kill the pty and resolve graceful shutdown on exit', async () => {
+      processManager.spawnPty('claude', []);
+
+      const shutdownPromise = processManager.gracefulShutdown(1000);
+      expect(mockPty.kill).toHaveBeenCalledWith('SIGTERM');
+
+      ptyHandlers.exit!({ exitCode: 0 });
+
+      await expect(shutdownPromise).resolves.toEqual({ code: 0, signal: null });
+    });
+  });
+});
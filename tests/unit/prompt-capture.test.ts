@@ -0,0 +1,148 @@
+import { PassThrough } from 'stream';
+import { PromptCapture } from '../../src/core/prompt-capture';
+import { StreamEventNormalizer } from '../../src/core/event-normalizer';
+import { QueryEvent } from '../../src/types';
+
+describe('PromptCapture', () => {
+  let normalizer: StreamEventNormalizer;
+  let events: QueryEvent[];
+  let capture: PromptCapture;
+
+  beforeEach(() => {
+    normalizer = new StreamEventNormalizer({ sessionId: 'session-1' });
+    events = [];
+    capture = new PromptCapture({ emitEvent: (event) => events.push(event) }, normalizer);
+  });
+
+  afterEach(() => {
+    capture.cleanup();
+  });
+
+  describe('parseArgs', () => {
+    it('should take the prompt from a print-mode positional argument', () => {
+      expect(PromptCapture.parseArgs(['-p', 'What is 2+2?'])).toEqual({
+        prompt: 'What is 2+2?',
+        printMode: true,
+        inputFormat: 'text'
+      });
+    });
+
+    it('should skip values of Claude options', () => {
+      const parsed = PromptCapture.parseArgs([
+        '--output-format', 'stream-json',
+        '--model', 'claude-sonnet-4',
+        '--max-turns=3',
+        'Explain recursion'
+      ]);
+
+      expect(parsed.prompt).toBe('Explain recursion');
+      expect(parsed.model).toBe('claude-sonnet-4');
+      expect(parsed.outputFormat).toBe('stream-json');
+    });
+
+    it('should detect stream-json input', () => {
+      expect(PromptCapture.parseArgs(['--input-format=stream-json']).inputFormat).toBe('stream-json');
+    });
+
+    it('should not treat subcommands as prompts', () => {
+      expect(PromptCapture.parseArgs(['mcp', 'list']).prompt).toBeUndefined();
+    });
+
+    it('should treat everything after -- as the prompt', () => {
+      expect(PromptCapture.parseArgs(['--', '--not-a-flag']).prompt).toBe('--not-a-flag');
+    });
+  });
+
+  describe('captureArgs', () => {
+    it('should emit a query event and start a query on the normalizer', () => {
+      const event = capture.captureArgs(['-p', 'What is 2+2?', '--model', 'opus']);
+
+      expect(event).not.toBeNull();
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('query');
+      expect(events[0].data.messages).toEqual([{ role: 'user', content: 'What is 2+2?' }]);
+      expect(events[0].data.model).toBe('opus');
+      expect(events[0].metadata.sessionId).toBe('session-1');
+      expect(normalizer.getCurrentQuery()?.queryId).toBe(events[0].id);
+    });
+
+    it('should correlate subsequent responses with the query', () => {
+      const query = capture.captureArgs(['-p', 'hi'])!;
+      const [response] = normalizer.normalize({
+        type: 'assistant',
+        message: { id: 'msg_1', role: 'assistant', content: [{ type: 'text', text: 'hello' }] }
+      });
+
+      expect(response.metadata.queryId).toBe(query.id);
+      expect(response.metadata.correlationId).toBe(query.metadata.correlationId);
+    });
+
+    it('should return null without a prompt', () => {
+      expect(capture.captureArgs(['--verbose'])).toBeNull();
+      expect(events).toHaveLength(0);
+    });
+  });
+
+  describe('tapInput', () => {
+    it('should emit a query per stream-json user message', () => {
+      const stdin = new PassThrough();
+      capture.tapInput(stdin, ['-p', '--input-format', 'stream-json']);
+
+      stdin.write(JSON.stringify({ type: 'user', message: { role: 'user', content: 'first' } }) + '\n');
+      stdin.write(JSON.stringify({
+        type: 'user',
+        message: { role: 'user', content: [{ type: 'text', text: 'second' }] }
+      }) + '\n');
+
+      expect(events.map(e => e.data.messages[0].content)).toEqual(['first', 'second']);
+      expect(events.every(e => e.data.origin === 'stdin')).toBe(true);
+      expect(events[0].id).not.toBe(events[1].id);
+    });
+
+    it('should emit piped text as the prompt in print mode', (done) => {
+      const stdin = new PassThrough();
+      capture.tapInput(stdin, ['-p']);
+
+      stdin.on('end', () => {
+        expect(events).toHaveLength(1);
+        expect(events[0].data.messages[0].content).toBe('summarize this file');
+        done();
+      });
+
+      stdin.write('summarize ');
+      stdin.end('this file\n');
+      stdin.resume();
+    });
+
+    it('should truncate piped text beyond the size limit', (done) => {
+      capture = new PromptCapture({ emitEvent: (event) => events.push(event) }, normalizer, 8);
+      const stdin = new PassThrough();
+      capture.tapInput(stdin, ['-p']);
+
+      stdin.on('end', () => {
+        expect(events[0].data.messages[0].content).toBe('12345678');
+        expect(events[0].data.truncated).toBe(true);
+        done();
+      });
+
+      stdin.end('1234567890');
+      stdin.resume();
+    });
+
+    it('should not tap stdin when argv carries the prompt', () => {
+      const stdin = new PassThrough();
+      capture.tapInput(stdin, ['-p', 'prompt']);
+
+      expect(stdin.listenerCount('data')).toBe(0);
+    });
+
+    it('should remove listeners on cleanup', () => {
+      const stdin = new PassThrough();
+      capture.tapInput(stdin, ['--input-format', 'stream-json']);
+
+      capture.cleanup();
+
+      expect(stdin.listenerCount('data')).toBe(0);
+    });
+  });
+});
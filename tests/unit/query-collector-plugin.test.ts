@@ -195,6 +195,31 @@ describe('QueryCollectorPlugin', () => {
       });
     });
 
+    it('should skip intermediate responses', async () => {
+      const responseEvent: QueryEvent = {
+        id: 'response-123',
+        type: 'response',
+        timestamp: Date.now(),
+        data: {
+          model: 'claude-3-opus',
+          usage: { input_tokens: 50, output_tokens: 200 },
+          content: [{ type: 'text', text: 'Let me check.' }]
+        },
+        metadata: {
+          correlationId: 'corr-123',
+          sessionId: 'session-456',
+          timestamp: Date.now(),
+          source: 'claude-code',
+          queryId: 'query-123',
+          intermediate: true
+        }
+      };
+
+      await plugin.onEvent(responseEvent, mockContext);
+
+      expect(mockDataStore.saveResponse).not.toHaveBeenCalled();
+    });
+
     it('should handle error responses', async () => {
       const errorEvent: QueryEvent = {
         id: 'response-123',
@@ -79,8 +79,7 @@ describe('SDKWrapperAdapter', () => {
 
     // Setup PluginLoader mock
     mockPluginLoader = {
-      loadPlugins: jest.fn().mockResolvedValue([]),
-      initializePlugin: jest.fn(),
+      startPlugins: jest.fn().mockResolvedValue({ started: [], skipped: [] }),
       executePlugins: jest.fn(),
       getPluginMetrics: jest.fn().mockResolvedValue([]),
       shutdown: jest.fn()
@@ -166,39 +165,35 @@ describe('SDKWrapperAdapter', () => {
       });
     });
 
-    it('should load plugins from directory', async () => {
+    it('should start plugins from directory', async () => {
       const plugins = [mockPlugin, { ...mockPlugin, name: 'plugin2' }];
-      mockPluginLoader.loadPlugins.mockResolvedValue(plugins);
+      mockPluginLoader.startPlugins.mockResolvedValue({ started: plugins, skipped: [] });
 
       adapter = new SDKWrapperAdapter({ pluginDirectory: './plugins' });
       await adapter.initialize();
 
-      expect(mockPluginLoader.loadPlugins).toHaveBeenCalledWith('./plugins');
-      expect(mockPluginLoader.initializePlugin).toHaveBeenCalledTimes(2);
+      expect(mockPluginLoader.startPlugins).toHaveBeenCalledWith('./plugins', expect.anything());
     });
 
-    it('should filter enabled plugins', async () => {
-      const plugins = [
-        mockPlugin,
-        { ...mockPlugin, name: 'plugin2', manifest: { ...mockPlugin.manifest, name: 'plugin2' } },
-        { ...mockPlugin, name: 'plugin3', manifest: { ...mockPlugin.manifest, name: 'plugin3' } }
-      ];
-      mockPluginLoader.loadPlugins.mockResolvedValue(plugins);
-
-      adapter = new SDKWrapperAdapter({ 
+    it('should pass the plugin selection to the loader', async () => {
+      adapter = new SDKWrapperAdapter({
         pluginDirectory: './plugins',
-        enabledPlugins: ['test-plugin', 'plugin3']
+        enabledPlugins: ['test-plugin', 'plugin3'],
+        disabledPlugins: ['plugin2']
       });
       await adapter.initialize();
 
-      expect(mockPluginLoader.initializePlugin).toHaveBeenCalledTimes(2);
-      expect(mockPluginLoader.initializePlugin).toHaveBeenCalledWith(plugins[0]);
-      expect(mockPluginLoader.initializePlugin).toHaveBeenCalledWith(plugins[2]);
+      expect(mockPluginLoader.startPlugins).toHaveBeenCalledWith('./plugins', expect.objectContaining({
+        enabledPlugins: ['test-plugin', 'plugin3'],
+        disabledPlugins: ['plugin2']
+      }));
     });
 
     it('should handle plugin initialization errors', async () => {
-      mockPluginLoader.loadPlugins.mockResolvedValue([mockPlugin]);
-      mockPluginLoader.initializePlugin.mockRejectedValue(new Error('Plugin init failed'));
+      mockPluginLoader.startPlugins.mockResolvedValue({
+        started: [],
+        skipped: [{ name: 'test-plugin', reason: 'Plugin initialization failed: test-plugin' }]
+      });
 
       adapter = new SDKWrapperAdapter({ pluginDirectory: './plugins' });
       
@@ -356,7 +351,7 @@ describe('SDKWrapperAdapter', () => {
   describe('Plugin Integration', () => {
     beforeEach(async () => {
       adapter = new SDKWrapperAdapter({ pluginDirectory: './plugins' });
-      mockPluginLoader.loadPlugins.mockResolvedValue([mockPlugin]);
+      mockPluginLoader.startPlugins.mockResolvedValue({ started: [mockPlugin], skipped: [] });
     });
 
     it('should execute plugins for each event', async () => {
@@ -463,7 +458,7 @@ describe('SDKWrapperAdapter', () => {
     });
 
     it('should handle plugin loading errors', async () => {
-      mockPluginLoader.loadPlugins.mockRejectedValue(new Error('Plugin load failed'));
+      mockPluginLoader.startPlugins.mockRejectedValue(new Error('Plugin load failed'));
 
       adapter = new SDKWrapperAdapter({ pluginDirectory: './plugins' });
       await expect(adapter.initialize()).rejects.toThrow('Plugin load failed');
@@ -592,7 +587,8 @@ describe('SDKWrapperAdapter', () => {
         totalEvents: 50,
         eventCounts: { query: 10, response: 40 },
         listenerCounts: { query: 5, response: 5 },
-        errorCount: 0
+        errorCount: 0,
+        queues: {}
       };
       const batchQueueMetrics = { 
         totalItems: 200,
@@ -661,11 +657,9 @@ describe('SDKWrapperAdapter', () => {
 
     it('should handle empty plugin directory', async () => {
       adapter = new SDKWrapperAdapter({ pluginDirectory: './empty' });
-      mockPluginLoader.loadPlugins.mockResolvedValue([]);
-
       await adapter.initialize();
 
-      expect(mockPluginLoader.initializePlugin).not.toHaveBeenCalled();
+      expect(mockPluginLoader.startPlugins).toHaveBeenCalledWith('./empty', expect.anything());
     });
 
     it('should handle missing response content', async () => {
@@ -741,8 +735,10 @@ describe('SDKWrapperAdapter', () => {
         onEvent: jest.fn()
       };
 
-      mockPluginLoader.loadPlugins.mockResolvedValue([badPlugin as any]);
-      mockPluginLoader.initializePlugin.mockRejectedValue(new Error('Invalid manifest'));
+      mockPluginLoader.startPlugins.mockResolvedValue({
+        started: [],
+        skipped: [{ name: badPlugin.name, reason: 'Invalid manifest' }]
+      });
 
       adapter = new SDKWrapperAdapter({ pluginDirectory: './plugins' });
       
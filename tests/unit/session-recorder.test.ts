@@ -0,0 +1,68 @@
+import { PassThrough } from 'stream';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SessionRecorder,
+  readSessionRecording,
+  decodeRecordedChunk
+} from '../../src/core/session-recorder';
+
+describe('SessionRecorder', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudeware-recording-'));
+    filePath = path.join(tempDir, 'session.ndjson');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record chunks, channel ends and the exit in order', async () => {
+    const recorder = new SessionRecorder(filePath, { sessionId: 's1', args: ['-p', 'hi'] });
+    const stdout = new PassThrough();
+    const stdin = new PassThrough();
+    recorder.tap(stdout, 'stdout');
+    recorder.tap(stdin, 'stdin');
+
+    stdin.end('question');
+    stdout.write('{"type":');
+    stdout.end('"ping"}\n');
+    await new Promise(resolve => setImmediate(resolve));
+    recorder.recordExit(0, null);
+    await recorder.close();
+
+    const recording = await readSessionRecording(filePath);
+
+    expect(recording.header).toMatchObject({ s: 'session', version: 1, sessionId: 's1', args: ['-p', 'hi'] });
+    expect(recording.chunks.map(({ s, d, end }) => ({ s, d, end }))).toEqual([
+      { s: 'stdin', d: 'question', end: undefined },
+      { s: 'stdout', d: '{"type":', end: undefined },
+      { s: 'stdout', d: '"ping"}\n', end: undefined },
+      { s: 'stdin', d: undefined, end: true },
+      { s: 'stdout', d: undefined, end: true }
+    ]);
+    expect(recording.exit).toMatchObject({ code: 0, signal: null });
+  });
+
+  it('should keep chunks that split a character byte-exact', async () => {
+    const recorder = new SessionRecorder(filePath, { sessionId: 's1', args: [] });
+    const bytes = Buffer.from('✓');
+    recorder.recordChunk('stdout', bytes.subarray(0, 1));
+    await recorder.close();
+
+    const [chunk] = (await readSessionRecording(filePath)).chunks;
+
+    expect(chunk.e).toBe('base64');
+    expect(decodeRecordedChunk(chunk)).toEqual(bytes.subarray(0, 1));
+  });
+
+  it('should reject files without a session header', async () => {
+    await fs.writeFile(filePath, '{"s":"stdout","t":0,"d":"x"}\n');
+
+    await expect(readSessionRecording(filePath)).rejects.toThrow('missing session header');
+  });
+});
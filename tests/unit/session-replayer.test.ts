@@ -0,0 +1,51 @@
+import { SessionReplayer } from '../../src/core/session-replayer';
+import { SessionRecording } from '../../src/core/session-recorder';
+
+describe('SessionReplayer', () => {
+  const recording: SessionRecording = {
+    header: { s: 'session', t: 0, version: 1, sessionId: 's1', startTime: 0, args: [] },
+    chunks: [
+      { s: 'stdin', t: 0, d: 'question' },
+      { s: 'stdin', t: 1, end: true },
+      { s: 'stdout', t: 5, d: '{"a":' },
+      { s: 'stdout', t: 60, d: '1}\n' }
+    ]
+  };
+
+  it('should deliver chunks with their recorded boundaries and order', async () => {
+    const replayer = new SessionReplayer(recording);
+    const seen: string[] = [];
+
+    replayer.channel('stdin').on('data', chunk => seen.push(`stdin:${chunk}`));
+    replayer.channel('stdin').on('end', () => seen.push('stdin:end'));
+    replayer.channel('stdout').on('data', chunk => seen.push(`stdout:${chunk}`));
+
+    const count = await replayer.run();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(count).toBe(3);
+    expect(seen).toEqual(['stdin:question', 'stdin:end', 'stdout:{"a":', 'stdout:1}\n']);
+  });
+
+  it('should reproduce recorded gaps in realtime mode', async () => {
+    const replayer = new SessionReplayer(recording, { realtime: true });
+    replayer.channel('stdout').resume();
+    replayer.channel('stdin').resume();
+
+    const start = Date.now();
+    await replayer.run();
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(55);
+  });
+
+  it('should end every channel when the recording runs out', async () => {
+    const replayer = new SessionReplayer(recording);
+    const stderr = replayer.channel('stderr');
+    const ended = new Promise(resolve => stderr.on('end', resolve));
+    stderr.resume();
+
+    await replayer.run();
+
+    await expect(ended).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+import { SseDecoder } from '../../src/core/sse-decoder';
+
+describe('SseDecoder', () => {
+  let decoder: SseDecoder;
+
+  beforeEach(() => {
+    decoder = new SseDecoder();
+  });
+
+  describe('event assembly', () => {
+    it('should dispatch an event on a blank line', () => {
+      expect(decoder.decode('data: {"a":1}\n')).toEqual([]);
+      expect(decoder.decode('\n')).toEqual([{ event: 'message', data: '{"a":1}' }]);
+    });
+
+    it('should join multi-line data with newlines', () => {
+      const events = decoder.decode('data: first\ndata: second\ndata:third\n\n');
+
+      expect(events).toEqual([{ event: 'message', data: 'first\nsecond\nthird' }]);
+    });
+
+    it('should expose the event name', () => {
+      const [event] = decoder.decode('event: content_block_delta\ndata: {}\n\n');
+
+      expect(event.event).toBe('content_block_delta');
+    });
+
+    it('should reset the event name between events', () => {
+      const events = decoder.decode('event: ping\ndata: 1\n\ndata: 2\n\n');
+
+      expect(events.map(e => e.event)).toEqual(['ping', 'message']);
+    });
+
+    it('should not dispatch events without data', () => {
+      expect(decoder.decode('event: ping\n\n: keep-alive\n\n')).toEqual([]);
+    });
+
+    it('should keep the last event id across events', () => {
+      const events = decoder.decode('id: 7\ndata: a\n\ndata: b\n\n');
+
+      expect(events.map(e => e.id)).toEqual(['7', '7']);
+    });
+
+    it('should accept only numeric retry values', () => {
+      const [first] = decoder.decode('retry: 3000\ndata: a\n\n');
+      const [second] = decoder.decode('retry: soon\ndata: b\n\n');
+
+      expect(first.retry).toBe(3000);
+      expect(second.retry).toBe(3000);
+    });
+
+    it('should ignore comments and unknown fields', () => {
+      const events = decoder.decode(': comment\nfoo: bar\ndata: x\n\n');
+
+      expect(events).toEqual([{ event: 'message', data: 'x' }]);
+    });
+
+    it('should treat a line without a colon as a field with an empty value', () => {
+      const [event] = decoder.decode('data\ndata\n\n');
+
+      expect(event.data).toBe('\n');
+    });
+  });
+
+  describe('line endings', () => {
+    it('should accept CRLF, LF and CR line endings', () => {
+      const events = decoder.decode('data: a\r\n\r\ndata: b\n\ndata: c\r\r');
+
+      expect(events.map(e => e.data)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should not see an extra line when CRLF is split across chunks', () => {
+      expect(decoder.decode('data: a\r')).toEqual([]);
+      expect(decoder.decode('\ndata: b\r\n\r\n')).toEqual([{ event: 'message', data: 'a\nb' }]);
+    });
+
+    it('should assemble fields split across chunks', () => {
+      const input = 'event: message_stop\ndata: {"type":"message_stop"}\n\n';
+      const events = input.split('').flatMap(char => decoder.decode(char));
+
+      expect(events).toEqual([{ event: 'message_stop', data: '{"type":"message_stop"}' }]);
+    });
+
+    it('should strip a leading byte order mark', () => {
+      const [event] = decoder.decode('\uFEFFdata: a\n\n');
+
+      expect(event.data).toBe('a');
+    });
+  });
+
+  describe('limits', () => {
+    it('should drop oversized events whole and report their size', () => {
+      const onDiscard = jest.fn();
+      decoder = new SseDecoder({ maxEventSize: 10, onDiscard });
+
+      const events = decoder.decode('data: 0123456789abc\ndata: more\n\ndata: ok\n\n');
+
+      expect(events).toEqual([{ event: 'message', data: 'ok' }]);
+      expect(onDiscard).toHaveBeenCalledTimes(1);
+      expect(onDiscard.mock.calls[0][0]).toBeGreaterThan(10);
+    });
+
+    it('should clear the last event id on reset', () => {
+      decoder.decode('id: 1\ndata: a\n\n');
+      decoder.reset();
+
+      const [event] = decoder.decode('data: b\n\n');
+      expect(event.id).toBeUndefined();
+    });
+  });
+});
@@ -1,7 +1,10 @@
 import { PassThrough } from 'stream';
 import { EventEmitter } from 'events';
-import { StreamHandler } from '../../src/core/stream-handler';
+import { StreamHandler, stripAnsi } from '../../src/core/stream-handler';
 import { JsonStreamParser } from '../../src/core/json-parser';
+import { StreamEventNormalizer } from '../../src/core/event-normalizer';
+import { EventBus } from '../../src/plugins/event-bus';
+import { QueryEvent } from '../../src/types';
 
 describe('StreamHandler', () => {
   let streamHandler: StreamHandler;
@@ -13,7 +16,10 @@ describe('StreamHandler', () => {
     mockParser = {
       parse: jest.fn(),
       reset: jest.fn(),
-      getBuffer: jest.fn()
+      getBuffer: jest.fn(),
+      getStats: jest.fn(),
+      takeDiagnostics: jest.fn().mockReturnValue([]),
+      end: jest.fn().mockReturnValue([])
     } as unknown as jest.Mocked<JsonStreamParser>;
     streamHandler = new StreamHandler(mockEventBus, mockParser);
   });
@@ -77,7 +83,7 @@ describe('StreamHandler', () => {
       
       mockEventBus.once('data', (event) => {
         expect(event).toEqual(testData);
-        expect(mockParser.parse).toHaveBeenCalledWith(JSON.stringify(testData));
+        expect(mockParser.parse).toHaveBeenCalledWith(Buffer.from(JSON.stringify(testData)));
         done();
       });
 
@@ -140,6 +146,172 @@ describe('StreamHandler', () => {
     });
   });
 
+  describe('ANSI stripping', () => {
+    it('should remove color, cursor and title sequences', () => {
+      expect(stripAnsi('\x1b[31mred\x1b[0m \x1b]0;title\x07ok\r\n')).toBe('red ok\n');
+    });
+
+    it('should parse stripped output when requested', () => {
+      const source = new PassThrough();
+      mockParser.parse.mockReturnValue([]);
+
+      streamHandler.setupProcessing(source, undefined, { stripAnsi: true });
+      source.write('\x1b[2K{"type":"result"}\r\n');
+
+      expect(mockParser.parse).toHaveBeenCalledWith('{"type":"result"}\n');
+    });
+  });
+
+  describe('multi-byte characters', () => {
+    const line = Buffer.from('{"text":"caf\u00e9 \u{1F600}"}\n');
+    // Split inside the 4-byte emoji
+    const chunks = [line.subarray(0, line.length - 5), line.subarray(line.length - 5)];
+
+    it.each([
+      ['raw', {}],
+      ['ANSI-stripped', { stripAnsi: true }]
+    ])('should keep a character split across %s chunks intact', (_name, options) => {
+      const handler = new StreamHandler(mockEventBus, new JsonStreamParser());
+      const source = new PassThrough();
+      const received: unknown[] = [];
+      mockEventBus.on('data', event => received.push(event));
+
+      handler.setupProcessing(source, undefined, options);
+      chunks.forEach(chunk => source.write(chunk));
+
+      expect(received).toEqual([{ text: 'caf\u00e9 \u{1F600}' }]);
+    });
+  });
+
+  describe('normalization', () => {
+    it('should emit normalized QueryEvents through EventBus.emitEvent', (done) => {
+      const eventBus = new EventBus();
+      const handler = new StreamHandler(
+        eventBus,
+        new JsonStreamParser(),
+        new StreamEventNormalizer({ sessionId: 'session-1' })
+      );
+      const source = new PassThrough();
+
+      eventBus.on('response', (event: QueryEvent) => {
+        expect(event.data.content[0].text).toBe('hi');
+        expect(event.metadata.sessionId).toBe('session-1');
+        done();
+      });
+
+      handler.setupProcessing(source);
+      source.write(JSON.stringify({
+        type: 'assistant',
+        message: { id: 'msg_1', role: 'assistant', content: [{ type: 'text', text: 'hi' }] }
+      }) + '\n');
+    });
+
+    it('should fall back to typed emits on a plain EventEmitter', (done) => {
+      const handler = new StreamHandler(
+        mockEventBus,
+        mockParser,
+        new StreamEventNormalizer({ sessionId: 'session-1' })
+      );
+      const source = new PassThrough();
+
+      mockParser.parse.mockReturnValue([{ type: 'error', error: { type: 'overloaded_error', message: 'busy' } }]);
+
+      mockEventBus.once('error', (event: QueryEvent) => {
+        expect(event.type).toBe('error');
+        expect(event.data.error.message).toBe('busy');
+        done();
+      });
+
+      handler.setupProcessing(source);
+      source.write('{}');
+    });
+  });
+
+  describe('parse diagnostics', () => {
+    it('should publish a parse-error event with the parser counts', (done) => {
+      const eventBus = new EventBus();
+      const handler = new StreamHandler(
+        eventBus,
+        new JsonStreamParser(),
+        new StreamEventNormalizer({ sessionId: 'session-1' })
+      );
+      const source = new PassThrough();
+
+      eventBus.on('parse-error', (event: QueryEvent) => {
+        expect(event.metadata.sessionId).toBe('session-1');
+        expect(event.metadata.queryId).toBeUndefined();
+        expect(event.data.diagnostics).toEqual([{ kind: 'dropped', reason: 'noise', offset: 0, length: 8 }]);
+        expect(event.data.counts).toMatchObject({ messagesParsed: 1, bytesDiscarded: 8 });
+        expect(handler.getMetrics().parseErrors).toBe(1);
+        done();
+      });
+
+      handler.setupProcessing(source, undefined, { reportNoise: true });
+      source.write('Warning!\n{"type":"ping"}\n');
+    });
+
+    it('should pass raw fragments to diagnostics listeners', () => {
+      const handler = new StreamHandler(mockEventBus, new JsonStreamParser());
+      const listener = jest.fn();
+      const source = new PassThrough();
+
+      handler.onDiagnostics(listener);
+      handler.setupProcessing(source, undefined, { reportNoise: true });
+      source.emit('data', 'not json\n');
+
+      expect(listener).toHaveBeenCalledWith([
+        expect.objectContaining({ reason: 'noise', fragment: 'not json' })
+      ]);
+    });
+
+    it('should only report noise when asked to, and at most once per interval', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(10_000);
+      const parseErrors = jest.fn();
+      mockEventBus.on('parse-error', parseErrors);
+
+      const quiet = new StreamHandler(mockEventBus, new JsonStreamParser());
+      const text = new PassThrough();
+      quiet.setupProcessing(text);
+      text.emit('data', 'Thinking...\n{"type":"ping"}\n');
+      expect(parseErrors).not.toHaveBeenCalled();
+
+      const handler = new StreamHandler(mockEventBus, new JsonStreamParser());
+      const source = new PassThrough();
+      handler.setupProcessing(source, undefined, { reportNoise: true });
+      source.emit('data', 'one\n');
+      source.emit('data', 'two\n');
+      source.emit('data', 'three\n');
+      now.mockReturnValue(10_000 + StreamHandler.NOISE_REPORT_INTERVAL);
+      source.emit('data', 'four\n');
+
+      expect(parseErrors).toHaveBeenCalledTimes(2);
+      expect(parseErrors.mock.calls[0][0].suppressedNoise).toBeUndefined();
+      expect(parseErrors.mock.calls[1][0].suppressedNoise).toBe(2);
+      expect(handler.getMetrics().parseErrors).toBe(2);
+      now.mockRestore();
+    });
+
+    it('should flush the parser when the source ends', () => {
+      const handler = new StreamHandler(mockEventBus, new JsonStreamParser());
+      const listener = jest.fn();
+      const data = jest.fn();
+      const source = new PassThrough();
+
+      handler.onDiagnostics(listener);
+      mockEventBus.on('data', data);
+      handler.setupProcessing(source);
+      source.emit('data', '{"type":"result",\n{"type":"ping"}\n{"type":"cut');
+      source.emit('end');
+
+      expect(data).toHaveBeenCalledWith({ type: 'ping' });
+      expect(listener).toHaveBeenLastCalledWith([
+        expect.objectContaining({ kind: 'dropped', reason: 'truncated', fragment: '{"type":"result",\n' }),
+        expect.objectContaining({ kind: 'recovery', recovered: 1 }),
+        expect.objectContaining({ kind: 'dropped', reason: 'truncated', fragment: '{"type":"cut' })
+      ]);
+    });
+  });
+
   describe('handleBackpressure', () => {
     it('should track backpressure metrics', () => {
       const metrics = streamHandler.getMetrics();
@@ -168,6 +340,19 @@ describe('StreamHandler', () => {
   });
 
   describe('metrics', () => {
+    it('should record when the last chunk arrived', () => {
+      const source = new PassThrough();
+      mockParser.parse.mockReturnValue([]);
+      streamHandler.setupProcessing(source);
+
+      expect(streamHandler.getLastActivity()).toBeUndefined();
+
+      const before = Date.now();
+      source.write('partial');
+
+      expect(streamHandler.getLastActivity()).toBeGreaterThanOrEqual(before);
+    });
+
     it('should track bytes processed', (done) => {
       const source = new PassThrough();
       const data = 'test data';
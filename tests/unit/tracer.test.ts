@@ -0,0 +1,153 @@
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { ExportResultCode } from '@opentelemetry/core';
+import { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { Tracer, OtlpFileExporter, createSpanExporter } from '../../src/core/tracer';
+
+describe('Tracer', () => {
+  let exported: ReadableSpan[];
+  let tracer: Tracer;
+
+  beforeEach(() => {
+    exported = [];
+    tracer = new Tracer({
+      export: (spans, resultCallback) => {
+        exported.push(...spans);
+        resultCallback({ code: ExportResultCode.SUCCESS });
+      },
+      shutdown: async () => {}
+    });
+  });
+
+  it('should record span hierarchy, attributes and status', async () => {
+    const root = tracer.startSpan('claudeware.query', { attributes: { 'session.id': 's1' } });
+    const child = tracer.startSpan('process.spawn', { parent: root, attributes: { attempts: 1, ratio: 0.5 } });
+    child.setAttribute('process.pty', false).setStatus({ code: SpanStatusCode.OK }).end();
+    root.setStatus({ code: SpanStatusCode.ERROR, message: 'Claude exited with 1' }).end();
+
+    await tracer.flush();
+
+    const [spawn, query] = exported;
+    expect(query.resource.attributes).toMatchObject({ 'service.name': 'claudeware' });
+    expect(query.name).toBe('claudeware.query');
+    expect(query.parentSpanId).toBeUndefined();
+    expect(query.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Claude exited with 1' });
+    expect(spawn.name).toBe('process.spawn');
+    expect(spawn.spanContext().traceId).toBe(root.spanContext().traceId);
+    expect(spawn.parentSpanId).toBe(root.spanContext().spanId);
+    expect(spawn.status.code).toBe(SpanStatusCode.OK);
+    expect(spawn.attributes).toEqual({ attempts: 1, ratio: 0.5, 'process.pty': false });
+  });
+
+  it('should ignore changes to ended spans', async () => {
+    const span = tracer.startSpan('process.first_byte');
+    span.setStatus({ code: SpanStatusCode.OK }).end();
+    span.setStatus({ code: SpanStatusCode.ERROR, message: 'late' }).setAttribute('late', true).end();
+
+    await tracer.flush();
+
+    expect(exported).toHaveLength(1);
+    expect(exported[0].status.code).toBe(SpanStatusCode.OK);
+    expect(exported[0].attributes).toEqual({});
+  });
+
+  it('should find bound spans by key and end them on shutdown', async () => {
+    const query = tracer.startSpan('claudeware.query');
+    tracer.bind('corr-1', query);
+
+    const plugin = tracer.startSpan('plugin.onEvent', { parent: tracer.spanFor('corr-1') });
+    plugin.end();
+
+    expect(tracer.spanFor('corr-2')).toBeUndefined();
+    await tracer.shutdown();
+
+    expect(exported.map(span => span.name)).toEqual(['plugin.onEvent', 'claudeware.query']);
+    expect(exported[0].parentSpanId).toBe(query.spanContext().spanId);
+  });
+
+  it('should export in batches and report export failures', async () => {
+    const onError = jest.fn();
+    const failing = new Tracer({
+      export: (_spans, resultCallback) => resultCallback({
+        code: ExportResultCode.FAILED,
+        error: new Error('Collector down')
+      }),
+      shutdown: async () => {}
+    }, { batchSize: 2, onError });
+
+    failing.startSpan('a').end();
+    failing.startSpan('b').end();
+    await failing.flush();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toBe('Collector down');
+  });
+
+  it('should append exports to a file as OTLP JSON, one request per line', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudeware-trace-'));
+    const filePath = path.join(tempDir, 'trace.ndjson');
+    const fileTracer = new Tracer(createSpanExporter(filePath));
+
+    const root = fileTracer.startSpan('a', { attributes: { attempts: 1 } });
+    root.setStatus({ code: SpanStatusCode.ERROR, message: 'failed' }).end();
+    await fileTracer.flush();
+    fileTracer.startSpan('b', { parent: root }).end();
+    await fileTracer.shutdown();
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+    await fs.rm(tempDir, { recursive: true, force: true });
+
+    const requests = lines.map(line => JSON.parse(line));
+    const [a, b] = requests.map(request => request.resourceSpans[0].scopeSpans[0].spans[0]);
+    expect(requests[0].resourceSpans[0].resource.attributes).toEqual(expect.arrayContaining([
+      { key: 'service.name', value: { stringValue: 'claudeware' } }
+    ]));
+    expect(requests[0].resourceSpans[0].scopeSpans[0].scope.name).toBe('claudeware');
+    expect(a).toMatchObject({
+      name: 'a',
+      traceId: expect.stringMatching(/^[0-9a-f]{32}$/),
+      spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+      attributes: [{ key: 'attempts', value: { intValue: 1 } }],
+      status: { code: 2, message: 'failed' }
+    });
+    expect(b).toMatchObject({ name: 'b', traceId: a.traceId, parentSpanId: a.spanId });
+    expect(BigInt(a.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(a.startTimeUnixNano));
+  });
+
+  it('should post exports to an OTLP/HTTP collector', async () => {
+    const bodies: any[] = [];
+    const server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        bodies.push({ url: request.url, contentType: request.headers['content-type'], body: JSON.parse(body) });
+        response.writeHead(200, { 'Content-Type': 'application/json' }).end('{}');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const httpTracer = new Tracer(createSpanExporter(`http://127.0.0.1:${port}/v1/traces`));
+      httpTracer.startSpan('claudeware.query').end();
+      await httpTracer.shutdown();
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    expect(bodies).toHaveLength(1);
+    expect(bodies[0].url).toBe('/v1/traces');
+    expect(bodies[0].contentType).toBe('application/json');
+    expect(bodies[0].body.resourceSpans[0].scopeSpans[0].spans[0].name).toBe('claudeware.query');
+  });
+
+  it('should send http(s) targets to a collector', () => {
+    expect(createSpanExporter('http://localhost:4318/v1/traces')).toBeInstanceOf(OTLPTraceExporter);
+    expect(createSpanExporter('/tmp/trace.ndjson')).toBeInstanceOf(OtlpFileExporter);
+  });
+});
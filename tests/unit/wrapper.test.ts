@@ -0,0 +1,354 @@
+import { PassThrough } from 'stream';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { ClaudeWrapper } from '../../src/wrapper';
+import { WrapperConfig } from '../../src/types';
+import { streamSamples } from '../fixtures/stream-samples';
+
+/**
+ * Write an executable stand-in for the Claude CLI that prints the given lines,
+ * then runs `trailer`
+ */
+async function writeFakeClaude(dir: string, lines: string[], trailer = ''): Promise<string> {
+  const scriptPath = path.join(dir, 'fake-claude.js');
+  const script = [
+    `#!${process.execPath}`,
+    `process.stdout.write(${JSON.stringify(lines.join('\n') + '\n')});`,
+    trailer
+  ].join('\n');
+
+  await fs.writeFile(scriptPath, script, { mode: 0o755 });
+  return scriptPath;
+}
+
+describe('ClaudeWrapper', () => {
+  let tempDir: string;
+  let config: WrapperConfig;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudeware-wrapper-'));
+    config = {
+      mode: 'production',
+      claudePath: process.execPath,
+      wrapper: {
+        timeout: 30000,
+        bufferSize: 65536,
+        gracefulShutdownTimeout: 1000
+      },
+      plugins: {
+        directory: path.join(tempDir, 'plugins'),
+        timeout: 1000,
+        retryAttempts: 3
+      },
+      database: {
+        type: 'sqlite',
+        path: path.join(tempDir, 'db', 'queries.db'),
+        batchSize: 10,
+        flushInterval: 100,
+        walMode: true
+      },
+      monitoring: {
+        enabled: false,
+        logLevel: 'error'
+      },
+      categorization: {
+        cacheSize: 100,
+        patterns: []
+      }
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('configuration', () => {
+    it('should require claudePath', () => {
+      expect(() => new ClaudeWrapper({ ...config, claudePath: '' }))
+        .toThrow('claudePath is required in configuration');
+    });
+
+    it('should reject unsupported database types', () => {
+      expect(() => new ClaudeWrapper({
+        ...config,
+        database: { ...config.database, type: 'supabase' }
+      })).toThrow('Unsupported database type: supabase');
+    });
+
+    it('should fill missing sections with defaults', () => {
+      const wrapper = new ClaudeWrapper({ claudePath: 'claude' } as WrapperConfig);
+      const resolved = wrapper.getConfig();
+
+      expect(resolved.mode).toBe('production');
+      expect(resolved.wrapper.timeout).toBe(300000);
+      expect(resolved.database.walMode).toBe(true);
+      expect(resolved.plugins.retryAttempts).toBe(3);
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should create the database and plugin directories on initialize', async () => {
+      const wrapper = new ClaudeWrapper(config);
+      await wrapper.initialize();
+
+      await expect(fs.stat(path.join(tempDir, 'plugins'))).resolves.toBeDefined();
+      await expect(fs.stat(path.join(tempDir, 'db', 'queries.db'))).resolves.toBeDefined();
+
+      await wrapper.shutdown();
+    });
+
+    it('should pass child output through unchanged', async () => {
+      const wrapper = new ClaudeWrapper(config);
+      const stdout = new PassThrough();
+      const chunks: Buffer[] = [];
+      stdout.on('data', chunk => chunks.push(chunk));
+
+      const line = JSON.stringify({ type: 'result', result: 'ok' });
+      await wrapper.start(
+        ['-e', `process.stdout.write(${JSON.stringify(line + '\n')})`],
+        new PassThrough(),
+        stdout,
+        new PassThrough()
+      );
+
+      await new Promise(resolve => stdout.on('end', resolve));
+
+      expect(Buffer.concat(chunks).toString()).toBe(line + '\n');
+
+      await wrapper.shutdown();
+    });
+
+    it('should record the argv prompt and its responses', async () => {
+      config.claudePath = await writeFakeClaude(tempDir, streamSamples.claudeCliSession);
+      const wrapper = new ClaudeWrapper(config);
+      const stdout = new PassThrough();
+      stdout.resume();
+
+      await wrapper.start(
+        ['-p', 'List the files', '--output-format', 'stream-json'],
+        new PassThrough(),
+        stdout,
+        new PassThrough()
+      );
+
+      await new Promise(resolve => stdout.on('end', resolve));
+      await wrapper.shutdown();
+
+      const db = new Database(config.database.path!, { readonly: true });
+      const queries = db.prepare('SELECT * FROM queries').all() as any[];
+      const responses = db.prepare('SELECT * FROM responses').all() as any[];
+      db.close();
+
+      expect(queries).toHaveLength(1);
+      expect(queries[0].query).toBe('List the files');
+      expect(queries[0].session_id).toBe(wrapper.getSessionId());
+      // Assistant turns are intermediate; only the result is stored
+      expect(responses).toHaveLength(1);
+      expect(responses[0].query_id).toBe(queries[0].id);
+      expect(responses[0].response).toBe('There are two files.');
+    });
+
+    it('should store a streamed SSE message as a single response', async () => {
+      config.claudePath = await writeFakeClaude(tempDir, streamSamples.anthropicSse);
+      config.wrapper.streamFormat = 'sse';
+      const wrapper = new ClaudeWrapper(config);
+
+      await wrapper.start(['-p', 'Weather?'], new PassThrough(), new PassThrough(), new PassThrough());
+      await wrapper.waitForExit();
+
+      const db = new Database(config.database.path!, { readonly: true });
+      const responses = db.prepare('SELECT * FROM responses').all() as any[];
+      db.close();
+
+      expect(responses).toHaveLength(1);
+      expect(responses[0].response).toBe('Hello, world');
+      expect(responses[0].output_tokens).toBe(30);
+      expect(responses[0].finish_reason).toBe('tool_use');
+    });
+
+    it('should quarantine output the parser could not use', async () => {
+      config.claudePath = await writeFakeClaude(tempDir, ['Unexpected banner', ...streamSamples.claudeCliSession]);
+      config.monitoring.quarantinePath = path.join(tempDir, 'quarantine', 'out.ndjson');
+      const wrapper = new ClaudeWrapper(config);
+      const args = ['-p', 'List the files', '--output-format', 'stream-json'];
+
+      await wrapper.start(args, new PassThrough(), new PassThrough(), new PassThrough());
+      await wrapper.waitForExit();
+
+      const lines = (await fs.readFile(config.monitoring.quarantinePath, 'utf8')).trim().split('\n');
+      expect(lines.map(line => JSON.parse(line))).toEqual([
+        expect.objectContaining({ kind: 'dropped', reason: 'noise', offset: 0, fragment: 'Unexpected banner' })
+      ]);
+    });
+
+    it('should keep events in the event log across sessions', async () => {
+      config.claudePath = await writeFakeClaude(tempDir, streamSamples.claudeCliSession);
+      config.database.eventLog = { enabled: true };
+
+      for (let i = 0; i < 2; i++) {
+        const wrapper = new ClaudeWrapper(config);
+        await wrapper.start(['-p', 'List the files'], new PassThrough(), new PassThrough(), new PassThrough());
+        await wrapper.waitForExit();
+      }
+
+      const db = new Database(config.database.path!, { readonly: true });
+      const sessions = db.prepare("SELECT COUNT(DISTINCT session_id) AS count FROM event_log WHERE type = 'query'").get() as any;
+      db.close();
+
+      expect(sessions.count).toBe(2);
+    });
+
+    it('should export a trace of the session as OTLP JSON', async () => {
+      config.claudePath = await writeFakeClaude(tempDir, streamSamples.claudeCliSession);
+      config.monitoring.traceExport = path.join(tempDir, 'traces', 'trace.ndjson');
+
+      const wrapper = new ClaudeWrapper(config);
+      await wrapper.start(['-p', 'List the files'], new PassThrough(), new PassThrough(), new PassThrough());
+      await wrapper.waitForExit();
+
+      const lines = (await fs.readFile(config.monitoring.traceExport, 'utf8')).trim().split('\n');
+      const spans = lines.flatMap(line => JSON.parse(line).resourceSpans[0].scopeSpans[0].spans);
+      const root = spans.find((span: any) => span.name === 'claudeware.query');
+
+      expect(spans.map((span: any) => span.name)).toEqual(expect.arrayContaining([
+        'process.spawn', 'process.first_byte', 'stream.parse', 'db.batch_flush', 'claudeware.query'
+      ]));
+      expect(spans.every((span: any) => span.traceId === root.traceId)).toBe(true);
+      expect(root.attributes).toEqual(expect.arrayContaining([
+        { key: 'process.exit_code', value: { intValue: 0 } }
+      ]));
+    });
+
+    it('should replay a recorded session without spawning Claude', async () => {
+      config.claudePath = await writeFakeClaude(tempDir, streamSamples.claudeCliSession, 'process.exitCode = 2;');
+      config.monitoring.recordPath = path.join(tempDir, 'recordings', 'session.ndjson');
+      const recorded = new ClaudeWrapper(config);
+      await recorded.start(['-p', 'List the files'], new PassThrough(), new PassThrough(), new PassThrough());
+      await recorded.waitForExit();
+
+      const replayConfig = {
+        ...config,
+        claudePath: path.join(tempDir, 'missing-claude'),
+        database: { ...config.database, path: path.join(tempDir, 'replay.db') },
+        monitoring: { ...config.monitoring, recordPath: undefined }
+      };
+      const stdout = new PassThrough();
+      const output: string[] = [];
+      stdout.on('data', chunk => output.push(chunk.toString()));
+
+      const status = await new ClaudeWrapper(replayConfig)
+        .replay(config.monitoring.recordPath, stdout, new PassThrough());
+
+      const db = new Database(replayConfig.database.path, { readonly: true });
+      const queries = db.prepare('SELECT query FROM queries').all() as any[];
+      const responses = db.prepare('SELECT response FROM responses ORDER BY timestamp').all() as any[];
+      db.close();
+
+      expect(status).toEqual({ code: 2, signal: null });
+      expect(output.join('')).toBe(streamSamples.claudeCliSession.join('\n') + '\n');
+      expect(queries).toEqual([{ query: 'List the files' }]);
+      expect(responses.map(r => r.response)).toEqual(['There are two files.']);
+    });
+
+    it('should flush pending writes before reporting the exit', async () => {
+      config.claudePath = await writeFakeClaude(tempDir, streamSamples.claudeCliSession);
+      config.database.flushInterval = 60000;
+      const wrapper = new ClaudeWrapper(config);
+      const stdout = new PassThrough();
+      stdout.resume();
+
+      await wrapper.start(['-p', 'List the files'], new PassThrough(), stdout, new PassThrough());
+      const status = await wrapper.waitForExit();
+
+      const db = new Database(config.database.path!, { readonly: true });
+      const responses = db.prepare('SELECT * FROM responses').all();
+      db.close();
+
+      expect(status).toEqual({ code: 0, signal: null });
+      expect(responses).toHaveLength(1);
+    });
+
+    it('should report the child exit code', async () => {
+      const wrapper = new ClaudeWrapper(config);
+
+      await wrapper.start(['-e', 'process.exit(3)'], new PassThrough(), new PassThrough(), new PassThrough());
+
+      await expect(wrapper.waitForExit()).resolves.toEqual({ code: 3, signal: null });
+    });
+
+    it('should report the terminating signal', async () => {
+      const wrapper = new ClaudeWrapper(config);
+
+      await wrapper.start(
+        ['-e', 'process.kill(process.pid, "SIGTERM")'],
+        new PassThrough(),
+        new PassThrough(),
+        new PassThrough()
+      );
+
+      await expect(wrapper.waitForExit()).resolves.toEqual({ code: null, signal: 'SIGTERM' });
+    });
+
+    it('should report 127 when Claude cannot be found', async () => {
+      config.claudePath = path.join(tempDir, 'missing-claude');
+      const wrapper = new ClaudeWrapper(config);
+
+      await wrapper.start([], new PassThrough(), new PassThrough(), new PassThrough());
+      const status = await wrapper.waitForExit();
+
+      expect(status.code).toBe(127);
+      expect(status.error?.message).toContain('ENOENT');
+    });
+
+    it('should interrupt a session that exceeds the wall-clock limit', async () => {
+      config.claudePath = await writeFakeClaude(tempDir, [], 'setInterval(() => {}, 1000);');
+      config.wrapper.timeout = 200;
+      const wrapper = new ClaudeWrapper(config);
+
+      await wrapper.start(['-p', 'Hang'], new PassThrough(), new PassThrough(), new PassThrough());
+
+      await expect(wrapper.waitForExit()).resolves.toEqual({ code: null, signal: 'SIGINT' });
+    });
+
+    it('should record an idle session as a timeout error', async () => {
+      config.claudePath = await writeFakeClaude(
+        tempDir,
+        streamSamples.claudeCliSession.slice(0, 2),
+        'setInterval(() => {}, 1000);'
+      );
+      config.wrapper.idleTimeout = 300;
+      const wrapper = new ClaudeWrapper(config);
+
+      await wrapper.start(['-p', 'List the files'], new PassThrough(), new PassThrough(), new PassThrough());
+      await wrapper.waitForExit();
+
+      const db = new Database(config.database.path!, { readonly: true });
+      const responses = db.prepare('SELECT * FROM responses ORDER BY rowid').all() as any[];
+      db.close();
+
+      // The assistant turn is intermediate; the timeout ends the query
+      expect(responses).toHaveLength(1);
+      expect(responses[0].finish_reason).toBe('timeout');
+      expect(responses[0].error).toBe('Claude produced no output for 300ms');
+    });
+
+    it('should reject waitForExit before start', async () => {
+      const wrapper = new ClaudeWrapper(config);
+
+      await expect(wrapper.waitForExit()).rejects.toThrow('Wrapper has not been started');
+    });
+
+    it('should share a single shutdown between concurrent callers', async () => {
+      const wrapper = new ClaudeWrapper(config);
+      await wrapper.initialize();
+
+      const first = wrapper.shutdown();
+      const second = wrapper.shutdown();
+
+      expect(second).toBe(first);
+      await first;
+    });
+  });
+});